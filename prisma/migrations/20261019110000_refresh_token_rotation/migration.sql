@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" RENAME COLUMN "token" TO "token_hash";
+ALTER TABLE "refresh_tokens" ADD COLUMN "family_id" TEXT,
+ADD COLUMN "rotated_at" TIMESTAMP(3),
+ADD COLUMN "revoked_at" TIMESTAMP(3);
+
+-- Hash existing plaintext tokens in place so current sessions keep working;
+-- every existing token starts its own family
+UPDATE "refresh_tokens"
+SET "token_hash" = encode(sha256(convert_to("token_hash", 'UTF8')), 'hex'),
+    "family_id" = "id";
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "family_id" SET NOT NULL;
+
+-- RenameIndex
+ALTER INDEX "refresh_tokens_token_key" RENAME TO "refresh_tokens_token_hash_key";
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_family_id_idx" ON "refresh_tokens"("family_id");
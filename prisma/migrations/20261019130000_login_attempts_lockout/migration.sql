@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "UserStatus" ADD VALUE 'LOCKED';
+
+-- CreateEnum
+CREATE TYPE "LoginAttemptReason" AS ENUM ('SUCCESS', 'MFA_REQUIRED', 'UNKNOWN_EMAIL', 'INVALID_PASSWORD', 'ACCOUNT_DISABLED', 'ACCOUNT_LOCKED');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "failed_login_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lockout_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "locked_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "login_attempts" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "email" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "reason" "LoginAttemptReason" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_attempts_user_id_created_at_idx" ON "login_attempts"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "login_attempts_email_idx" ON "login_attempts"("email");
+
+-- CreateIndex
+CREATE INDEX "login_attempts_ip_address_idx" ON "login_attempts"("ip_address");
+
+-- AddForeignKey
+ALTER TABLE "login_attempts" ADD CONSTRAINT "login_attempts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
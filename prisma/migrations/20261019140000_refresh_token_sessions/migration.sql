@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN "device_name" TEXT,
+ADD COLUMN "ip_address" TEXT,
+ADD COLUMN "user_agent" TEXT,
+ADD COLUMN "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
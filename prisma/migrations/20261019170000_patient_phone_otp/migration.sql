@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "LoginAttemptReason" ADD VALUE 'INVALID_OTP';
+
+-- CreateTable
+CREATE TABLE "phone_otps" (
+    "id" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "consumed_at" TIMESTAMP(3),
+    "ip_address" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "phone_otps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "phone_otps_phone_created_at_idx" ON "phone_otps"("phone", "created_at");
+
+-- CreateIndex
+CREATE INDEX "phone_otps_patient_id_idx" ON "phone_otps"("patient_id");
+
+-- AddForeignKey
+ALTER TABLE "phone_otps" ADD CONSTRAINT "phone_otps_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
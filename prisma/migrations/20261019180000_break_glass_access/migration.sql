@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "is_restricted" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "break_glass_grants" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "revoked_by" TEXT,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "review_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "break_glass_grants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "break_glass_grants_user_id_patient_id_expires_at_idx" ON "break_glass_grants"("user_id", "patient_id", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "break_glass_grants_acknowledged_at_idx" ON "break_glass_grants"("acknowledged_at");
+
+-- AddForeignKey
+ALTER TABLE "break_glass_grants" ADD CONSTRAINT "break_glass_grants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "break_glass_grants" ADD CONSTRAINT "break_glass_grants_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
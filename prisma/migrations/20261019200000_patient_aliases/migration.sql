@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "patient_aliases" (
+    "alias" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "merged_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "patient_aliases_pkey" PRIMARY KEY ("alias")
+);
+
+-- CreateIndex
+CREATE INDEX "patient_aliases_patient_id_idx" ON "patient_aliases"("patient_id");
+
+-- AddForeignKey
+ALTER TABLE "patient_aliases" ADD CONSTRAINT "patient_aliases_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
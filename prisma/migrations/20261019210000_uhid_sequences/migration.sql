@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "uhid_sequences" (
+    "year" INTEGER NOT NULL,
+    "last_value" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "uhid_sequences_pkey" PRIMARY KEY ("year")
+);
+
+-- Luhn check digit, same as UhidService.checkDigit
+CREATE FUNCTION pg_temp.uhid_check_digit(payload TEXT) RETURNS INTEGER AS $$
+    SELECT ((10 - SUM(
+        CASE WHEN (length(payload) - pos) % 2 = 0
+            THEN (substr(payload, pos, 1)::INTEGER * 2) % 10 + (substr(payload, pos, 1)::INTEGER * 2) / 10
+            ELSE substr(payload, pos, 1)::INTEGER
+        END
+    ) % 10) % 10)::INTEGER
+    FROM generate_series(1, length(payload)) AS pos;
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Give every existing patient a display UHID (SSC-<registration year>-<sequence>-<check>),
+-- numbered in registration order. Their old UHIDs stay as the primary key.
+WITH numbered AS (
+    SELECT
+        "uhid",
+        EXTRACT(YEAR FROM "registration_date")::INTEGER AS "year",
+        LPAD((ROW_NUMBER() OVER (
+            PARTITION BY EXTRACT(YEAR FROM "registration_date")
+            ORDER BY "registration_date", "created_at", "uhid"
+        ))::TEXT, 6, '0') AS "seq"
+    FROM "patients"
+)
+INSERT INTO "patient_aliases" ("alias", "patient_id")
+SELECT 'SSC-' || "year" || '-' || "seq" || '-' || pg_temp.uhid_check_digit("year"::TEXT || "seq"), "uhid"
+FROM numbered;
+
+-- Continue each year's sequence after the backfilled numbers
+INSERT INTO "uhid_sequences" ("year", "last_value", "updated_at")
+SELECT EXTRACT(YEAR FROM "registration_date")::INTEGER, COUNT(*), CURRENT_TIMESTAMP
+FROM "patients"
+GROUP BY 1;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "GuardianRelation" AS ENUM ('PARENT', 'LEGAL_GUARDIAN', 'CHILD', 'SPOUSE', 'SIBLING', 'CAREGIVER', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "patient_guardians" (
+    "id" TEXT NOT NULL,
+    "guardian_id" TEXT NOT NULL,
+    "dependent_id" TEXT NOT NULL,
+    "relation" "GuardianRelation" NOT NULL,
+    "consented_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "patient_guardians_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patient_guardians_guardian_id_dependent_id_key" ON "patient_guardians"("guardian_id", "dependent_id");
+
+-- CreateIndex
+CREATE INDEX "patient_guardians_dependent_id_idx" ON "patient_guardians"("dependent_id");
+
+-- AddForeignKey
+ALTER TABLE "patient_guardians" ADD CONSTRAINT "patient_guardians_guardian_id_fkey" FOREIGN KEY ("guardian_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_guardians" ADD CONSTRAINT "patient_guardians_dependent_id_fkey" FOREIGN KEY ("dependent_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
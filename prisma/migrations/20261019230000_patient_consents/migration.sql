@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ConsentType" AS ENUM ('TREATMENT', 'SMS_COMMUNICATION', 'EMAIL_COMMUNICATION', 'LAB_REPORT_SHARING');
+
+-- CreateEnum
+CREATE TYPE "ConsentChannel" AS ENUM ('RECEPTION', 'PORTAL');
+
+-- CreateTable
+CREATE TABLE "consent_templates" (
+    "id" TEXT NOT NULL,
+    "type" "ConsentType" NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "consent_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "patient_consents" (
+    "id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "type" "ConsentType" NOT NULL,
+    "template_id" TEXT NOT NULL,
+    "granted" BOOLEAN NOT NULL,
+    "channel" "ConsentChannel" NOT NULL,
+    "recorded_by" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "patient_consents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "consent_templates_type_version_key" ON "consent_templates"("type", "version");
+
+-- CreateIndex
+CREATE INDEX "patient_consents_patient_id_type_created_at_idx" ON "patient_consents"("patient_id", "type", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "patient_consents" ADD CONSTRAINT "patient_consents_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_consents" ADD CONSTRAINT "patient_consents_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "consent_templates"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Version 1 of each template, so consent can be captured straight away
+INSERT INTO "consent_templates" ("id", "type", "version", "title", "body") VALUES
+    (gen_random_uuid()::TEXT, 'TREATMENT', 1, 'Consent to treatment', 'I consent to examination, investigation and treatment by the clinic''s doctors and staff.'),
+    (gen_random_uuid()::TEXT, 'SMS_COMMUNICATION', 1, 'SMS messages', 'I agree to receive appointment, billing and report messages from the clinic by SMS.'),
+    (gen_random_uuid()::TEXT, 'EMAIL_COMMUNICATION', 1, 'Email messages', 'I agree to receive appointment, billing and report messages from the clinic by email.'),
+    (gen_random_uuid()::TEXT, 'LAB_REPORT_SHARING', 1, 'Lab report sharing', 'I agree that my lab reports may be released to me through the patient portal and to the people managing my profile.');
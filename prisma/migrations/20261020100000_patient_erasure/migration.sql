@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ErasureRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "erased_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "erasure_requests" (
+    "id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "requested_by" TEXT NOT NULL,
+    "reason" TEXT,
+    "status" "ErasureRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewed_by" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "erasure_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "erasure_requests_status_created_at_idx" ON "erasure_requests"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "erasure_requests_patient_id_idx" ON "erasure_requests"("patient_id");
+
+-- AddForeignKey
+ALTER TABLE "erasure_requests" ADD CONSTRAINT "erasure_requests_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
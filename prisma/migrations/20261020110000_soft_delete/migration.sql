@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "deleted_at" TIMESTAMP(3),
+ADD COLUMN "deleted_by" TEXT;
+
+-- AlterTable
+ALTER TABLE "staff" ADD COLUMN "deleted_at" TIMESTAMP(3),
+ADD COLUMN "deleted_by" TEXT;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "deleted_at" TIMESTAMP(3),
+ADD COLUMN "deleted_by" TEXT;
+
+-- CreateIndex
+CREATE INDEX "patients_deleted_at_idx" ON "patients"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "staff_deleted_at_idx" ON "staff"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "bills_deleted_at_idx" ON "bills"("deleted_at");
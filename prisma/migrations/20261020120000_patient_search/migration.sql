@@ -0,0 +1,53 @@
+-- Trigram matching for the ranked patient search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Search key for names and villages. Folds the usual Telugu-to-English
+-- transliteration variants onto one spelling (Lakshmi/Laxmi, Sreenivas/Srinivas,
+-- Shravani/Sravani, Reddy/Reddi) so they compare as equal.
+-- Keep in step with searchKey() in patientSearch.service.ts.
+CREATE OR REPLACE FUNCTION patient_search_key(value TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT regexp_replace(
+        regexp_replace(
+            regexp_replace(
+                regexp_replace(
+                    regexp_replace(
+                        regexp_replace(
+                            regexp_replace(lower(coalesce(value, '')), '[^a-z ]', '', 'g'),
+                        'ksh|ks', 'x', 'g'),
+                    'ee|ii', 'i', 'g'),
+                'oo|uu', 'u', 'g'),
+            '([bdgkpts])h', '\1', 'g'),
+        'y( |$)', 'i\1', 'g'),
+    '([a-z])\1+', '\1', 'g')
+$$;
+
+-- Identifiers compared without spaces, dashes or case
+CREATE OR REPLACE FUNCTION patient_search_code(value TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+    SELECT regexp_replace(upper(coalesce(value, '')), '[^A-Z0-9]', '', 'g')
+$$;
+
+-- CreateIndex
+CREATE INDEX "patients_search_name_trgm_idx" ON "patients" USING GIN (patient_search_key("first_name" || ' ' || "last_name") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "patients_search_village_trgm_idx" ON "patients" USING GIN (patient_search_key("village") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "patients_phone_trgm_idx" ON "patients" USING GIN ("phone" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "patients_alt_phone_trgm_idx" ON "patients" USING GIN ("alt_phone" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "patients_search_uhid_trgm_idx" ON "patients" USING GIN (patient_search_code("uhid") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "patients_search_id_number_trgm_idx" ON "patients" USING GIN (patient_search_code("id_number") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "patient_aliases_search_alias_trgm_idx" ON "patient_aliases" USING GIN (patient_search_code("alias") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "appointments_patient_id_idx" ON "appointments"("patient_id");
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AvailabilityExceptionType" AS ENUM ('LEAVE', 'HOLIDAY');
+
+-- AlterTable
+ALTER TABLE "staff" ADD COLUMN "slot_minutes" INTEGER NOT NULL DEFAULT 15;
+
+-- CreateTable
+CREATE TABLE "doctor_availability" (
+    "id" TEXT NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "day_of_week" INTEGER NOT NULL,
+    "start_time" VARCHAR(5) NOT NULL,
+    "end_time" VARCHAR(5) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "doctor_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "doctor_availability_exceptions" (
+    "id" TEXT NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "type" "AvailabilityExceptionType" NOT NULL,
+    "start_time" VARCHAR(5),
+    "end_time" VARCHAR(5),
+    "reason" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "doctor_availability_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_doctor_id_day_of_week_idx" ON "doctor_availability"("doctor_id", "day_of_week");
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_exceptions_doctor_id_date_idx" ON "doctor_availability_exceptions"("doctor_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "doctor_availability" ADD CONSTRAINT "doctor_availability_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "doctor_availability_exceptions" ADD CONSTRAINT "doctor_availability_exceptions_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
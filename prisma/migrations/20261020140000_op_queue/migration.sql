@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "OpTokenStatus" AS ENUM ('WAITING', 'CALLED', 'IN_CONSULTATION', 'DONE', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "op_tokens" (
+    "id" TEXT NOT NULL,
+    "appointment_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "visit_date" DATE NOT NULL,
+    "token_number" INTEGER NOT NULL,
+    "sort_order" INTEGER NOT NULL,
+    "is_emergency" BOOLEAN NOT NULL DEFAULT false,
+    "status" "OpTokenStatus" NOT NULL DEFAULT 'WAITING',
+    "called_at" TIMESTAMP(3),
+    "consultation_started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "skipped_at" TIMESTAMP(3),
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "op_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "op_token_sequences" (
+    "doctor_id" TEXT NOT NULL,
+    "visit_date" DATE NOT NULL,
+    "last_value" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "op_token_sequences_pkey" PRIMARY KEY ("doctor_id", "visit_date")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "op_tokens_appointment_id_key" ON "op_tokens"("appointment_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "op_tokens_doctor_id_visit_date_token_number_key" ON "op_tokens"("doctor_id", "visit_date", "token_number");
+
+-- CreateIndex
+CREATE INDEX "op_tokens_visit_date_status_idx" ON "op_tokens"("visit_date", "status");
+
+-- AddForeignKey
+ALTER TABLE "op_tokens" ADD CONSTRAINT "op_tokens_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "op_tokens" ADD CONSTRAINT "op_tokens_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "op_tokens" ADD CONSTRAINT "op_tokens_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
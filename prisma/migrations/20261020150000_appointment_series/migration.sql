@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "SeriesFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN "series_id" TEXT,
+ADD COLUMN "series_index" INTEGER;
+
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "frequency" "SeriesFrequency",
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "occurrences" INTEGER NOT NULL,
+    "medical_record_id" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointments_series_id_idx" ON "appointments"("series_id");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patient_id_idx" ON "appointment_series"("patient_id");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_medical_record_id_idx" ON "appointment_series"("medical_record_id");
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("uhid") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_medical_record_id_fkey" FOREIGN KEY ("medical_record_id") REFERENCES "medical_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ReminderChannel" AS ENUM ('EMAIL', 'SMS', 'IN_APP');
+
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('SENT', 'SKIPPED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "appointment_reminders" (
+    "id" TEXT NOT NULL,
+    "appointment_id" TEXT NOT NULL,
+    "scheduled_at" TIMESTAMP(3) NOT NULL,
+    "offset_minutes" INTEGER NOT NULL,
+    "channel" "ReminderChannel" NOT NULL,
+    "status" "ReminderStatus" NOT NULL,
+    "detail" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_reminders_once_key" ON "appointment_reminders"("appointment_id", "scheduled_at", "offset_minutes", "channel");
+
+-- CreateIndex
+CREATE INDEX "appointments_status_scheduled_at_idx" ON "appointments"("status", "scheduled_at");
+
+-- AddForeignKey
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
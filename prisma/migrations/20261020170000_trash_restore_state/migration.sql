@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "detached_lab_order_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "staff" ADD COLUMN "status_before_delete" "UserStatus";
+
+-- Orders still attached to bills already in the trash are released, as a new delete would
+UPDATE "bills" b SET "detached_lab_order_ids" = o.ids
+FROM (
+    SELECT "bill_id", array_agg("id") AS ids FROM "lab_test_orders" WHERE "bill_id" IS NOT NULL GROUP BY "bill_id"
+) o
+WHERE o."bill_id" = b."id" AND b."deleted_at" IS NOT NULL;
+
+UPDATE "lab_test_orders" SET "bill_id" = NULL, "billing_status" = 'PENDING'
+WHERE "bill_id" IN (SELECT "id" FROM "bills" WHERE "deleted_at" IS NOT NULL);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "LoginAttemptReason" ADD VALUE 'INVALID_MFA_CODE';
@@ -0,0 +1,3 @@
+-- Requests that sent no code (unknown or shared phone) are kept for rate limiting
+ALTER TABLE "phone_otps" ALTER COLUMN "patient_id" DROP NOT NULL,
+ALTER COLUMN "code_hash" DROP NOT NULL;
@@ -0,0 +1,2 @@
+-- Lockouts now live in locked_until only; give locked accounts their status back
+UPDATE "users" SET "status" = 'ACTIVE' WHERE "status" = 'LOCKED';
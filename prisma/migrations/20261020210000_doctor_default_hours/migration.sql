@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "staff" ALTER COLUMN "slot_minutes" SET DEFAULT 30;
+
+-- Doctors who never had their hours set up still carry the old 15-minute default
+UPDATE "staff" s SET "slot_minutes" = 30
+WHERE s."slot_minutes" = 15
+  AND NOT EXISTS (SELECT 1 FROM "doctor_availability" a WHERE a."doctor_id" = s."id");
+
+-- Doctors without working hours cannot be booked; give them Monday to Saturday, 09:00-17:00
+INSERT INTO "doctor_availability" ("id", "doctor_id", "day_of_week", "start_time", "end_time", "updated_at")
+SELECT gen_random_uuid()::TEXT, s."id", d."day", '09:00', '17:00', CURRENT_TIMESTAMP
+FROM "staff" s
+JOIN "users" u ON u."id" = s."user_id"
+CROSS JOIN generate_series(1, 6) AS d("day")
+WHERE u."role" = 'DOCTOR'
+  AND NOT EXISTS (SELECT 1 FROM "doctor_availability" a WHERE a."doctor_id" = s."id");
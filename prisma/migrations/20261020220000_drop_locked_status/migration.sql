@@ -0,0 +1,19 @@
+-- Lockouts live in users.locked_until; no account is given the LOCKED status any more
+UPDATE "users" SET "status" = 'ACTIVE' WHERE "status" = 'LOCKED';
+UPDATE "staff" SET "status" = 'ACTIVE' WHERE "status" = 'LOCKED';
+UPDATE "staff" SET "status_before_delete" = 'ACTIVE' WHERE "status_before_delete" = 'LOCKED';
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "UserStatus_new" AS ENUM ('ACTIVE', 'DISABLED', 'PENDING');
+ALTER TABLE "users" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "staff" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "users" ALTER COLUMN "status" TYPE "UserStatus_new" USING ("status"::text::"UserStatus_new");
+ALTER TABLE "staff" ALTER COLUMN "status" TYPE "UserStatus_new" USING ("status"::text::"UserStatus_new");
+ALTER TABLE "staff" ALTER COLUMN "status_before_delete" TYPE "UserStatus_new" USING ("status_before_delete"::text::"UserStatus_new");
+ALTER TYPE "UserStatus" RENAME TO "UserStatus_old";
+ALTER TYPE "UserStatus_new" RENAME TO "UserStatus";
+DROP TYPE "UserStatus_old";
+ALTER TABLE "users" ALTER COLUMN "status" SET DEFAULT 'ACTIVE';
+ALTER TABLE "staff" ALTER COLUMN "status" SET DEFAULT 'ACTIVE';
+COMMIT;
@@ -23,6 +23,14 @@ import { billingRoutes } from './modules/billing/index.js';
 import { uploadRoutes } from './modules/upload/index.js';
 import { downloadRoutes } from './modules/downloads/download.routes.js';
 import { notificationRoutes } from './modules/notification/notification.routes.js';
+import { permissionsRoutes } from './modules/permissions/index.js';
+import { auditRoutes } from './modules/audit/index.js';
+import { breakGlassRoutes } from './modules/breakglass/index.js';
+import { apiKeysRoutes } from './modules/apikeys/index.js';
+import { consentRoutes } from './modules/consent/index.js';
+import { trashRoutes } from './modules/trash/index.js';
+import { queueRoutes } from './modules/queue/index.js';
+import { eventsRoutes } from './modules/events/index.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -46,7 +54,7 @@ export function createApp(): Application {
         origin: config.corsOrigins,
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Pragma', 'Expires', 'X-Correlation-ID'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Pragma', 'Expires', 'X-Correlation-ID', 'X-API-Key'],
     }));
 
     // Body parsing
@@ -120,6 +128,14 @@ export function createApp(): Application {
     app.use('/api/pharmacy', pharmacyRoutes);
     app.use('/api/lab', labRoutes);
     app.use('/api/notifications', notificationRoutes);
+    app.use('/api/permissions', permissionsRoutes);
+    app.use('/api/audit', auditRoutes);
+    app.use('/api/break-glass', breakGlassRoutes);
+    app.use('/api/api-keys', apiKeysRoutes);
+    app.use('/api/consents', consentRoutes);
+    app.use('/api/trash', trashRoutes);
+    app.use('/api/queue', queueRoutes);
+    app.use('/api/events', eventsRoutes);
 
     // Register secure download routes
     app.use('/api/downloads', downloadRoutes);
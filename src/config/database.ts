@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { logger } from '../utils/logger.js';
+import { softDeleteMiddleware } from '../utils/softDelete.js';
+import { notificationEventsMiddleware } from '../modules/events/notificationEvents.js';
 
 declare global {
     // eslint-disable-next-line no-var
@@ -18,6 +20,12 @@ if (process.env.NODE_ENV !== 'production') {
     global.prisma = prisma;
 }
 
+// Soft-deleted patients, staff and bills are left out of reads by default
+prisma.$use(softDeleteMiddleware);
+
+// New notifications are pushed to connected recipients
+prisma.$use(notificationEventsMiddleware);
+
 // Log queries in development
 prisma.$on('query' as never, (e: { query: string; duration: number }) => {
     if (process.env.NODE_ENV === 'development') {
@@ -22,6 +22,94 @@ export const config = {
         refreshExpiry: process.env.JWT_REFRESH_EXPIRY || '7d',
     },
 
+    // Password reset
+    passwordReset: {
+        // Links sent from "forgot password"
+        tokenExpiry: process.env.PASSWORD_RESET_EXPIRY || '1h',
+        // Links sent in patient/staff welcome emails
+        inviteExpiry: process.env.PASSWORD_INVITE_EXPIRY || '24h',
+    },
+
+    // Two-factor authentication (TOTP)
+    mfa: {
+        // Roles that must pass a second factor before an access token is issued
+        requiredRoles: (process.env.MFA_REQUIRED_ROLES || 'ADMIN,PHARMACIST')
+            .split(',')
+            .map(role => role.trim().toUpperCase())
+            .filter(Boolean),
+        issuer: process.env.MFA_ISSUER || 'Swetha Saiphani Clinics',
+        // Short-lived token handed out between the password step and the TOTP step
+        challengeSecret: process.env.MFA_CHALLENGE_SECRET || 'default-mfa-challenge-secret-change-me',
+        challengeExpiry: process.env.MFA_CHALLENGE_EXPIRY || '5m',
+        // Used to encrypt TOTP secrets at rest
+        encryptionKey: process.env.MFA_ENCRYPTION_KEY || 'default-mfa-encryption-key-change-me',
+        recoveryCodeCount: 10,
+    },
+
+    // Progressive account lockout after repeated failed logins
+    lockout: {
+        maxFailedAttempts: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5', 10),
+        // Doubles with every lockout in a row, capped at maxDuration
+        baseDuration: process.env.LOGIN_LOCKOUT_DURATION || '15m',
+        maxDuration: process.env.LOGIN_LOCKOUT_MAX_DURATION || '24h',
+    },
+
+    // Patient UHIDs, e.g. SSC-2026-000123-4 (prefix, year, yearly sequence, check digit)
+    uhid: {
+        prefix: process.env.UHID_PREFIX || 'SSC',
+        sequenceDigits: parseInt(process.env.UHID_SEQUENCE_DIGITS || '6', 10),
+    },
+
+    // Emergency ("break-glass") access to restricted patient records
+    breakGlass: {
+        defaultDuration: process.env.BREAK_GLASS_DURATION || '1h',
+        maxDuration: process.env.BREAK_GLASS_MAX_DURATION || '4h',
+    },
+
+    // Patient login with a one-time code sent to their phone
+    otp: {
+        length: 6,
+        expiry: process.env.OTP_EXPIRY || '5m',
+        // Wrong guesses allowed against a single code before it is burned
+        maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10),
+        // Minimum gap between two codes to the same phone, and the hourly cap
+        resendInterval: process.env.OTP_RESEND_INTERVAL || '60s',
+        maxPerHour: parseInt(process.env.OTP_MAX_PER_HOUR || '5', 10),
+    },
+
+    // Outgoing SMS
+    sms: {
+        // 'console' logs messages instead of sending them
+        provider: process.env.SMS_PROVIDER || 'console',
+        senderId: process.env.SMS_SENDER_ID || 'SSCLNC',
+    },
+
+    // Clinic working hours and appointment slots are in this timezone
+    clinic: {
+        timezone: process.env.CLINIC_TIMEZONE || 'Asia/Kolkata',
+    },
+
+    // Appointment reminders and no-show marking, run by the appointments job
+    appointments: {
+        // How long before the appointment to remind, e.g. "24h,2h"
+        reminderOffsets: (process.env.APPOINTMENT_REMINDER_OFFSETS || '24h,2h')
+            .split(',')
+            .map(offset => offset.trim())
+            .filter(Boolean),
+        // Any of email, sms, in_app
+        reminderChannels: (process.env.APPOINTMENT_REMINDER_CHANNELS || 'email,sms,in_app')
+            .split(',')
+            .map(channel => channel.trim().toUpperCase())
+            .filter(Boolean),
+        // Unattended appointments become NO_SHOW this long after they were due to end
+        noShowGrace: process.env.NO_SHOW_GRACE || '30m',
+    },
+
+    // Machine clients authenticating with X-API-Key
+    apiKeys: {
+        defaultRateLimitPerMinute: parseInt(process.env.API_KEY_RATE_LIMIT || '60', 10),
+    },
+
     // CORS
     corsOrigins: (process.env.CORS_ORIGINS || 'http://localhost:3000' || 'https://localhost:5173')
         .split(',')
@@ -47,12 +135,12 @@ export function validateEnv(): void {
     }
 
     if (config.isProduction) {
-        const productionRequired = ['JWT_ACCESS_SECRET', 'JWT_REFRESH_SECRET'];
+        const productionRequired = ['JWT_ACCESS_SECRET', 'JWT_REFRESH_SECRET', 'MFA_CHALLENGE_SECRET', 'MFA_ENCRYPTION_KEY'];
         const missingProd = productionRequired.filter((key) => !process.env[key]);
 
         if (missingProd.length > 0) {
             console.error('❌ CRITICAL ERROR: Missing required production environment variables:', missingProd.join(', '));
-            console.error('Please add JWT_ACCESS_SECRET and JWT_REFRESH_SECRET to your Railway Variables tab.');
+            console.error('Please add JWT_ACCESS_SECRET, JWT_REFRESH_SECRET, MFA_CHALLENGE_SECRET and MFA_ENCRYPTION_KEY to your Railway Variables tab.');
             throw new Error(`Missing required production environment variables: ${missingProd.join(', ')}`);
         }
     }
@@ -0,0 +1,38 @@
+import cron from 'node-cron';
+import { config } from '../config/index.js';
+import { appointmentRemindersService } from '../modules/appointments/reminders.service.js';
+import { noShowService } from '../modules/appointments/noShow.service.js';
+
+/**
+ * APPOINTMENT REMINDER & NO-SHOW JOB
+ *
+ * Runs every 5 minutes.
+ * Sends reminders that have come due (APPOINTMENT_REMINDER_OFFSETS, by email,
+ * SMS and in-app notification) and marks appointments nobody attended as
+ * NO_SHOW once NO_SHOW_GRACE has passed after their end.
+ */
+const runAppointmentJobs = async () => {
+    try {
+        const reminders = await appointmentRemindersService.sendDue();
+        if (reminders.sent + reminders.skipped + reminders.failed > 0) {
+            console.log(`[JOBS] Appointment reminders - sent: ${reminders.sent}, skipped: ${reminders.skipped}, failed: ${reminders.failed}`);
+        }
+    } catch (error) {
+        console.error('[JOBS] CRITICAL ERROR sending appointment reminders:', error);
+    }
+
+    try {
+        const marked = await noShowService.markNoShows();
+        if (marked > 0) {
+            console.log(`[JOBS] Marked ${marked} unattended appointment(s) as NO_SHOW`);
+        }
+    } catch (error) {
+        console.error('[JOBS] CRITICAL ERROR marking no-show appointments:', error);
+    }
+};
+
+cron.schedule('*/5 * * * *', runAppointmentJobs, {
+    timezone: config.clinic.timezone
+});
+
+export { runAppointmentJobs };
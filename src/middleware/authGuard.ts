@@ -1,22 +1,37 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, DecodedToken } from '../utils/jwt.js';
-import { sendUnauthorized } from '../utils/response.js';
+import { sendForbidden, sendUnauthorized } from '../utils/response.js';
 import { prisma } from '../config/database.js';
+import { apiKeysService } from '../modules/apikeys/apikeys.service.js';
+import { ApiKeyPrincipal, ApiKeyScope } from '../modules/apikeys/apikeys.types.js';
+import { apiKeyRateLimiter } from './rateLimiter.js';
 
 declare global {
     namespace Express {
         interface Request {
             user?: DecodedToken;
+            // Set instead of a JWT session when the caller is a machine client
+            apiKey?: ApiKeyPrincipal;
         }
     }
 }
 
+/**
+ * Session (JWT) authentication. API keys are refused; routes machine clients
+ * may call use apiKeyAuthGuard instead.
+ */
 export async function authGuard(
     req: Request,
     res: Response,
     next: NextFunction
 ): Promise<void> {
     try {
+        if (req.get('x-api-key')) {
+            console.warn(`[AuthGuard] API key refused on ${req.method} ${req.originalUrl}`);
+            sendForbidden(res, 'API keys cannot access this endpoint');
+            return;
+        }
+
         const authHeader = req.headers.authorization;
 
         if (!authHeader?.startsWith('Bearer ')) {
@@ -66,6 +81,59 @@ export async function authGuard(
     }
 }
 
+/**
+ * authGuard for the routes machine clients may call: also accepts an X-API-Key
+ * holding every one of the given scopes. The request then runs as the key's
+ * account, under the key's own rate limit. Register these routes ahead of the
+ * router's authGuard, which refuses API keys.
+ */
+export function apiKeyAuthGuard(...scopes: ApiKeyScope[]) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const apiKeyHeader = req.get('x-api-key');
+        if (!apiKeyHeader) {
+            await authGuard(req, res, next);
+            return;
+        }
+
+        try {
+            await authenticateApiKey(apiKeyHeader, scopes, req, res, next);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+async function authenticateApiKey(
+    rawKey: string,
+    scopes: ApiKeyScope[],
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    const result = await apiKeysService.authenticate(rawKey, req.ip || req.socket.remoteAddress);
+
+    if (!result) {
+        console.warn(`[AuthGuard] Invalid API key for ${req.method} ${req.originalUrl}`);
+        sendUnauthorized(res, 'Invalid API key');
+        return;
+    }
+
+    if (!scopes.every(scope => result.principal.scopes.includes(scope))) {
+        console.warn(`[AuthGuard] API key ${result.principal.id} is not scoped for ${req.method} ${req.originalUrl}`);
+        sendForbidden(res, 'API keys cannot access this endpoint');
+        return;
+    }
+
+    req.user = {
+        userId: result.user.id,
+        email: result.user.email,
+        role: result.user.role,
+    };
+    req.apiKey = result.principal;
+
+    apiKeyRateLimiter(req, res, next);
+}
+
 export function optionalAuthGuard(
     req: Request,
     _res: Response,
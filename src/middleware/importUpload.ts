@@ -0,0 +1,23 @@
+import multer from 'multer';
+import path from 'path';
+import { Request } from 'express';
+import { ValidationError } from '../utils/AppError.js';
+
+// Spreadsheets are parsed straight from memory and never written to disk
+const storage = multer.memoryStorage();
+
+const fileFilter = (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const extname = path.extname(file.originalname).toLowerCase();
+
+    if (extname === '.csv' || extname === '.xlsx') {
+        return cb(null, true);
+    } else {
+        cb(new ValidationError('Only CSV and XLSX files can be imported'));
+    }
+};
+
+export const importUpload = multer({
+    storage,
+    limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+    fileFilter
+});
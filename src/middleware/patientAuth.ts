@@ -1,26 +1,25 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '@/config/database.js';
-import { UserRole } from '@prisma/client';
 import { sendForbidden, sendUnauthorized } from '@/utils/response.js';
+import { breakGlassService } from '@/modules/breakglass/breakglass.service.js';
+import { PermissionKey } from '@/modules/permissions/permissions.catalog.js';
+import { permissionsService } from '@/modules/permissions/permissions.service.js';
+import { guardiansService } from '@/modules/patients/guardians.service.js';
+import { uhidService } from '@/modules/patients/uhid.service.js';
 
 /**
  * Middleware to allow access if:
- * 1. User is Staff (ADMIN, DOCTOR, RECEPTIONIST, PHARMACIST, LAB_TECHNICIAN)
- * 2. User is PATIENT and the requested resource belongs to them
- * 
- * @param allowedRoles Optional list of staff roles allowed to access without ownership check
+ * 1. User is Staff holding staffPermission
+ *    - restricted patients are visible to non-admin staff only with active break-glass access
+ * 2. User is PATIENT and the requested resource belongs to them or to one of their dependents
+ *
+ * Retired UHIDs and display aliases are resolved to the patient's current UHID
+ * before either check, since the services behind these routes resolve them too.
+ *
+ * @param staffPermission Catalog permission staff need; patients go through the ownership check instead
  */
-export function patientAccessGuard(
-    patientIdParam: string = 'id',
-    allowedRoles: UserRole[] = [
-        UserRole.ADMIN,
-        UserRole.DOCTOR,
-        UserRole.RECEPTIONIST,
-        UserRole.PHARMACIST,
-        UserRole.LAB_TECHNICIAN
-    ]
-) {
+export function patientAccessGuard(staffPermission: PermissionKey, patientIdParam: string = 'id') {
     return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             if (!req.user) {
@@ -29,59 +28,95 @@ export function patientAccessGuard(
                 return;
             }
 
-            const userRole = (req.user.role as string).toUpperCase();
+            if (req.apiKey) {
+                sendForbidden(res, 'API keys cannot access patient records');
+                return;
+            }
 
-            // Normalize allowed roles
-            const normalizedAllowedRoles = allowedRoles.map(r => (r as string).toUpperCase());
+            const userRole = (req.user.role as string).toUpperCase();
 
             console.log(`PatientAccessGuard: User Role: ${userRole}, User ID: ${req.user.userId}`);
 
-            // 1. If user is staff, allow access
-            if (normalizedAllowedRoles.includes(userRole)) {
+            // 1. If user is staff, allow access with the permission (restricted records need admin or break-glass)
+            if (userRole !== 'PATIENT') {
+                if (!(await permissionsService.hasPermission(req.user, staffPermission))) {
+                    console.log(`PatientAccessGuard: User ${req.user.userId} (${userRole}) lacks ${staffPermission}`);
+                    sendForbidden(res, `Insufficient permissions. Missing permission: ${staffPermission}`);
+                    return;
+                }
+
+                const requestedPatientId = req.params[patientIdParam] as string;
+                const uhid = requestedPatientId && await uhidService.resolve(requestedPatientId);
+
+                if (userRole !== 'ADMIN' && uhid) {
+                    const patient = await prisma.patient.findUnique({
+                        where: { uhid },
+                        select: { isRestricted: true }
+                    });
+
+                    if (patient?.isRestricted) {
+                        const hasBreakGlass = await breakGlassService.hasActiveAccess(req.user.userId, uhid);
+                        if (!hasBreakGlass) {
+                            console.log(`PatientAccessGuard: Restricted record ${requestedPatientId} - no break-glass access`);
+                            sendForbidden(res, 'This patient record is restricted. Request break-glass access if this is an emergency.');
+                            return;
+                        }
+                        console.log(`PatientAccessGuard: Break-glass access used for ${requestedPatientId}`);
+                    }
+                }
+
                 console.log('PatientAccessGuard: Staff Access Granted');
                 next();
                 return;
             }
 
             // 2. If user is PATIENT, verify ownership strictly by their UHID
-            if (userRole === 'PATIENT') {
-                const requestedPatientId = req.params[patientIdParam] as string;
-                console.log(`PatientAccessGuard: Checking ownership for param '${patientIdParam}', value: ${requestedPatientId}`);
+            const requestedPatientId = req.params[patientIdParam] as string;
+            console.log(`PatientAccessGuard: Checking ownership for param '${patientIdParam}', value: ${requestedPatientId}`);
 
-                if (!requestedPatientId) {
-                    console.log('PatientAccessGuard: Missing patient ID param');
-                    sendForbidden(res, 'Invalid request context');
-                    return;
-                }
+            if (!requestedPatientId) {
+                console.log('PatientAccessGuard: Missing patient ID param');
+                sendForbidden(res, 'Invalid request context');
+                return;
+            }
 
-                // Find the patient record(s) directly linked to this user's account
-                const usersPatients = await prisma.patient.findMany({
-                    where: { userId: req.user.userId },
-                    select: { uhid: true }
-                });
+            // Find the patient record(s) directly linked to this user's account
+            const usersPatients = await prisma.patient.findMany({
+                where: { userId: req.user.userId },
+                select: { uhid: true }
+            });
 
-                if (usersPatients.length === 0) {
-                    console.log('PatientAccessGuard: No patient profile found for user');
-                    sendForbidden(res, 'Patient profile not found for this user');
-                    return;
-                }
+            if (usersPatients.length === 0) {
+                console.log('PatientAccessGuard: No patient profile found for user');
+                sendForbidden(res, 'Patient profile not found for this user');
+                return;
+            }
 
-                // Direct match only - removes "Smart Linking" for maximum privacy
-                const isOwned = usersPatients.some(p => p.uhid === requestedPatientId);
+            const uhid = await uhidService.resolve(requestedPatientId);
 
-                if (isOwned) {
-                    console.log('PatientAccessGuard: Ownership verified. Access Granted.');
-                    next();
-                    return;
-                }
+            // Direct match only - removes "Smart Linking" for maximum privacy
+            const isOwned = !!uhid && usersPatients.some(p => p.uhid === uhid);
 
-                console.log(`PatientAccessGuard: Access denied for ${requestedPatientId}`);
-                sendForbidden(res, 'Access denied: You can only view your own records');
+            if (isOwned) {
+                console.log('PatientAccessGuard: Ownership verified. Access Granted.');
+                next();
+                return;
+            }
+
+            // Guardians can open the profiles of their dependents
+            const isGuardian = !!uhid && await guardiansService.isGuardianOf(
+                usersPatients.map(p => p.uhid),
+                uhid
+            );
+
+            if (isGuardian) {
+                console.log('PatientAccessGuard: Guardian link verified. Access Granted.');
+                next();
                 return;
             }
 
-            console.log(`PatientAccessGuard: Role ${userRole} not allowed`);
-            sendForbidden(res, 'Insufficient permissions');
+            console.log(`PatientAccessGuard: Access denied for ${requestedPatientId}`);
+            sendForbidden(res, 'Access denied: You can only view your own records or those of your dependents');
         } catch (error) {
             console.error('PatientAccessGuard Error:', error);
             next(error);
@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendForbidden, sendUnauthorized } from '../utils/response.js';
+import { permissionsService } from '../modules/permissions/permissions.service.js';
+import { PermissionKey } from '../modules/permissions/permissions.catalog.js';
+
+/**
+ * Allow the request only if the user holds every listed permission
+ * (role mapping plus any per-user override). Must run after authGuard.
+ * API key requests additionally need every permission among the key's scopes;
+ * only routes behind apiKeyAuthGuard let API keys this far.
+ */
+export function requirePermission(...permissions: PermissionKey[]) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (!req.user) {
+            sendUnauthorized(res, 'Authentication required');
+            return;
+        }
+
+        try {
+            for (const permission of permissions) {
+                if (req.apiKey && !req.apiKey.scopes.includes(permission)) {
+                    console.log(`Permission Guard Failed: API key ${req.apiKey.id} is not scoped for ${permission}`);
+                    sendForbidden(res, `API key is not allowed to use this endpoint. Missing scope: ${permission}`);
+                    return;
+                }
+
+                const allowed = await permissionsService.hasPermission(req.user, permission);
+                if (!allowed) {
+                    console.log(`Permission Guard Failed: User ${req.user.userId} (${req.user.role}) lacks ${permission}`);
+                    sendForbidden(res, `Insufficient permissions. Missing permission: ${permission}`);
+                    return;
+                }
+            }
+
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
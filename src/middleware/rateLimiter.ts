@@ -13,6 +13,19 @@ export const generalRateLimiter = rateLimit({
     },
 });
 
+// Per-key limit for machine clients; each API key carries its own requests-per-minute
+export const apiKeyRateLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: (req) => req.apiKey?.rateLimitPerMinute ?? config.apiKeys.defaultRateLimitPerMinute,
+    keyGenerator: (req) => `api-key:${req.apiKey?.id}`,
+    skip: (req) => !req.apiKey,
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (_req, res) => {
+        sendError(res, 'API key rate limit exceeded, please slow down', 429);
+    },
+});
+
 // Strict rate limiter for auth endpoints
 export const authRateLimiter = rateLimit({
     windowMs: config.rateLimit.windowMs,
@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeysService } from './apikeys.service.js';
+import { createApiKeySchema, updateApiKeySchema } from './apikeys.types.js';
+import { sendSuccess, sendCreated } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     tags: [API Keys]
+ *     summary: Issue an API key for a machine client
+ *     description: The plain key is returned only in this response. Clients send it in the X-API-Key header.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, userId, scopes]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Biochemistry analyzer
+ *               userId:
+ *                 type: string
+ *                 description: Staff account the key acts as
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [lab.order.read, lab.result.create, lab.test.read, appointments.create]
+ *               rateLimitPerMinute:
+ *                 type: integer
+ *                 example: 60
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: API key created
+ */
+export async function createApiKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = createApiKeySchema.parse(req.body);
+        const result = await apiKeysService.create(input, req.user!.userId);
+        sendCreated(res, result, 'API key created. Copy it now - it will not be shown again.');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     tags: [API Keys]
+ *     summary: List API keys with last-used details
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys, newest first
+ */
+export async function getApiKeys(
+    _req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const keys = await apiKeysService.findAll();
+        sendSuccess(res, keys);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   patch:
+ *     tags: [API Keys]
+ *     summary: Rename an API key or change its scopes, rate limit or expiry
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               rateLimitPerMinute:
+ *                 type: integer
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Updated API key
+ */
+export async function updateApiKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = updateApiKeySchema.parse(req.body);
+        const key = await apiKeysService.update(req.params.id as string, input);
+        sendSuccess(res, key, 'API key updated');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/api-keys/{id}/revoke:
+ *   post:
+ *     tags: [API Keys]
+ *     summary: Revoke an API key
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ */
+export async function revokeApiKey(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        await apiKeysService.revoke(req.params.id as string, req.user!.userId);
+        sendSuccess(res, null, 'API key revoked');
+    } catch (error) {
+        next(error);
+    }
+}
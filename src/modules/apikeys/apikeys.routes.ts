@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { createApiKey, getApiKeys, updateApiKey, revokeApiKey } from './apikeys.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: API Keys
+ *   description: Scoped credentials for lab analyzers, kiosks and other machine clients
+ */
+
+router.use(authGuard);
+
+router.post('/', requirePermission('apikeys.manage'), createApiKey);
+router.get('/', requirePermission('apikeys.manage'), getApiKeys);
+router.patch('/:id', requirePermission('apikeys.manage'), updateApiKey);
+router.post('/:id/revoke', requirePermission('apikeys.manage'), revokeApiKey);
+
+export default router;
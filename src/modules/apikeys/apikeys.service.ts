@@ -0,0 +1,174 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { hashToken } from '../../utils/crypto.js';
+import { NotFoundError, ValidationError, ConflictError } from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { randomBytes } from 'node:crypto';
+import { ApiKey, User } from '@prisma/client';
+import {
+    ApiKeyPrincipal,
+    ApiKeyResponse,
+    CreateApiKeyInput,
+    CreatedApiKeyResponse,
+    UpdateApiKeyInput,
+} from './apikeys.types.js';
+
+const KEY_PREFIX = 'ssc_';
+// Characters of the key kept in clear for display (KEY_PREFIX plus 8)
+const DISPLAY_PREFIX_LENGTH = 12;
+// lastUsedAt is written at most this often per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiKeysService {
+    async create(input: CreateApiKeyInput, createdBy: string): Promise<CreatedApiKeyResponse> {
+        const user = await prisma.user.findUnique({ where: { id: input.userId } });
+
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+
+        if (user.role === 'PATIENT' || user.status !== 'ACTIVE') {
+            throw new ValidationError('API keys can only act as an active staff account');
+        }
+
+        const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+
+        const apiKey = await prisma.apiKey.create({
+            data: {
+                name: input.name,
+                prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+                keyHash: hashToken(key),
+                userId: user.id,
+                scopes: input.scopes,
+                rateLimitPerMinute: input.rateLimitPerMinute ?? config.apiKeys.defaultRateLimitPerMinute,
+                expiresAt: input.expiresAt,
+                createdBy,
+            },
+            include: { user: { select: { email: true } } },
+        });
+
+        logger.info({ apiKeyId: apiKey.id, userId: user.id, scopes: input.scopes, createdBy }, 'API key issued');
+
+        return { apiKey: this.formatApiKey(apiKey), key };
+    }
+
+    async findAll(): Promise<ApiKeyResponse[]> {
+        const keys = await prisma.apiKey.findMany({
+            orderBy: { createdAt: 'desc' },
+            include: { user: { select: { email: true } } },
+        });
+
+        return keys.map(key => this.formatApiKey(key));
+    }
+
+    async update(id: string, input: UpdateApiKeyInput): Promise<ApiKeyResponse> {
+        const existing = await this.getApiKey(id);
+
+        if (existing.revokedAt) {
+            throw new ConflictError('This API key has been revoked');
+        }
+
+        const apiKey = await prisma.apiKey.update({
+            where: { id },
+            data: input,
+            include: { user: { select: { email: true } } },
+        });
+
+        return this.formatApiKey(apiKey);
+    }
+
+    async revoke(id: string, revokedBy: string): Promise<void> {
+        const existing = await this.getApiKey(id);
+
+        if (existing.revokedAt) {
+            throw new ConflictError('This API key has already been revoked');
+        }
+
+        await prisma.apiKey.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+        });
+
+        logger.info({ apiKeyId: id, revokedBy }, 'API key revoked');
+    }
+
+    /**
+     * Resolve a raw key from the X-API-Key header. Returns null for unknown,
+     * revoked or expired keys and for keys whose account is no longer active.
+     */
+    async authenticate(
+        rawKey: string,
+        ipAddress?: string
+    ): Promise<{ principal: ApiKeyPrincipal; user: Pick<User, 'id' | 'email' | 'role'> } | null> {
+        if (!rawKey.startsWith(KEY_PREFIX)) {
+            return null;
+        }
+
+        const apiKey = await prisma.apiKey.findUnique({
+            where: { keyHash: hashToken(rawKey) },
+            include: { user: { select: { id: true, email: true, role: true, status: true } } },
+        });
+
+        if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+            return null;
+        }
+
+        if (apiKey.user.status !== 'ACTIVE') {
+            return null;
+        }
+
+        this.touch(apiKey, ipAddress);
+
+        return {
+            principal: {
+                id: apiKey.id,
+                name: apiKey.name,
+                scopes: apiKey.scopes,
+                rateLimitPerMinute: apiKey.rateLimitPerMinute,
+            },
+            user: apiKey.user,
+        };
+    }
+
+    private touch(apiKey: ApiKey, ipAddress?: string): void {
+        const now = Date.now();
+        if (apiKey.lastUsedAt && now - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS && apiKey.lastUsedIp === ipAddress) {
+            return;
+        }
+
+        prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { lastUsedAt: new Date(now), lastUsedIp: ipAddress },
+        }).catch(error => logger.error({ error, apiKeyId: apiKey.id }, 'Failed to record API key usage'));
+    }
+
+    private async getApiKey(id: string): Promise<ApiKey> {
+        const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+
+        if (!apiKey) {
+            throw new NotFoundError('API key');
+        }
+
+        return apiKey;
+    }
+
+    private formatApiKey(apiKey: ApiKey & { user?: { email: string } }): ApiKeyResponse {
+        return {
+            id: apiKey.id,
+            name: apiKey.name,
+            prefix: apiKey.prefix,
+            userId: apiKey.userId,
+            userEmail: apiKey.user?.email,
+            scopes: apiKey.scopes,
+            rateLimitPerMinute: apiKey.rateLimitPerMinute,
+            expiresAt: apiKey.expiresAt,
+            revokedAt: apiKey.revokedAt,
+            lastUsedAt: apiKey.lastUsedAt,
+            lastUsedIp: apiKey.lastUsedIp,
+            createdBy: apiKey.createdBy,
+            createdAt: apiKey.createdAt,
+        };
+    }
+}
+
+export const apiKeysService = new ApiKeysService();
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { PermissionKey } from '../permissions/permissions.catalog.js';
+
+/**
+ * Permissions an API key may be scoped to. Kept deliberately narrow -
+ * administrative permissions can never be delegated to a machine client.
+ */
+export const API_KEY_SCOPES = [
+    'lab.order.read',
+    'lab.result.create',
+    'lab.test.read',
+    'appointments.create',
+    'queue.board.read',
+] as const satisfies readonly PermissionKey[];
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+const scopesSchema = z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required');
+
+export const createApiKeySchema = z.object({
+    name: z.string().trim().min(1, 'Name is required').max(100),
+    // The account the key acts as, e.g. a lab technician account for an analyzer
+    userId: z.string().min(1, 'User ID is required'),
+    scopes: scopesSchema,
+    rateLimitPerMinute: z.number().int().positive().max(10000).optional(),
+    expiresAt: z.string().datetime().transform(v => new Date(v)).optional(),
+});
+
+export const updateApiKeySchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    scopes: scopesSchema.optional(),
+    rateLimitPerMinute: z.number().int().positive().max(10000).optional(),
+    expiresAt: z.string().datetime().transform(v => new Date(v)).nullable().optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
+
+/**
+ * Attached to req.apiKey when a request authenticates with X-API-Key
+ */
+export interface ApiKeyPrincipal {
+    id: string;
+    name: string;
+    scopes: string[];
+    rateLimitPerMinute: number;
+}
+
+export interface ApiKeyResponse {
+    id: string;
+    name: string;
+    prefix: string;
+    userId: string;
+    userEmail?: string;
+    scopes: string[];
+    rateLimitPerMinute: number;
+    expiresAt: Date | null;
+    revokedAt: Date | null;
+    lastUsedAt: Date | null;
+    lastUsedIp: string | null;
+    createdBy: string | null;
+    createdAt: Date;
+}
+
+/**
+ * Returned once, at creation - the plain key is never stored
+ */
+export interface CreatedApiKeyResponse {
+    apiKey: ApiKeyResponse;
+    key: string;
+}
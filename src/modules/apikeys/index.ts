@@ -0,0 +1,3 @@
+export { default as apiKeysRoutes } from './apikeys.routes.js';
+export { apiKeysService } from './apikeys.service.js';
+export * from './apikeys.types.js';
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { appointmentsService } from '@/modules/appointments/appointments.service.js';
-import { createAppointmentSchema, updateAppointmentSchema, appointmentQuerySchema, createPublicAppointmentSchema } from '@/modules/appointments/appointments.types.js';
+import { doctorAvailabilityService } from '@/modules/appointments/availability.service.js';
+import { appointmentSeriesService } from '@/modules/appointments/series.service.js';
+import { noShowService } from '@/modules/appointments/noShow.service.js';
+import { createAppointmentSchema, updateAppointmentSchema, appointmentQuerySchema, createPublicAppointmentSchema, slotQuerySchema, setAvailabilitySchema, createAvailabilityExceptionSchema, createSeriesSchema, createFollowUpSchema, seriesScopeSchema, noShowReportQuerySchema } from '@/modules/appointments/appointments.types.js';
 import { sendSuccess, sendCreated, sendNoContent } from '@/utils/response.js';
 
 /**
@@ -28,6 +31,7 @@ import { sendSuccess, sendCreated, sendNoContent } from '@/utils/response.js';
  *                 format: date-time
  *               duration:
  *                 type: integer
+ *                 description: Minutes; defaults to the doctor's slot length
  *               reason:
  *                 type: string
  *               notes:
@@ -35,6 +39,8 @@ import { sendSuccess, sendCreated, sendNoContent } from '@/utils/response.js';
  *     responses:
  *       201:
  *         description: Appointment created successfully
+ *       400:
+ *         description: Outside the doctor's working hours, or overlaps another appointment
  */
 export async function createAppointment(
     req: Request,
@@ -66,6 +72,8 @@ export async function createAppointment(
  *     responses:
  *       201:
  *         description: Appointment created successfully
+ *       400:
+ *         description: Outside the doctor's working hours, or overlaps another appointment
  */
 export async function createPublicAppointment(
     req: Request,
@@ -210,9 +218,18 @@ export async function getAppointmentById(
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [single, following]
+ *           default: single
+ *         description: For an appointment in a series, "following" also applies the change to later occurrences that have not started. A new time moves them by the same number of days.
  *     responses:
  *       200:
  *         description: Appointment updated successfully
+ *       400:
+ *         description: Outside the doctor's working hours, or overlaps another appointment, for any of the occurrences
  */
 export async function updateAppointment(
     req: Request,
@@ -221,7 +238,8 @@ export async function updateAppointment(
 ): Promise<void> {
     try {
         const input = updateAppointmentSchema.parse(req.body);
-        const appointment = await appointmentsService.update(req.params.id as string, input);
+        const { scope } = seriesScopeSchema.parse(req.query);
+        const appointment = await appointmentsService.update(req.params.id as string, input, scope);
         sendSuccess(res, appointment, 'Appointment updated successfully');
     } catch (error) {
         next(error);
@@ -242,6 +260,13 @@ export async function updateAppointment(
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [single, following]
+ *           default: single
+ *         description: For an appointment in a series, "following" also removes later occurrences that have not started
  *     responses:
  *       204:
  *         description: Appointment cancelled
@@ -252,9 +277,427 @@ export async function deleteAppointment(
     next: NextFunction
 ): Promise<void> {
     try {
-        await appointmentsService.delete(req.params.id as string);
+        const { scope } = seriesScopeSchema.parse(req.query);
+        await appointmentsService.delete(req.params.id as string, scope);
+        sendNoContent(res);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/slots:
+ *   get:
+ *     tags: [Appointments]
+ *     summary: Free appointment slots of a doctor on a date
+ *     description: Slots follow the doctor's weekly working hours, less leave, holidays and existing bookings. Times are in the clinic timezone.
+ *     parameters:
+ *       - in: query
+ *         name: doctorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Free slots, earliest first
+ *       404:
+ *         description: Doctor not found
+ */
+export async function getAvailableSlots(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = slotQuerySchema.parse(req.query);
+        const slots = await doctorAvailabilityService.getSlots(query);
+        sendSuccess(res, slots);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/availability/{doctorId}:
+ *   get:
+ *     tags: [Appointments]
+ *     summary: Weekly working hours, slot length and upcoming leave of a doctor
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: doctorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Doctor availability
+ */
+export async function getDoctorAvailability(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const doctorId = Array.isArray(req.params.doctorId) ? req.params.doctorId[0] : req.params.doctorId;
+        const availability = await doctorAvailabilityService.getAvailability(doctorId);
+        sendSuccess(res, availability);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/availability/{doctorId}:
+ *   put:
+ *     tags: [Appointments]
+ *     summary: Replace a doctor's weekly working hours
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: doctorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [windows]
+ *             properties:
+ *               slotMinutes:
+ *                 type: integer
+ *                 minimum: 5
+ *                 maximum: 240
+ *               windows:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [dayOfWeek, startTime, endTime]
+ *                   properties:
+ *                     dayOfWeek:
+ *                       type: integer
+ *                       description: 0 = Sunday ... 6 = Saturday
+ *                     startTime:
+ *                       type: string
+ *                       example: "09:00"
+ *                     endTime:
+ *                       type: string
+ *                       example: "13:00"
+ *     responses:
+ *       200:
+ *         description: Availability updated
+ */
+export async function setDoctorAvailability(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const doctorId = Array.isArray(req.params.doctorId) ? req.params.doctorId[0] : req.params.doctorId;
+        const input = setAvailabilitySchema.parse(req.body);
+        const availability = await doctorAvailabilityService.setAvailability(doctorId, input, req.user);
+        sendSuccess(res, availability, 'Availability updated successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/availability/{doctorId}/exceptions:
+ *   post:
+ *     tags: [Appointments]
+ *     summary: Add leave or a holiday for a doctor
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: doctorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [date, type]
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               type:
+ *                 type: string
+ *                 enum: [LEAVE, HOLIDAY]
+ *               startTime:
+ *                 type: string
+ *                 description: Leave out with endTime for the whole day
+ *               endTime:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Exception added
+ */
+export async function addAvailabilityException(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const doctorId = Array.isArray(req.params.doctorId) ? req.params.doctorId[0] : req.params.doctorId;
+        const input = createAvailabilityExceptionSchema.parse(req.body);
+        const exception = await doctorAvailabilityService.addException(doctorId, input, req.user);
+        sendCreated(res, exception, 'Availability exception added');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/availability/{doctorId}/exceptions/{exceptionId}:
+ *   delete:
+ *     tags: [Appointments]
+ *     summary: Remove leave or a holiday
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: doctorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: exceptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Exception removed
+ */
+export async function removeAvailabilityException(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const doctorId = Array.isArray(req.params.doctorId) ? req.params.doctorId[0] : req.params.doctorId;
+        const exceptionId = Array.isArray(req.params.exceptionId) ? req.params.exceptionId[0] : req.params.exceptionId;
+        await doctorAvailabilityService.removeException(doctorId, exceptionId, req.user);
         sendNoContent(res);
     } catch (error) {
         next(error);
     }
 }
+
+/**
+ * @swagger
+ * /api/appointments/series:
+ *   post:
+ *     tags: [Appointments]
+ *     summary: Book a recurring series of appointments
+ *     description: Occurrences keep the first one's clinic time of day. Nothing is booked unless every occurrence fits the doctor's working hours and existing bookings.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [patientId, doctorId, startAt, frequency, occurrences]
+ *             properties:
+ *               patientId:
+ *                 type: string
+ *               doctorId:
+ *                 type: string
+ *               startAt:
+ *                 type: string
+ *                 format: date-time
+ *               frequency:
+ *                 type: string
+ *                 enum: [DAILY, WEEKLY, MONTHLY]
+ *               interval:
+ *                 type: integer
+ *                 default: 1
+ *                 description: Every N days, weeks or months
+ *               occurrences:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 52
+ *               duration:
+ *                 type: integer
+ *                 description: Minutes; defaults to the doctor's slot length
+ *               reason:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Series booked
+ *       400:
+ *         description: Lists the dates on which the doctor is not available
+ */
+export async function createAppointmentSeries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = createSeriesSchema.parse(req.body);
+        const series = await appointmentSeriesService.create(input, req.user);
+        sendCreated(res, series, `${series.occurrences} appointments booked`);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/follow-up/{medicalRecordId}:
+ *   post:
+ *     tags: [Appointments]
+ *     summary: Book the follow-up requested on a medical record
+ *     description: Booked with the record's patient and doctor. Without scheduledAt, takes the doctor's first free slot on the record's follow-up date.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: medicalRecordId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *               duration:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *                 description: Defaults to "Follow-up" and the record's diagnosis
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Follow-up booked
+ *       400:
+ *         description: No follow-up date on the record, or no free slot that day
+ *       409:
+ *         description: A follow-up is already booked for this record
+ */
+export async function createFollowUpAppointment(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const medicalRecordId = Array.isArray(req.params.medicalRecordId) ? req.params.medicalRecordId[0] : req.params.medicalRecordId;
+        const input = createFollowUpSchema.parse(req.body ?? {});
+        const series = await appointmentSeriesService.createFollowUp(medicalRecordId, input, req.user);
+        sendCreated(res, series, 'Follow-up booked successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/series/{id}:
+ *   get:
+ *     tags: [Appointments]
+ *     summary: Get an appointment series with its occurrences
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series details
+ *       404:
+ *         description: Series not found
+ */
+export async function getAppointmentSeries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const series = await appointmentSeriesService.findById(id);
+        sendSuccess(res, series);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/appointments/reports/no-shows:
+ *   get:
+ *     tags: [Appointments]
+ *     summary: No-show rate per doctor
+ *     description: Completed, no-show and cancelled appointments per doctor over clinic dates. The rate is no-shows out of completed plus no-show appointments.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to 30 days before `to`
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rates per doctor, highest first, with totals
+ */
+export async function getNoShowReport(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = noShowReportQuerySchema.parse(req.query);
+        const report = await noShowService.getReport(query);
+        sendSuccess(res, report);
+    } catch (error) {
+        next(error);
+    }
+}
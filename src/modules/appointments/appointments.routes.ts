@@ -1,27 +1,41 @@
 import { Router } from 'express';
-import { createAppointment, getAppointments, getAppointmentById, updateAppointment, deleteAppointment, createPublicAppointment, getPublicAppointmentById } from './appointments.controller.js';
-import { authGuard } from '../../middleware/authGuard.js';
-import { clinicalStaff, roleGuard } from '../../middleware/roleGuard.js';
-import { UserRole } from '@prisma/client';
+import { createAppointment, getAppointments, getAppointmentById, updateAppointment, deleteAppointment, createPublicAppointment, getPublicAppointmentById, getAvailableSlots, getDoctorAvailability, setDoctorAvailability, addAvailabilityException, removeAvailabilityException, createAppointmentSeries, createFollowUpAppointment, getAppointmentSeries, getNoShowReport } from './appointments.controller.js';
+import { apiKeyAuthGuard, authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
 const router = Router();
 
 // Public route for booking
 router.post('/public', createPublicAppointment);
 router.get('/public/:id', getPublicAppointmentById);
+// Free slots are needed by the public booking page too
+router.get('/slots', getAvailableSlots);
+
+// Patients book for themselves; also open to booking integrations with a scoped API key
+router.post('/', apiKeyAuthGuard('appointments.create'), requirePermission('appointments.create'), createAppointment);
 
 router.use(authGuard);
 
-// Allow patients to view appointments
-router.get('/', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PATIENT), getAppointments);
-router.get('/:id', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PATIENT), getAppointmentById);
+// Doctor working hours, leave and holidays
+router.get('/availability/:doctorId', requirePermission('appointments.availability.read'), getDoctorAvailability);
+router.put('/availability/:doctorId', requirePermission('appointments.availability.manage'), setDoctorAvailability);
+router.post('/availability/:doctorId/exceptions', requirePermission('appointments.availability.manage'), addAvailabilityException);
+router.delete('/availability/:doctorId/exceptions/:exceptionId', requirePermission('appointments.availability.manage'), removeAvailabilityException);
+
+// Recurring series and follow-ups from medical records
+router.post('/series', requirePermission('appointments.series.create'), createAppointmentSeries);
+router.get('/series/:id', requirePermission('appointments.series.read'), getAppointmentSeries);
+router.post('/follow-up/:medicalRecordId', requirePermission('appointments.followup.create'), createFollowUpAppointment);
 
-// Allow patients to create appointments (book for themselves)
-router.post('/', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PATIENT), createAppointment);
+router.get('/reports/no-shows', requirePermission('appointments.reports.read'), getNoShowReport);
+
+// Allow patients to view appointments
+router.get('/', requirePermission('appointments.read'), getAppointments);
+router.get('/:id', requirePermission('appointments.read'), getAppointmentById);
 
 // Only clinical staff can update/delete appointments
-router.patch('/:id', clinicalStaff, updateAppointment);
-router.delete('/:id', clinicalStaff, deleteAppointment);
+router.patch('/:id', requirePermission('appointments.update'), updateAppointment);
+router.delete('/:id', requirePermission('appointments.delete'), deleteAppointment);
 
 export default router;
 
@@ -1,7 +1,11 @@
 import { prisma } from '../../config/database.js';
-import { NotFoundError, ValidationError } from '../../middleware/errorHandler.js';
-import { CreateAppointmentInput, UpdateAppointmentInput, AppointmentQueryInput, AppointmentResponse, CreatePublicAppointmentInput } from './appointments.types.js';
+import { NotFoundError } from '../../middleware/errorHandler.js';
+import { CreateAppointmentInput, UpdateAppointmentInput, AppointmentQueryInput, AppointmentResponse, CreatePublicAppointmentInput, SeriesScope } from './appointments.types.js';
 import { PaginatedResponse } from '../users/users.types.js';
+import { hashPassword, generateSecureToken } from '../../utils/crypto.js';
+import { uhidService } from '../patients/uhid.service.js';
+import { doctorAvailabilityService } from './availability.service.js';
+import { appointmentSeriesService } from './series.service.js';
 
 export class AppointmentsService {
     async create(input: CreateAppointmentInput): Promise<AppointmentResponse> {
@@ -28,41 +32,14 @@ export class AppointmentsService {
 
         const staffId = doctor.id;
 
-        // Check for overlapping appointments
-        const endTime = new Date(input.scheduledAt.getTime() + input.duration * 60000);
-        const overlapping = await prisma.appointment.findFirst({
-            where: {
-                doctorId: staffId,
-                status: { in: ['SCHEDULED', 'CONFIRMED', 'IN_PROGRESS'] },
-                OR: [
-                    {
-                        AND: [
-                            { scheduledAt: { lte: input.scheduledAt } },
-                            // Since we don't have an 'endTime' column, we'll assume a fixed duration or calculate it.
-                            // But Prisma doesn't support easy time addition in 'where'.
-                            // However, we can check if any existing appointment's start + its duration (default 30) overflows new start.
-                            // For simplicity, we'll check if any appointment starts within 30 mins before this one.
-                            { scheduledAt: { gt: new Date(input.scheduledAt.getTime() - 30 * 60000) } }
-                        ]
-                    },
-                    {
-                        scheduledAt: {
-                            gte: input.scheduledAt,
-                            lt: endTime
-                        }
-                    }
-                ],
-            },
-        });
-
-        if (overlapping) {
-            throw new ValidationError('Doctor has an overlapping appointment at this time');
-        }
+        const duration = input.duration ?? doctor.slotMinutes;
+        await doctorAvailabilityService.assertBookable(doctor, input.scheduledAt, duration);
 
         const appointment = await prisma.appointment.create({
             data: {
                 ...input,
                 doctorId: staffId,
+                duration,
             },
             include: {
                 patient: { select: { firstName: true, lastName: true, phone: true } },
@@ -76,20 +53,40 @@ export class AppointmentsService {
     async createPublic(input: CreatePublicAppointmentInput): Promise<AppointmentResponse> {
         const { firstName, lastName, email, phone, doctorId, scheduledAt, paymentType } = input;
 
-        // 1. Find or Create Patient by Phone
+        // 1. Validate Doctor
+        // Robust check: handles both Staff.id or Staff.userId
+        const doctor = await prisma.staff.findFirst({
+            where: {
+                OR: [
+                    { id: doctorId },
+                    { userId: doctorId }
+                ]
+            },
+            include: { user: true },
+        });
+
+        if (!doctor || doctor.user.role !== 'DOCTOR') {
+            throw new NotFoundError('Doctor');
+        }
+
+        // 2. Check the doctor is free at that time
+        await doctorAvailabilityService.assertBookable(doctor, new Date(scheduledAt), doctor.slotMinutes);
+
+        // 3. Find or Create Patient by Phone, once the booking is known to be possible
         let patient = await prisma.patient.findFirst({
             where: { phone }
         });
 
         if (!patient) {
-            // Create a new User and Patient for this guest
-            const tempPassword = Math.random().toString(36).slice(-8);
+            // Create a new User and Patient for this guest. The password is random and
+            // never shared - guests log in with a phone code or set one via "forgot password".
+            const passwordHash = await hashPassword(generateSecureToken());
 
             // Should verify email uniqueness first, but for guest flow we assume success or fail
             const user = await prisma.user.create({
                 data: {
                     email,
-                    passwordHash: tempPassword,
+                    passwordHash,
                     role: 'PATIENT',
                     status: 'ACTIVE',
                     patient: {
@@ -99,7 +96,7 @@ export class AppointmentsService {
                             phone,
                             dateOfBirth: new Date(),
                             gender: 'OTHER',
-                            uhid: `P${Date.now()}`,
+                            uhid: await uhidService.next(),
                         }
                     }
                 },
@@ -109,23 +106,7 @@ export class AppointmentsService {
             patient = (user as any).patient!;
         }
 
-        // 2. Validate Doctor
-        // Robust check: handles both Staff.id or Staff.userId
-        const doctor = await prisma.staff.findFirst({
-            where: {
-                OR: [
-                    { id: doctorId },
-                    { userId: doctorId }
-                ]
-            },
-            include: { user: true },
-        });
-
-        if (!doctor || doctor.user.role !== 'DOCTOR') {
-            throw new NotFoundError('Doctor');
-        }
-
-        // 3. Create Appointment
+        // 4. Create Appointment
         const notes = `Payment Type: ${paymentType}`;
 
         const appointment = await prisma.appointment.create({
@@ -133,7 +114,7 @@ export class AppointmentsService {
                 patientId: (patient as any).uhid,
                 doctorId: doctor.id,
                 scheduledAt: new Date(scheduledAt),
-                duration: 30, // Default duration
+                duration: doctor.slotMinutes,
                 // @ts-ignore - PENDING status might be missing in generated client
                 status: 'PENDING',
                 notes: notes,
@@ -226,12 +207,27 @@ export class AppointmentsService {
         };
     }
 
-    async update(id: string, input: UpdateAppointmentInput): Promise<AppointmentResponse> {
-        const existing = await prisma.appointment.findUnique({ where: { id } });
+    async update(id: string, input: UpdateAppointmentInput, scope: SeriesScope = 'single'): Promise<AppointmentResponse> {
+        const existing = await prisma.appointment.findUnique({ where: { id }, include: { doctor: true } });
         if (!existing) {
             throw new NotFoundError('Appointment not found');
         }
 
+        if (scope === 'following' && existing.seriesId) {
+            await appointmentSeriesService.updateFollowing(existing, input);
+            return this.findById(id);
+        }
+
+        // Rescheduling must land in the doctor's working hours too
+        if (input.scheduledAt || input.duration) {
+            await doctorAvailabilityService.assertBookable(
+                existing.doctor,
+                input.scheduledAt ?? existing.scheduledAt,
+                input.duration ?? existing.duration,
+                [id]
+            );
+        }
+
         const appointment = await prisma.appointment.update({
             where: { id },
             data: input,
@@ -256,7 +252,7 @@ export class AppointmentsService {
         });
     }
 
-    async delete(id: string): Promise<void> {
+    async delete(id: string, scope: SeriesScope = 'single'): Promise<void> {
         console.log('[AppointmentsService] Attempting to delete appointment with id:', id);
         // Using findFirst instead of findUnique for resilience
         const existing = await prisma.appointment.findFirst({ where: { id } });
@@ -265,6 +261,12 @@ export class AppointmentsService {
             throw new NotFoundError('Appointment');
         }
 
+        if (scope === 'following' && existing.seriesId) {
+            await appointmentSeriesService.deleteFollowing(existing);
+            console.log('[AppointmentsService] Appointment and following occurrences deleted:', id);
+            return;
+        }
+
         await prisma.appointment.delete({
             where: { id },
         });
@@ -282,6 +284,8 @@ export class AppointmentsService {
         notes: string | null;
         patient: { firstName: string; lastName: string; phone: string };
         doctor: { firstName: string; lastName: string; specialization: string | null; department?: string | null };
+        seriesId: string | null;
+        seriesIndex: number | null;
         createdAt: Date;
         updatedAt: Date;
     }): AppointmentResponse {
@@ -301,6 +305,8 @@ export class AppointmentsService {
                 specialization: appointment.doctor.specialization,
                 department: appointment.doctor.department || appointment.doctor.specialization || 'General',
             },
+            seriesId: appointment.seriesId,
+            seriesIndex: appointment.seriesIndex,
             createdAt: appointment.createdAt,
             updatedAt: appointment.updatedAt,
         };
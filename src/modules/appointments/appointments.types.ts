@@ -1,11 +1,12 @@
 import { z } from 'zod';
-import { AppointmentStatus } from '@prisma/client';
+import { AppointmentStatus, AvailabilityExceptionType, SeriesFrequency } from '@prisma/client';
 
 export const createAppointmentSchema = z.object({
     patientId: z.string().min(1),
     doctorId: z.string().min(1),
     scheduledAt: z.string().transform((s) => new Date(s)),
-    duration: z.number().int().positive().default(30),
+    // Defaults to the doctor's slot length
+    duration: z.number().int().positive().optional(),
     reason: z.string().optional(),
     notes: z.string().optional(),
 });
@@ -38,10 +39,93 @@ export const createPublicAppointmentSchema = z.object({
     paymentType: z.string().optional(),
 });
 
+// Clinic wall-clock time; 24:00 closes a window at midnight
+const clockTime = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Time must be in HH:mm format');
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const availabilityWindowSchema = z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: clockTime,
+    endTime: clockTime,
+}).refine((window) => window.startTime < window.endTime, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+});
+
+export const setAvailabilitySchema = z.object({
+    slotMinutes: z.number().int().min(5).max(240).optional(),
+    // Replaces the whole weekly schedule
+    windows: z.array(availabilityWindowSchema).max(50),
+});
+
+export const createAvailabilityExceptionSchema = z.object({
+    date: calendarDate,
+    type: z.nativeEnum(AvailabilityExceptionType),
+    // Leave both out for the whole day
+    startTime: clockTime.optional(),
+    endTime: clockTime.optional(),
+    reason: z.string().max(500).optional(),
+}).refine((exception) => !exception.startTime === !exception.endTime, {
+    message: 'Give both start and end time, or neither for the whole day',
+    path: ['endTime'],
+}).refine((exception) => !exception.startTime || exception.startTime < exception.endTime!, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+});
+
+export const slotQuerySchema = z.object({
+    doctorId: z.string().min(1),
+    date: calendarDate,
+});
+
+export const createSeriesSchema = z.object({
+    patientId: z.string().min(1),
+    doctorId: z.string().min(1),
+    // First occurrence; later ones keep its clinic wall-clock time
+    startAt: z.string().transform((s) => new Date(s)),
+    frequency: z.nativeEnum(SeriesFrequency),
+    // Every `interval` days, weeks or months
+    interval: z.number().int().min(1).max(12).default(1),
+    occurrences: z.number().int().min(2).max(52),
+    duration: z.number().int().positive().optional(),
+    reason: z.string().optional(),
+    notes: z.string().optional(),
+});
+
+export const createFollowUpSchema = z.object({
+    // Defaults to the doctor's first free slot on the record's follow-up date
+    scheduledAt: z.string().transform((s) => new Date(s)).optional(),
+    duration: z.number().int().positive().optional(),
+    reason: z.string().optional(),
+    notes: z.string().optional(),
+});
+
+// For appointments in a series: "following" also applies to later occurrences not yet started
+export const seriesScopeSchema = z.object({
+    scope: z.enum(['single', 'following']).default('single'),
+});
+
+export const noShowReportQuerySchema = z.object({
+    // Clinic dates, inclusive; the last 30 days when left out
+    from: calendarDate.optional(),
+    to: calendarDate.optional(),
+    department: z.string().optional(),
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'From date must not be after to date',
+    path: ['to'],
+});
+
 export type CreateAppointmentInput = z.infer<typeof createAppointmentSchema>;
 export type CreatePublicAppointmentInput = z.infer<typeof createPublicAppointmentSchema>;
 export type UpdateAppointmentInput = z.infer<typeof updateAppointmentSchema>;
 export type AppointmentQueryInput = z.infer<typeof appointmentQuerySchema>;
+export type SetAvailabilityInput = z.infer<typeof setAvailabilitySchema>;
+export type CreateAvailabilityExceptionInput = z.infer<typeof createAvailabilityExceptionSchema>;
+export type SlotQueryInput = z.infer<typeof slotQuerySchema>;
+export type CreateSeriesInput = z.infer<typeof createSeriesSchema>;
+export type CreateFollowUpInput = z.infer<typeof createFollowUpSchema>;
+export type NoShowReportQueryInput = z.infer<typeof noShowReportQuerySchema>;
+export type SeriesScope = z.infer<typeof seriesScopeSchema>['scope'];
 
 export interface AppointmentResponse {
     id: string;
@@ -54,6 +138,90 @@ export interface AppointmentResponse {
     notes: string | null;
     patient: { firstName: string; lastName: string; phone: string };
     doctor: { firstName: string; lastName: string; specialization: string | null; department?: string | null };
+    seriesId: string | null;
+    seriesIndex: number | null;
     createdAt: Date;
     updatedAt: Date;
 }
+
+export interface AvailabilityWindowResponse {
+    id: string;
+    dayOfWeek: number;
+    startTime: string;
+    endTime: string;
+}
+
+export interface AvailabilityExceptionResponse {
+    id: string;
+    date: string;
+    type: AvailabilityExceptionType;
+    startTime: string | null;
+    endTime: string | null;
+    reason: string | null;
+    createdAt: Date;
+}
+
+export interface DoctorAvailabilityResponse {
+    doctorId: string;
+    slotMinutes: number;
+    timezone: string;
+    windows: AvailabilityWindowResponse[];
+    // Today onwards
+    exceptions: AvailabilityExceptionResponse[];
+}
+
+export interface AppointmentSlot {
+    // Clinic time, HH:mm
+    time: string;
+    start: Date;
+    end: Date;
+}
+
+export interface DoctorSlotsResponse {
+    doctorId: string;
+    date: string;
+    timezone: string;
+    slotMinutes: number;
+    slots: AppointmentSlot[];
+}
+
+export interface SeriesOccurrence {
+    id: string;
+    seriesIndex: number;
+    scheduledAt: Date;
+    duration: number;
+    status: AppointmentStatus;
+}
+
+export interface AppointmentSeriesResponse {
+    id: string;
+    patientId: string;
+    doctorId: string;
+    // Null for a follow-up booked from a medical record
+    frequency: SeriesFrequency | null;
+    interval: number;
+    occurrences: number;
+    medicalRecordId: string | null;
+    appointments: SeriesOccurrence[];
+    createdAt: Date;
+}
+
+export interface DoctorNoShowRate {
+    doctorId: string;
+    doctorName: string;
+    department: string | null;
+    completed: number;
+    noShows: number;
+    cancelled: number;
+    // Percentage of completed plus no-show appointments; null when there were none
+    noShowRate: number | null;
+}
+
+export interface NoShowReportResponse {
+    from: string;
+    to: string;
+    timezone: string;
+    // Highest rate first
+    doctors: DoctorNoShowRate[];
+    total: Omit<DoctorNoShowRate, 'doctorId' | 'doctorName' | 'department'>;
+}
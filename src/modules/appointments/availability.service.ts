@@ -0,0 +1,326 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { NotFoundError, ValidationError } from '../../middleware/errorHandler.js';
+import {
+    addDays,
+    clinicTimeToUtc,
+    dayOfWeek,
+    formatClockTime,
+    parseClockTime,
+    toClinicTime,
+} from '../../utils/clinicTime.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { AppointmentStatus, DoctorAvailability, DoctorAvailabilityException, Staff } from '@prisma/client';
+import {
+    AvailabilityExceptionResponse,
+    CreateAvailabilityExceptionInput,
+    DoctorAvailabilityResponse,
+    DoctorSlotsResponse,
+    SetAvailabilityInput,
+    SlotQueryInput,
+} from './appointments.types.js';
+
+// Appointments in these states hold their time slot
+export const BOOKED_STATUSES: AppointmentStatus[] = ['PENDING', 'SCHEDULED', 'CONFIRMED', 'IN_PROGRESS'];
+
+// No appointment runs longer than this; bounds the overlap lookup
+const MAX_APPOINTMENT_MINUTES = 24 * 60;
+
+/** [start, end): minutes of the clinic day, or epoch milliseconds for bookings */
+type Interval = [number, number];
+
+export class DoctorAvailabilityService {
+    async getAvailability(doctorId: string): Promise<DoctorAvailabilityResponse> {
+        const doctor = await this.findDoctor(doctorId);
+        const today = toClinicTime(new Date()).date;
+
+        const [windows, exceptions] = await Promise.all([
+            prisma.doctorAvailability.findMany({
+                where: { doctorId: doctor.id },
+                orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+            }),
+            prisma.doctorAvailabilityException.findMany({
+                where: { doctorId: doctor.id, date: { gte: this.toDbDate(today) } },
+                orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+            }),
+        ]);
+
+        return this.formatAvailability(doctor, windows, exceptions);
+    }
+
+    /**
+     * Replace a doctor's weekly schedule. Windows on the same day may not overlap.
+     */
+    async setAvailability(doctorId: string, input: SetAvailabilityInput, actor?: AuditActor): Promise<DoctorAvailabilityResponse> {
+        const doctor = await this.findDoctor(doctorId);
+
+        for (let day = 0; day <= 6; day++) {
+            const intervals = input.windows
+                .filter(window => window.dayOfWeek === day)
+                .map(window => [parseClockTime(window.startTime), parseClockTime(window.endTime)] as Interval)
+                .sort((a, b) => a[0] - b[0]);
+
+            for (let i = 1; i < intervals.length; i++) {
+                if (intervals[i][0] < intervals[i - 1][1]) {
+                    throw new ValidationError('Working hours on the same day must not overlap');
+                }
+            }
+        }
+
+        const before = await prisma.doctorAvailability.findMany({ where: { doctorId: doctor.id } });
+        const slotMinutes = input.slotMinutes ?? doctor.slotMinutes;
+
+        await prisma.$transaction([
+            prisma.doctorAvailability.deleteMany({ where: { doctorId: doctor.id } }),
+            prisma.doctorAvailability.createMany({
+                data: input.windows.map(window => ({ doctorId: doctor.id, ...window })),
+            }),
+            prisma.staff.update({ where: { id: doctor.id }, data: { slotMinutes } }),
+        ]);
+
+        await auditService.record({
+            actor,
+            entityType: 'Staff',
+            entityId: doctor.id,
+            action: 'UPDATE',
+            before: { slotMinutes: doctor.slotMinutes, availability: this.describeWindows(before) },
+            after: { slotMinutes, availability: this.describeWindows(input.windows) },
+        });
+
+        return this.getAvailability(doctor.id);
+    }
+
+    async addException(doctorId: string, input: CreateAvailabilityExceptionInput, actor?: AuditActor): Promise<AvailabilityExceptionResponse> {
+        const doctor = await this.findDoctor(doctorId);
+
+        const exception = await prisma.doctorAvailabilityException.create({
+            data: {
+                doctorId: doctor.id,
+                date: this.toDbDate(input.date),
+                type: input.type,
+                startTime: input.startTime,
+                endTime: input.endTime,
+                reason: input.reason,
+                createdBy: actor?.userId,
+            },
+        });
+
+        await auditService.record({
+            actor,
+            entityType: 'Staff',
+            entityId: doctor.id,
+            action: 'UPDATE',
+            after: { availabilityException: this.formatException(exception) },
+        });
+
+        return this.formatException(exception);
+    }
+
+    async removeException(doctorId: string, exceptionId: string, actor?: AuditActor): Promise<void> {
+        const doctor = await this.findDoctor(doctorId);
+        const exception = await prisma.doctorAvailabilityException.findFirst({
+            where: { id: exceptionId, doctorId: doctor.id },
+        });
+
+        if (!exception) {
+            throw new NotFoundError('Availability exception');
+        }
+
+        await prisma.doctorAvailabilityException.delete({ where: { id: exception.id } });
+
+        await auditService.record({
+            actor,
+            entityType: 'Staff',
+            entityId: doctor.id,
+            action: 'UPDATE',
+            before: { availabilityException: this.formatException(exception) },
+        });
+    }
+
+    /**
+     * Free slots of the doctor's slot length on one date. Slots already
+     * started are left out.
+     */
+    async getSlots(query: SlotQueryInput): Promise<DoctorSlotsResponse> {
+        const doctor = await this.findDoctor(query.doctorId);
+        const { date } = query;
+        const windows = await this.workingWindows(doctor.id, date);
+
+        const dayStart = clinicTimeToUtc(date, 0);
+        const dayEnd = clinicTimeToUtc(addDays(date, 1), 0);
+        const booked = await this.bookedIntervals(doctor.id, dayStart, dayEnd);
+        const now = Date.now();
+
+        const slots: DoctorSlotsResponse['slots'] = [];
+        for (const [windowStart, windowEnd] of windows) {
+            for (let minute = windowStart; minute + doctor.slotMinutes <= windowEnd; minute += doctor.slotMinutes) {
+                const start = clinicTimeToUtc(date, minute);
+                const end = clinicTimeToUtc(date, minute + doctor.slotMinutes);
+
+                if (start.getTime() <= now) continue;
+                if (booked.some(([from, to]) => from < end.getTime() && to > start.getTime())) continue;
+
+                slots.push({ time: formatClockTime(minute), start, end });
+            }
+        }
+
+        return {
+            doctorId: doctor.id,
+            date,
+            timezone: config.clinic.timezone,
+            slotMinutes: doctor.slotMinutes,
+            slots,
+        };
+    }
+
+    /**
+     * Reject a booking that does not fit inside one of the doctor's working
+     * windows that day, or that overlaps another booking.
+     */
+    async assertBookable(doctor: Pick<Staff, 'id' | 'firstName' | 'lastName'>, start: Date, duration: number, excludeAppointmentIds: string[] = []): Promise<void> {
+        if (Number.isNaN(start.getTime())) {
+            throw new ValidationError('Invalid appointment time');
+        }
+
+        const end = new Date(start.getTime() + duration * 60000);
+        const local = toClinicTime(start);
+        const startMinute = local.minutes;
+        // An appointment ending exactly at midnight still belongs to the day it started
+        const endMinute = startMinute + duration;
+
+        const windows = await this.workingWindows(doctor.id, local.date);
+        if (!windows.some(([from, to]) => from <= startMinute && endMinute <= to)) {
+            throw new ValidationError(
+                `Dr. ${doctor.firstName} ${doctor.lastName} is not available at this time. Please choose one of the open slots.`
+            );
+        }
+
+        const booked = await this.bookedIntervals(doctor.id, start, end, excludeAppointmentIds);
+        if (booked.length > 0) {
+            throw new ValidationError('Doctor has an overlapping appointment at this time');
+        }
+    }
+
+    /**
+     * Working windows on a date after leave and holidays are taken out
+     */
+    private async workingWindows(doctorId: string, date: string): Promise<Interval[]> {
+        const [templates, exceptions] = await Promise.all([
+            prisma.doctorAvailability.findMany({
+                where: { doctorId, dayOfWeek: dayOfWeek(date) },
+                orderBy: { startTime: 'asc' },
+            }),
+            prisma.doctorAvailabilityException.findMany({
+                where: { doctorId, date: this.toDbDate(date) },
+            }),
+        ]);
+
+        let windows: Interval[] = templates.map(template => [parseClockTime(template.startTime), parseClockTime(template.endTime)]);
+
+        for (const exception of exceptions) {
+            if (!exception.startTime || !exception.endTime) {
+                return [];
+            }
+
+            const offFrom = parseClockTime(exception.startTime);
+            const offTo = parseClockTime(exception.endTime);
+            windows = windows.flatMap(([from, to]): Interval[] => {
+                if (offTo <= from || offFrom >= to) return [[from, to]];
+
+                const remaining: Interval[] = [];
+                if (from < offFrom) remaining.push([from, offFrom]);
+                if (offTo < to) remaining.push([offTo, to]);
+                return remaining;
+            });
+        }
+
+        return windows;
+    }
+
+    /**
+     * Booked appointments overlapping [from, to), as epoch millisecond intervals
+     */
+    private async bookedIntervals(doctorId: string, from: Date, to: Date, excludeAppointmentIds: string[] = []): Promise<Interval[]> {
+        const appointments = await prisma.appointment.findMany({
+            where: {
+                doctorId,
+                status: { in: BOOKED_STATUSES },
+                scheduledAt: {
+                    gt: new Date(from.getTime() - MAX_APPOINTMENT_MINUTES * 60000),
+                    lt: to,
+                },
+                ...(excludeAppointmentIds.length > 0 && { id: { notIn: excludeAppointmentIds } }),
+            },
+            select: { scheduledAt: true, duration: true },
+        });
+
+        return appointments
+            .map(appointment => [
+                appointment.scheduledAt.getTime(),
+                appointment.scheduledAt.getTime() + appointment.duration * 60000,
+            ] as Interval)
+            .filter(([, end]) => end > from.getTime());
+    }
+
+    /**
+     * Accepts a Staff.id or the doctor's User.id, like appointment booking does
+     */
+    async findDoctor(doctorId: string): Promise<Staff> {
+        const doctor = await prisma.staff.findFirst({
+            where: {
+                OR: [{ id: doctorId }, { userId: doctorId }],
+                user: { role: 'DOCTOR' },
+            },
+        });
+
+        if (!doctor) {
+            throw new NotFoundError('Doctor');
+        }
+
+        return doctor;
+    }
+
+    private toDbDate(date: string): Date {
+        return new Date(`${date}T00:00:00.000Z`);
+    }
+
+    private describeWindows(windows: Pick<DoctorAvailability, 'dayOfWeek' | 'startTime' | 'endTime'>[]): string[] {
+        return windows
+            .map(window => `${window.dayOfWeek} ${window.startTime}-${window.endTime}`)
+            .sort();
+    }
+
+    private formatAvailability(
+        doctor: Staff,
+        windows: DoctorAvailability[],
+        exceptions: DoctorAvailabilityException[]
+    ): DoctorAvailabilityResponse {
+        return {
+            doctorId: doctor.id,
+            slotMinutes: doctor.slotMinutes,
+            timezone: config.clinic.timezone,
+            windows: windows.map(window => ({
+                id: window.id,
+                dayOfWeek: window.dayOfWeek,
+                startTime: window.startTime,
+                endTime: window.endTime,
+            })),
+            exceptions: exceptions.map(exception => this.formatException(exception)),
+        };
+    }
+
+    private formatException(exception: DoctorAvailabilityException): AvailabilityExceptionResponse {
+        return {
+            id: exception.id,
+            date: exception.date.toISOString().slice(0, 10),
+            type: exception.type,
+            startTime: exception.startTime,
+            endTime: exception.endTime,
+            reason: exception.reason,
+            createdAt: exception.createdAt,
+        };
+    }
+}
+
+export const doctorAvailabilityService = new DoctorAvailabilityService();
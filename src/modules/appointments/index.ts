@@ -1,3 +1,7 @@
 export { default as appointmentsRoutes } from './appointments.routes.js';
 export { appointmentsService } from './appointments.service.js';
+export { doctorAvailabilityService } from './availability.service.js';
+export { appointmentSeriesService } from './series.service.js';
+export { appointmentRemindersService } from './reminders.service.js';
+export { noShowService } from './noShow.service.js';
 export * from './appointments.types.js';
@@ -0,0 +1,112 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { parseExpiry } from '../../utils/jwt.js';
+import { withDeleted } from '../../utils/softDelete.js';
+import { addDays, clinicTimeToUtc, toClinicTime } from '../../utils/clinicTime.js';
+import { AppointmentStatus } from '@prisma/client';
+import { DoctorNoShowRate, NoShowReportQueryInput, NoShowReportResponse } from './appointments.types.js';
+
+// Appointments nobody has started; only these can become NO_SHOW
+const UNATTENDED_STATUSES: AppointmentStatus[] = ['SCHEDULED', 'CONFIRMED'];
+
+// Default report period
+const REPORT_DAYS = 30;
+
+/**
+ * Marks appointments nobody turned up for, and reports no-show rates
+ */
+export class NoShowService {
+    /**
+     * Mark SCHEDULED and CONFIRMED appointments as NO_SHOW once they were due
+     * to end more than config.appointments.noShowGrace ago. Walk-ins registered
+     * in the OP queue are left to the queue: the patient was at the desk.
+     */
+    async markNoShows(now = new Date()): Promise<number> {
+        const graceMs = parseExpiry(config.appointments.noShowGrace) * 1000;
+
+        const candidates = await prisma.appointment.findMany({
+            where: {
+                status: { in: UNATTENDED_STATUSES },
+                scheduledAt: { lt: new Date(now.getTime() - graceMs) },
+                opToken: null,
+            },
+            select: { id: true, scheduledAt: true, duration: true },
+        });
+
+        const overdue = candidates
+            .filter(appointment => appointment.scheduledAt.getTime() + appointment.duration * 60000 + graceMs < now.getTime())
+            .map(appointment => appointment.id);
+        if (overdue.length === 0) return 0;
+
+        // Re-checks the status so an appointment started meanwhile is left alone
+        const { count } = await prisma.appointment.updateMany({
+            where: { id: { in: overdue }, status: { in: UNATTENDED_STATUSES } },
+            data: { status: 'NO_SHOW' },
+        });
+
+        return count;
+    }
+
+    /**
+     * Completed, no-show and cancelled appointments per doctor over a period
+     * of clinic dates
+     */
+    async getReport(query: NoShowReportQueryInput): Promise<NoShowReportResponse> {
+        const today = toClinicTime(new Date()).date;
+        const to = query.to ?? today;
+        const from = query.from ?? addDays(to, -(REPORT_DAYS - 1));
+
+        const counts = await prisma.appointment.groupBy({
+            by: ['doctorId', 'status'],
+            where: {
+                status: { in: ['COMPLETED', 'NO_SHOW', 'CANCELLED'] },
+                scheduledAt: { gte: clinicTimeToUtc(from, 0), lt: clinicTimeToUtc(addDays(to, 1), 0) },
+                ...(query.department && { doctor: { department: query.department } }),
+            },
+            _count: { _all: true },
+        });
+
+        // Doctors who have since left still count for the period
+        const doctors = await prisma.staff.findMany({
+            where: { ...withDeleted, id: { in: [...new Set(counts.map(row => row.doctorId))] } },
+            select: { id: true, firstName: true, lastName: true, department: true },
+        });
+
+        const rows = doctors.map((doctor): DoctorNoShowRate => {
+            const count = (status: AppointmentStatus) =>
+                counts.find(row => row.doctorId === doctor.id && row.status === status)?._count._all ?? 0;
+
+            return {
+                doctorId: doctor.id,
+                doctorName: `Dr. ${doctor.firstName} ${doctor.lastName}`,
+                department: doctor.department,
+                ...this.rate(count('COMPLETED'), count('NO_SHOW'), count('CANCELLED')),
+            };
+        });
+
+        rows.sort((a, b) => (b.noShowRate ?? -1) - (a.noShowRate ?? -1) || a.doctorName.localeCompare(b.doctorName));
+
+        const sum = (key: 'completed' | 'noShows' | 'cancelled') => rows.reduce((total, row) => total + row[key], 0);
+
+        return {
+            from,
+            to,
+            timezone: config.clinic.timezone,
+            doctors: rows,
+            total: this.rate(sum('completed'), sum('noShows'), sum('cancelled')),
+        };
+    }
+
+    private rate(completed: number, noShows: number, cancelled: number): NoShowReportResponse['total'] {
+        const seen = completed + noShows;
+
+        return {
+            completed,
+            noShows,
+            cancelled,
+            noShowRate: seen > 0 ? Math.round((noShows / seen) * 1000) / 10 : null,
+        };
+    }
+}
+
+export const noShowService = new NoShowService();
@@ -0,0 +1,182 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { parseExpiry } from '../../utils/jwt.js';
+import { formatClockTime, toClinicTime } from '../../utils/clinicTime.js';
+import { logger } from '../../utils/logger.js';
+import { emailService } from '../../services/email.service.js';
+import { smsService } from '../../services/sms.service.js';
+import { consentService } from '../consent/consent.service.js';
+import { AppointmentStatus, ReminderChannel, ReminderStatus } from '@prisma/client';
+
+// Appointments still expected to happen
+const REMINDED_STATUSES: AppointmentStatus[] = ['PENDING', 'SCHEDULED', 'CONFIRMED'];
+
+interface ReminderTarget {
+    id: string;
+    patientId: string;
+    scheduledAt: Date;
+    patient: { firstName: string; phone: string; email: string | null; userId: string | null };
+    doctor: { firstName: string; lastName: string };
+}
+
+export interface ReminderRunSummary {
+    sent: number;
+    skipped: number;
+    failed: number;
+}
+
+/**
+ * Appointment reminders by email, SMS and in-app notification at the offsets
+ * in config.appointments. SMS and email respect the patient's consent.
+ */
+export class AppointmentRemindersService {
+    /**
+     * Send reminders that are due. Only the latest due offset is sent, so an
+     * appointment booked two hours ahead does not also get the day-before
+     * reminder; neither does one booked after its reminder time had passed.
+     */
+    async sendDue(now = new Date()): Promise<ReminderRunSummary> {
+        const summary: ReminderRunSummary = { sent: 0, skipped: 0, failed: 0 };
+        const offsets = this.offsetMinutes();
+        const channels = this.channels();
+        if (offsets.length === 0 || channels.length === 0) return summary;
+
+        const appointments = await prisma.appointment.findMany({
+            where: {
+                status: { in: REMINDED_STATUSES },
+                scheduledAt: { gt: now, lte: new Date(now.getTime() + Math.max(...offsets) * 60000) },
+                patient: { deletedAt: null },
+            },
+            include: {
+                patient: { select: { firstName: true, phone: true, email: true, userId: true } },
+                doctor: { select: { firstName: true, lastName: true } },
+                reminders: { select: { scheduledAt: true, offsetMinutes: true, channel: true } },
+            },
+        });
+
+        for (const appointment of appointments) {
+            const offset = offsets.find(minutes => appointment.scheduledAt.getTime() - minutes * 60000 <= now.getTime());
+            if (offset === undefined) continue;
+            if (appointment.createdAt.getTime() > appointment.scheduledAt.getTime() - offset * 60000) continue;
+
+            for (const channel of channels) {
+                const done = appointment.reminders.some(reminder =>
+                    reminder.channel === channel
+                    && reminder.offsetMinutes === offset
+                    && reminder.scheduledAt.getTime() === appointment.scheduledAt.getTime()
+                );
+                if (done) continue;
+
+                const status = await this.deliver(appointment, offset, channel);
+                if (status === ReminderStatus.SENT) summary.sent++;
+                else if (status === ReminderStatus.SKIPPED) summary.skipped++;
+                else if (status === ReminderStatus.FAILED) summary.failed++;
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Claim the reminder, then send it. Returns null when another run claimed it first.
+     */
+    private async deliver(appointment: ReminderTarget, offsetMinutes: number, channel: ReminderChannel): Promise<ReminderStatus | null> {
+        const key = { appointmentId: appointment.id, scheduledAt: appointment.scheduledAt, offsetMinutes, channel };
+        const { count } = await prisma.appointmentReminder.createMany({
+            data: [{ ...key, status: ReminderStatus.SENT }],
+            skipDuplicates: true,
+        });
+        if (count === 0) return null;
+
+        let outcome: { status: ReminderStatus; detail?: string };
+        try {
+            outcome = await this.send(appointment, channel);
+        } catch (error) {
+            logger.error({ error, appointmentId: appointment.id, channel }, 'Failed to send appointment reminder');
+            outcome = { status: ReminderStatus.FAILED, detail: error instanceof Error ? error.message : String(error) };
+        }
+
+        if (outcome.status !== ReminderStatus.SENT) {
+            await prisma.appointmentReminder.update({
+                where: { appointmentId_scheduledAt_offsetMinutes_channel: key },
+                data: { status: outcome.status, detail: outcome.detail },
+            });
+        }
+
+        return outcome.status;
+    }
+
+    private async send(appointment: ReminderTarget, channel: ReminderChannel): Promise<{ status: ReminderStatus; detail?: string }> {
+        const { patient } = appointment;
+        const message = this.message(appointment);
+
+        switch (channel) {
+            case ReminderChannel.IN_APP:
+                if (!patient.userId) {
+                    return { status: ReminderStatus.SKIPPED, detail: 'No portal account' };
+                }
+
+                await prisma.notification.create({
+                    data: {
+                        recipientId: patient.userId,
+                        title: 'Appointment reminder',
+                        message,
+                        type: 'appointment',
+                        referenceId: appointment.id,
+                        actionUrl: '/patient/appointments',
+                    },
+                });
+                break;
+
+            case ReminderChannel.SMS:
+                if (!(await consentService.hasConsent(appointment.patientId, 'SMS_COMMUNICATION'))) {
+                    return { status: ReminderStatus.SKIPPED, detail: 'No SMS consent' };
+                }
+
+                await smsService.sendSms({ to: patient.phone, text: message });
+                break;
+
+            case ReminderChannel.EMAIL:
+                if (!patient.email) {
+                    return { status: ReminderStatus.SKIPPED, detail: 'No email address' };
+                }
+                if (!(await consentService.hasConsent(appointment.patientId, 'EMAIL_COMMUNICATION'))) {
+                    return { status: ReminderStatus.SKIPPED, detail: 'No email consent' };
+                }
+
+                await emailService.sendEmail({
+                    to: patient.email,
+                    subject: 'Appointment reminder - Swetha Saiphani Clinics',
+                    text: `Hello ${patient.firstName},\n\n${message}\n\nIf you cannot come, please call the clinic to reschedule.\n\nBest regards,\nSwetha Saiphani Clinics Team\n`,
+                });
+                break;
+        }
+
+        return { status: ReminderStatus.SENT };
+    }
+
+    private message(appointment: ReminderTarget): string {
+        const local = toClinicTime(appointment.scheduledAt);
+        return `Reminder: your appointment with Dr. ${appointment.doctor.firstName} ${appointment.doctor.lastName} at Swetha Saiphani Clinics is on ${local.date} at ${formatClockTime(local.minutes)}.`;
+    }
+
+    /**
+     * Configured offsets in minutes, shortest first
+     */
+    private offsetMinutes(): number[] {
+        const minutes = config.appointments.reminderOffsets.map(offset => Math.round(parseExpiry(offset) / 60));
+        return [...new Set(minutes)].filter(offset => offset > 0).sort((a, b) => a - b);
+    }
+
+    private channels(): ReminderChannel[] {
+        const known = Object.values(ReminderChannel) as string[];
+        const unknown = config.appointments.reminderChannels.filter(channel => !known.includes(channel));
+        if (unknown.length > 0) {
+            logger.warn({ unknown }, 'Ignoring unknown APPOINTMENT_REMINDER_CHANNELS');
+        }
+
+        return config.appointments.reminderChannels.filter((channel): channel is ReminderChannel => known.includes(channel));
+    }
+}
+
+export const appointmentRemindersService = new AppointmentRemindersService();
@@ -0,0 +1,306 @@
+import { prisma } from '../../config/database.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/AppError.js';
+import {
+    addDays,
+    addMonths,
+    clinicTimeToUtc,
+    formatClockTime,
+    toClinicTime,
+} from '../../utils/clinicTime.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { Appointment, AppointmentStatus, SeriesFrequency, Staff } from '@prisma/client';
+import {
+    AppointmentSeriesResponse,
+    CreateFollowUpInput,
+    CreateSeriesInput,
+    UpdateAppointmentInput,
+} from './appointments.types.js';
+import { BOOKED_STATUSES, doctorAvailabilityService } from './availability.service.js';
+
+// Occurrences that have not started yet; only these move with "following" edits
+const UPCOMING_STATUSES: AppointmentStatus[] = ['PENDING', 'SCHEDULED', 'CONFIRMED'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SeriesBooking {
+    patientId: string;
+    doctor: Staff;
+    starts: Date[];
+    duration: number;
+    frequency: SeriesFrequency | null;
+    interval: number;
+    medicalRecordId?: string;
+    reason?: string;
+    notes?: string;
+}
+
+/**
+ * Appointments booked together: a recurring series (e.g. weekly physiotherapy)
+ * or a follow-up booked from a medical record. Each occurrence is an ordinary
+ * appointment carrying seriesId and seriesIndex.
+ */
+export class AppointmentSeriesService {
+    async create(input: CreateSeriesInput, actor?: AuditActor): Promise<AppointmentSeriesResponse> {
+        const patient = await prisma.patient.findUnique({ where: { uhid: input.patientId } });
+        if (!patient) {
+            throw new NotFoundError('Patient');
+        }
+
+        const doctor = await doctorAvailabilityService.findDoctor(input.doctorId);
+
+        return this.book({
+            patientId: patient.uhid,
+            doctor,
+            starts: this.occurrenceStarts(input.startAt, input.frequency, input.interval, input.occurrences),
+            duration: input.duration ?? doctor.slotMinutes,
+            frequency: input.frequency,
+            interval: input.interval,
+            reason: input.reason,
+            notes: input.notes,
+        }, actor);
+    }
+
+    /**
+     * Book the follow-up a doctor asked for on a medical record, with the same
+     * doctor. One follow-up per record while it is still booked.
+     */
+    async createFollowUp(medicalRecordId: string, input: CreateFollowUpInput, actor?: AuditActor): Promise<AppointmentSeriesResponse> {
+        const record = await prisma.medicalRecord.findUnique({
+            where: { id: medicalRecordId },
+            include: { doctor: true },
+        });
+        if (!record) {
+            throw new NotFoundError('Medical record');
+        }
+
+        const existing = await prisma.appointment.findFirst({
+            where: { series: { medicalRecordId: record.id }, status: { in: BOOKED_STATUSES } },
+        });
+        if (existing) {
+            throw new ConflictError('A follow-up is already booked for this medical record');
+        }
+
+        let scheduledAt = input.scheduledAt;
+        if (!scheduledAt) {
+            if (!record.followUpDate) {
+                throw new ValidationError('This medical record has no follow-up date; give scheduledAt');
+            }
+
+            const date = this.followUpDay(record.followUpDate);
+            const { slots } = await doctorAvailabilityService.getSlots({ doctorId: record.doctorId, date });
+            if (slots.length === 0) {
+                throw new ValidationError(
+                    `Dr. ${record.doctor.firstName} ${record.doctor.lastName} has no free slot on ${date}. Please choose another time.`
+                );
+            }
+            scheduledAt = slots[0].start;
+        }
+
+        return this.book({
+            patientId: record.patientId,
+            doctor: record.doctor,
+            starts: [scheduledAt],
+            duration: input.duration ?? record.doctor.slotMinutes,
+            frequency: null,
+            interval: 1,
+            medicalRecordId: record.id,
+            reason: input.reason ?? `Follow-up: ${record.diagnosis}`,
+            notes: input.notes,
+        }, actor);
+    }
+
+    async findById(id: string): Promise<AppointmentSeriesResponse> {
+        const series = await prisma.appointmentSeries.findUnique({
+            where: { id },
+            include: { appointments: { orderBy: { seriesIndex: 'asc' } } },
+        });
+
+        if (!series) {
+            throw new NotFoundError('Appointment series');
+        }
+
+        return this.formatSeries(series);
+    }
+
+    /**
+     * Apply an edit to an occurrence and every later one that has not started.
+     * A new time moves them all by the same number of days to the same clinic
+     * time of day; nothing is changed unless every occurrence still fits.
+     */
+    async updateFollowing(appointment: Appointment & { doctor: Staff }, input: UpdateAppointmentInput): Promise<void> {
+        const targets = await this.followingOccurrences(appointment);
+        const { scheduledAt, ...changes } = input;
+
+        const from = toClinicTime(appointment.scheduledAt);
+        const to = scheduledAt && toClinicTime(scheduledAt);
+        const dayShift = to ? Math.round((Date.parse(to.date) - Date.parse(from.date)) / DAY_MS) : 0;
+
+        const moves = targets.map(target => ({
+            id: target.id,
+            scheduledAt: to
+                ? clinicTimeToUtc(addDays(toClinicTime(target.scheduledAt).date, dayShift), to.minutes)
+                : target.scheduledAt,
+            duration: input.duration ?? target.duration,
+        }));
+
+        if (scheduledAt || input.duration) {
+            if (Number.isNaN(scheduledAt?.getTime())) {
+                throw new ValidationError('Invalid appointment time');
+            }
+
+            // The occurrences being moved do not block each other
+            const ids = targets.map(target => target.id);
+            await this.assertAllBookable(appointment.doctor, moves.map(move => move.scheduledAt), moves.map(move => move.duration), ids);
+        }
+
+        await prisma.$transaction(moves.map(move => prisma.appointment.update({
+            where: { id: move.id },
+            data: { ...changes, scheduledAt: move.scheduledAt, duration: move.duration },
+        })));
+    }
+
+    async deleteFollowing(appointment: Appointment): Promise<void> {
+        const targets = await this.followingOccurrences(appointment);
+
+        await prisma.appointment.deleteMany({
+            where: { id: { in: targets.map(target => target.id) } },
+        });
+    }
+
+    /**
+     * The occurrence itself, then later ones of its series that have not started
+     */
+    private async followingOccurrences(appointment: Appointment): Promise<Appointment[]> {
+        const later = await prisma.appointment.findMany({
+            where: {
+                seriesId: appointment.seriesId,
+                seriesIndex: { gt: appointment.seriesIndex ?? 0 },
+                status: { in: UPCOMING_STATUSES },
+            },
+            orderBy: { seriesIndex: 'asc' },
+        });
+
+        return [appointment, ...later];
+    }
+
+    /**
+     * Check every occurrence before booking any, so a clash on one date
+     * reports all the dates that need another time
+     */
+    private async book(booking: SeriesBooking, actor?: AuditActor): Promise<AppointmentSeriesResponse> {
+        await this.assertAllBookable(booking.doctor, booking.starts, booking.starts.map(() => booking.duration));
+
+        const series = await prisma.$transaction(async (tx) => {
+            const created = await tx.appointmentSeries.create({
+                data: {
+                    patientId: booking.patientId,
+                    doctorId: booking.doctor.id,
+                    frequency: booking.frequency,
+                    interval: booking.interval,
+                    occurrences: booking.starts.length,
+                    medicalRecordId: booking.medicalRecordId,
+                    createdBy: actor?.userId,
+                },
+            });
+
+            await tx.appointment.createMany({
+                data: booking.starts.map((scheduledAt, index) => ({
+                    patientId: booking.patientId,
+                    doctorId: booking.doctor.id,
+                    scheduledAt,
+                    duration: booking.duration,
+                    reason: booking.reason,
+                    notes: booking.notes,
+                    seriesId: created.id,
+                    seriesIndex: index + 1,
+                })),
+            });
+
+            return created;
+        });
+
+        return this.findById(series.id);
+    }
+
+    private async assertAllBookable(doctor: Staff, starts: Date[], durations: number[], excludeAppointmentIds: string[] = []): Promise<void> {
+        const clashes: string[] = [];
+
+        for (let i = 0; i < starts.length; i++) {
+            try {
+                await doctorAvailabilityService.assertBookable(doctor, starts[i], durations[i], excludeAppointmentIds);
+            } catch (error) {
+                if (!(error instanceof ValidationError)) throw error;
+
+                const local = toClinicTime(starts[i]);
+                clashes.push(`${local.date} ${formatClockTime(local.minutes)}`);
+            }
+        }
+
+        if (clashes.length > 0) {
+            throw new ValidationError(
+                `Dr. ${doctor.firstName} ${doctor.lastName} is not available on ${clashes.join(', ')}. Please choose another time for these dates.`
+            );
+        }
+    }
+
+    /**
+     * Later occurrences keep the first one's clinic time of day, across DST changes too
+     */
+    private occurrenceStarts(startAt: Date, frequency: SeriesFrequency, interval: number, occurrences: number): Date[] {
+        if (Number.isNaN(startAt.getTime())) {
+            throw new ValidationError('Invalid appointment time');
+        }
+
+        const first = toClinicTime(startAt);
+
+        return Array.from({ length: occurrences }, (_, i) => {
+            const step = i * interval;
+            const date = frequency === 'MONTHLY'
+                ? addMonths(first.date, step)
+                : addDays(first.date, frequency === 'WEEKLY' ? step * 7 : step);
+
+            return clinicTimeToUtc(date, first.minutes);
+        });
+    }
+
+    /**
+     * Follow-up dates are usually entered as a plain date, which is stored as
+     * UTC midnight; anything else is an instant to read in clinic time
+     */
+    private followUpDay(followUpDate: Date): string {
+        const iso = followUpDate.toISOString();
+        return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : toClinicTime(followUpDate).date;
+    }
+
+    private formatSeries(series: {
+        id: string;
+        patientId: string;
+        doctorId: string;
+        frequency: SeriesFrequency | null;
+        interval: number;
+        occurrences: number;
+        medicalRecordId: string | null;
+        createdAt: Date;
+        appointments: Appointment[];
+    }): AppointmentSeriesResponse {
+        return {
+            id: series.id,
+            patientId: series.patientId,
+            doctorId: series.doctorId,
+            frequency: series.frequency,
+            interval: series.interval,
+            occurrences: series.occurrences,
+            medicalRecordId: series.medicalRecordId,
+            appointments: series.appointments.map(appointment => ({
+                id: appointment.id,
+                seriesIndex: appointment.seriesIndex!,
+                scheduledAt: appointment.scheduledAt,
+                duration: appointment.duration,
+                status: appointment.status,
+            })),
+            createdAt: series.createdAt,
+        };
+    }
+}
+
+export const appointmentSeriesService = new AppointmentSeriesService();
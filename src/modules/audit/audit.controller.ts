@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import { auditService } from './audit.service.js';
+import { auditQuerySchema } from './audit.types.js';
+import { sendSuccess } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/audit:
+ *   get:
+ *     tags: [Audit]
+ *     summary: Search the audit trail (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         schema:
+ *           type: string
+ *           enum: [Patient, Bill, PharmacyReturn, Medicine, LabTestOrder, LabTestResult, MedicalRecord, Prescription, PatientGuardian, Staff]
+ *       - in: query
+ *         name: entityId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: User ID of the person who made the change
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [CREATE, UPDATE, DELETE, STATUS_CHANGE, MERGE, ERASE, RESTORE]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated audit entries, newest first
+ */
+export async function getAuditLogs(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = auditQuerySchema.parse(req.query);
+        const result = await auditService.findAll(query);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getAuditLogs } from './audit.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Audit
+ *   description: Change history for patients, bills, pharmacy, lab and medical records
+ */
+
+router.use(authGuard);
+
+router.get('/', requirePermission('audit.read'), getAuditLogs);
+
+export default router;
@@ -0,0 +1,123 @@
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { AuditLog, Prisma } from '@prisma/client';
+import { PaginatedResponse } from '../users/users.types.js';
+import { AuditEntry, AuditQueryInput } from './audit.types.js';
+
+// Never copied into the audit trail
+const REDACTED_FIELDS = new Set(['passwordHash', 'totpSecret', 'totpRecoveryCodes']);
+
+type Snapshot = Record<string, unknown>;
+
+export class AuditService {
+    /**
+     * Write one audit entry. For updates only the fields that changed are kept
+     * in before/after. Failures are logged, never thrown - auditing must not
+     * roll back the change it describes.
+     */
+    async record(entry: AuditEntry): Promise<void> {
+        try {
+            let before = this.toSnapshot(entry.before);
+            let after = this.toSnapshot(entry.after);
+
+            if (before && after) {
+                [before, after] = this.diff(before, after);
+                if (Object.keys(after).length === 0 && Object.keys(before).length === 0) {
+                    return;
+                }
+            }
+
+            await prisma.auditLog.create({
+                data: {
+                    actorId: entry.actor?.userId,
+                    actorEmail: entry.actor?.email,
+                    actorRole: entry.actor?.role,
+                    entityType: entry.entityType,
+                    entityId: entry.entityId,
+                    action: entry.action,
+                    before: (before ?? undefined) as Prisma.InputJsonValue | undefined,
+                    after: (after ?? undefined) as Prisma.InputJsonValue | undefined,
+                },
+            });
+        } catch (error) {
+            logger.error({
+                error,
+                entityType: entry.entityType,
+                entityId: entry.entityId,
+                action: entry.action,
+            }, 'Failed to write audit log');
+        }
+    }
+
+    async findAll(query: AuditQueryInput): Promise<PaginatedResponse<AuditLog>> {
+        const { page, limit, entityType, entityId, actorId, action, startDate, endDate } = query;
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.AuditLogWhereInput = {};
+        if (entityType) where.entityType = entityType;
+        if (entityId) where.entityId = entityId;
+        if (actorId) where.actorId = actorId;
+        if (action) where.action = action;
+        if (startDate || endDate) {
+            where.createdAt = {
+                ...(startDate && { gte: new Date(startDate) }),
+                ...(endDate && { lte: new Date(endDate) }),
+            };
+        }
+
+        const [items, total] = await Promise.all([
+            prisma.auditLog.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: 'desc' },
+            }),
+            prisma.auditLog.count({ where }),
+        ]);
+
+        return {
+            items,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Plain JSON copy of a record (Decimals and Dates become strings), minus secrets
+     */
+    private toSnapshot(value: unknown): Snapshot | null {
+        if (value === undefined || value === null) {
+            return null;
+        }
+
+        const json = JSON.parse(JSON.stringify(value)) as Snapshot;
+        for (const field of REDACTED_FIELDS) {
+            delete json[field];
+        }
+
+        return json;
+    }
+
+    private diff(before: Snapshot, after: Snapshot): [Snapshot, Snapshot] {
+        const changedBefore: Snapshot = {};
+        const changedAfter: Snapshot = {};
+        // Only compare fields present on both sides, so an `include` on one snapshot is not reported as a change
+        const keys = Object.keys(before).filter(key => key in after);
+
+        for (const key of keys) {
+            // updatedAt always moves; it adds noise without telling anyone anything
+            if (key === 'updatedAt') continue;
+
+            if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+                changedBefore[key] = before[key];
+                changedAfter[key] = after[key];
+            }
+        }
+
+        return [changedBefore, changedAfter];
+    }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+export const AUDIT_ENTITY_TYPES = [
+    'Patient',
+    'Bill',
+    'PharmacyReturn',
+    'Medicine',
+    'LabTestOrder',
+    'LabTestResult',
+    'MedicalRecord',
+    'Prescription',
+    'PatientGuardian',
+    'Staff',
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'STATUS_CHANGE' | 'MERGE' | 'ERASE' | 'RESTORE';
+
+/**
+ * The user performing a change. Controllers pass req.user straight through.
+ */
+export interface AuditActor {
+    userId: string;
+    role: UserRole;
+    email?: string;
+}
+
+export interface AuditEntry {
+    actor?: AuditActor | null;
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    before?: unknown;
+    after?: unknown;
+}
+
+export const auditQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+    entityId: z.string().optional(),
+    actorId: z.string().optional(),
+    action: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+});
+
+export type AuditQueryInput = z.infer<typeof auditQuerySchema>;
@@ -0,0 +1,3 @@
+export { default as auditRoutes } from './audit.routes.js';
+export { auditService } from './audit.service.js';
+export * from './audit.types.js';
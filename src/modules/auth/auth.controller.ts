@@ -1,14 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from './auth.service.js';
+import { mfaService } from './mfa.service.js';
+import { sessionService } from './session.service.js';
+import { patientOtpService } from './patientOtp.service.js';
 import {
     loginSchema,
     registerSchema,
     refreshTokenSchema,
     changePasswordSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
+    mfaSetupSchema,
+    mfaEnableSchema,
+    mfaVerifySchema,
+    mfaCodeSchema,
+    otpRequestSchema,
+    otpVerifySchema,
+    ClientContext,
 } from './auth.types.js';
 import { sendSuccess, sendNoContent } from '../../utils/response.js';
 import { asyncHandler } from '../../utils/asyncHandler.js';
-import { ValidationError } from '../../utils/AppError.js';
+import { ValidationError, UnauthorizedError } from '../../utils/AppError.js';
 import { ZodError } from 'zod';
 
 /**
@@ -26,6 +38,14 @@ function validateRequest<T>(schema: { parse: (data: unknown) => T }, data: unkno
     }
 }
 
+function getClientContext(req: Request, deviceName?: string): ClientContext {
+    return {
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+        deviceName,
+    };
+}
+
 /**
  * @swagger
  * /api/auth/register:
@@ -69,8 +89,15 @@ export const register = asyncHandler(async (
     _next: NextFunction
 ): Promise<void> => {
     const input = validateRequest(registerSchema, req.body);
-    const result = await authService.register(input);
-    sendSuccess(res, result, 'User registered successfully', 201);
+    const result = await authService.register(input, getClientContext(req));
+    sendSuccess(
+        res,
+        result,
+        'mfaRequired' in result
+            ? 'User registered successfully. Two-factor setup is required before signing in.'
+            : 'User registered successfully',
+        201
+    );
 });
 
 /**
@@ -92,6 +119,9 @@ export const register = asyncHandler(async (
  *                 format: email
  *               password:
  *                 type: string
+ *               deviceName:
+ *                 type: string
+ *                 description: Label shown in the session list (defaults to browser and OS)
  *     responses:
  *       200:
  *         description: Login successful
@@ -110,10 +140,17 @@ export const register = asyncHandler(async (
  *                       type: object
  *                     tokens:
  *                       type: object
+ *                     mfaRequired:
+ *                       type: boolean
+ *                       description: Present instead of tokens when a TOTP step is still required
+ *                     mfaEnrollmentRequired:
+ *                       type: boolean
+ *                     mfaToken:
+ *                       type: string
  *       400:
  *         description: Validation error - missing or invalid fields
  *       401:
- *         description: Invalid credentials
+ *         description: Invalid credentials, or account locked after repeated failures (AUTH_ACCOUNT_LOCKED)
  *       500:
  *         description: Server error
  */
@@ -124,8 +161,8 @@ export const login = asyncHandler(async (
 ): Promise<void> => {
     // Validate input before passing to service
     const input = validateRequest(loginSchema, req.body);
-    const result = await authService.login(input);
-    sendSuccess(res, result, 'Login successful');
+    const result = await authService.login(input, getClientContext(req, input.deviceName));
+    sendSuccess(res, result, 'mfaRequired' in result ? 'Two-factor authentication required' : 'Login successful');
 });
 
 /**
@@ -156,7 +193,7 @@ export const refreshToken = asyncHandler(async (
     _next: NextFunction
 ): Promise<void> => {
     const { refreshToken } = validateRequest(refreshTokenSchema, req.body);
-    const tokens = await authService.refreshToken(refreshToken);
+    const tokens = await authService.refreshToken(refreshToken, getClientContext(req));
     res.json(tokens);
 });
 
@@ -250,6 +287,416 @@ export const changePassword = asyncHandler(async (
     sendNoContent(res);
 });
 
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Request a password reset link by email
+ *     description: Always responds with success so that registered emails cannot be discovered.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Validation error
+ */
+export const forgotPassword = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const input = validateRequest(forgotPasswordSchema, req.body);
+    await authService.forgotPassword(input);
+    sendSuccess(res, null, 'If an account exists for this email, a password reset link has been sent');
+});
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Set a new password using a reset token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, newPassword]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *       401:
+ *         description: Reset token is invalid, used or expired
+ */
+export const resetPassword = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const input = validateRequest(resetPasswordSchema, req.body);
+    await authService.resetPassword(input);
+    sendSuccess(res, null, 'Password reset successfully. Please log in with your new password.');
+});
+
+/**
+ * @swagger
+ * /api/auth/otp/request:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Send a patient login code by SMS
+ *     description: >
+ *       Patients only. Responds the same whether or not the phone number is registered.
+ *       When several patients share the number, the UHID must be given.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [phone]
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "9876543210"
+ *               uhid:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Code sent if the patient exists
+ *       400:
+ *         description: Validation error or UHID required
+ *       429:
+ *         description: Too many codes requested
+ */
+export const otpRequest = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const input = validateRequest(otpRequestSchema, req.body);
+    const result = await patientOtpService.requestCode(input, getClientContext(req));
+    sendSuccess(res, result, 'If a patient is registered with this phone number, a login code has been sent');
+});
+
+/**
+ * @swagger
+ * /api/auth/otp/verify:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Log a patient in with the code sent by SMS
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [phone, code]
+ *             properties:
+ *               phone:
+ *                 type: string
+ *                 example: "9876543210"
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               uhid:
+ *                 type: string
+ *               deviceName:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid or expired code
+ */
+export const otpVerify = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const input = validateRequest(otpVerifySchema, req.body);
+    const result = await patientOtpService.verifyCode(input, getClientContext(req, input.deviceName));
+    sendSuccess(res, result, 'Login successful');
+});
+
+/**
+ * Resolve the user for MFA setup: either a logged-in user (Bearer token)
+ * or someone part-way through login holding an enrollment challenge token.
+ */
+function resolveMfaSetupUser(req: Request, mfaToken?: string): string {
+    if (mfaToken) {
+        return authService.resolveMfaChallenge(mfaToken, 'enroll');
+    }
+
+    if (req.user) {
+        return req.user.userId;
+    }
+
+    throw new UnauthorizedError('Authentication required');
+}
+
+/**
+ * @swagger
+ * /api/auth/mfa/setup:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Start TOTP enrollment
+ *     description: |
+ *       Generates a new authenticator secret and otpauth:// URI (render it as a QR code).
+ *       Authenticate with a Bearer token, or pass the mfaToken returned by login when
+ *       enrollment is mandatory for the role.
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret and provisioning URI
+ *       409:
+ *         description: Two-factor authentication already enabled
+ */
+export const mfaSetup = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const { mfaToken } = validateRequest(mfaSetupSchema, req.body ?? {});
+    const userId = resolveMfaSetupUser(req, mfaToken);
+    const result = await mfaService.createSetup(userId);
+    sendSuccess(res, result, 'Scan the QR code with your authenticator app');
+});
+
+/**
+ * @swagger
+ * /api/auth/mfa/enable:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Confirm TOTP enrollment with a code from the authenticator app
+ *     description: |
+ *       Returns one-time recovery codes (shown only once). When called with an enrollment
+ *       mfaToken the response also contains the user's tokens, completing the login.
+ *     security:
+ *       - bearerAuth: []
+ *       - {}
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *       401:
+ *         description: Invalid code or MFA token
+ */
+export const mfaEnable = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const { mfaToken, code, deviceName } = validateRequest(mfaEnableSchema, req.body);
+    const userId = resolveMfaSetupUser(req, mfaToken);
+    const recoveryCodes = await mfaService.enable(userId, code);
+
+    if (mfaToken) {
+        const session = await authService.completeMfaEnrollment(userId, getClientContext(req, deviceName));
+        sendSuccess(res, { ...session, recoveryCodes }, 'Two-factor authentication enabled');
+        return;
+    }
+
+    sendSuccess(res, { recoveryCodes }, 'Two-factor authentication enabled');
+});
+
+/**
+ * @swagger
+ * /api/auth/mfa/verify:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Complete login with a TOTP or recovery code
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mfaToken]
+ *             properties:
+ *               mfaToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: "a1b2c-3d4e5"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid code or expired MFA token
+ */
+export const mfaVerify = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const input = validateRequest(mfaVerifySchema, req.body);
+    const result = await authService.verifyMfa(input, getClientContext(req, input.deviceName));
+    sendSuccess(res, result, 'Login successful');
+});
+
+/**
+ * @swagger
+ * /api/auth/mfa/recovery-codes:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Replace recovery codes (invalidates the old set)
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       401:
+ *         description: Invalid code
+ */
+export const mfaRecoveryCodes = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const { code } = validateRequest(mfaCodeSchema, req.body);
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user!.userId, code);
+    sendSuccess(res, { recoveryCodes }, 'Recovery codes regenerated');
+});
+
+/**
+ * @swagger
+ * /api/auth/mfa/disable:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Turn off two-factor authentication
+ *     description: Not allowed for roles where two-factor authentication is mandatory.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Two-factor authentication disabled
+ *       403:
+ *         description: Two-factor authentication is mandatory for this role
+ */
+export const mfaDisable = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const { code } = validateRequest(mfaCodeSchema, req.body);
+    await mfaService.disable(req.user!.userId, code);
+    sendNoContent(res);
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     tags: [Auth]
+ *     summary: List devices where the current user is logged in
+ *     description: Each session is one login; `current` marks the session making the request.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ */
+export const getSessions = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    const sessions = await sessionService.listSessions(req.user!.userId, req.user!.sessionId);
+    sendSuccess(res, sessions);
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     tags: [Auth]
+ *     summary: Sign out one device
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+export const revokeSession = asyncHandler(async (
+    req: Request,
+    res: Response,
+    _next: NextFunction
+): Promise<void> => {
+    await sessionService.revokeSession(req.user!.userId, req.params.id as string);
+    sendNoContent(res);
+});
+
 /**
  * @swagger
  * /api/auth/me:
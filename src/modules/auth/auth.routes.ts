@@ -6,9 +6,20 @@ import {
     logout,
     logoutAll,
     changePassword,
+    forgotPassword,
+    resetPassword,
+    otpRequest,
+    otpVerify,
+    mfaSetup,
+    mfaEnable,
+    mfaVerify,
+    mfaRecoveryCodes,
+    mfaDisable,
+    getSessions,
+    revokeSession,
     me,
 } from './auth.controller.js';
-import { authGuard } from '../../middleware/authGuard.js';
+import { authGuard, optionalAuthGuard } from '../../middleware/authGuard.js';
 import { authRateLimiter } from '../../middleware/rateLimiter.js';
 
 const router = Router();
@@ -24,11 +35,26 @@ const router = Router();
 router.post('/register', authRateLimiter, register);
 router.post('/login', authRateLimiter, login);
 router.post('/refresh', authRateLimiter, refreshToken);
+router.post('/forgot-password', authRateLimiter, forgotPassword);
+router.post('/reset-password', authRateLimiter, resetPassword);
+
+// Patient login with a code sent to their phone
+router.post('/otp/request', authRateLimiter, otpRequest);
+router.post('/otp/verify', authRateLimiter, otpVerify);
+
+// Two-factor authentication - setup/enable accept either a Bearer token or an enrollment mfaToken
+router.post('/mfa/setup', authRateLimiter, optionalAuthGuard, mfaSetup);
+router.post('/mfa/enable', authRateLimiter, optionalAuthGuard, mfaEnable);
+router.post('/mfa/verify', authRateLimiter, mfaVerify);
 
 // Protected routes
 router.post('/logout', authGuard, logout);
 router.post('/logout-all', authGuard, logoutAll);
 router.post('/change-password', authGuard, changePassword);
+router.post('/mfa/recovery-codes', authGuard, mfaRecoveryCodes);
+router.post('/mfa/disable', authGuard, mfaDisable);
+router.get('/sessions', authGuard, getSessions);
+router.delete('/sessions/:id', authGuard, revokeSession);
 router.get('/me', authGuard, me);
 
 export default router;
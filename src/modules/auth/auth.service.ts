@@ -1,12 +1,16 @@
 import { prisma } from '../../config/database.js';
 import { config } from '../../config/index.js';
-import { hashPassword, verifyPassword } from '../../utils/crypto.js';
+import { hashPassword, verifyPassword, generateSecureToken, hashToken } from '../../utils/crypto.js';
 import { randomUUID } from 'node:crypto';
 import {
     generateAccessToken,
     generateRefreshToken,
     verifyRefreshToken,
     getRefreshTokenExpiry,
+    parseExpiry,
+    generateMfaChallengeToken,
+    verifyMfaChallengeToken,
+    MfaChallengePurpose,
     TokenPayload,
 } from '../../utils/jwt.js';
 import {
@@ -18,17 +22,30 @@ import {
     DatabaseError,
 } from '../../utils/AppError.js';
 import { logger } from '../../utils/logger.js';
+import { describeUserAgent } from '../../utils/userAgent.js';
+import { emailService } from '../../services/email.service.js';
+import { uhidService } from '../patients/uhid.service.js';
+import { mfaService } from './mfa.service.js';
+import { loginAttemptService } from './loginAttempt.service.js';
 import {
     LoginInput,
     RegisterInput,
     AuthResponse,
     AuthTokens,
     ChangePasswordInput,
+    ForgotPasswordInput,
+    ResetPasswordInput,
+    MfaChallengeResponse,
+    MfaVerifyInput,
+    ClientContext,
 } from './auth.types.js';
-import { UserRole, Gender } from '@prisma/client';
+import { UserRole, Gender, User } from '@prisma/client';
+
+// Second-factor rejections that count as a failed login attempt
+const MFA_CODE_ERRORS = ['AUTH_MFA_INVALID_CODE', 'AUTH_MFA_INVALID_RECOVERY_CODE'];
 
 export class AuthService {
-    async register(input: RegisterInput): Promise<AuthResponse> {
+    async register(input: RegisterInput, context: ClientContext = {}): Promise<AuthResponse | MfaChallengeResponse> {
         // Prevent Admin registration via public API
         if (input.role === UserRole.ADMIN) {
             throw new UnauthorizedError('Admin registration is not allowed');
@@ -86,7 +103,7 @@ export class AuthService {
                 } else {
                     await tx.patient.create({
                         data: {
-                            uhid: randomUUID(),
+                            uhid: await uhidService.next(tx),
                             userId: newUser.id,
                             firstName: input.firstName,
                             lastName: input.lastName,
@@ -112,24 +129,17 @@ export class AuthService {
             return newUser;
         });
 
-        // Generate tokens
-        const tokens = await this.generateTokens({
-            userId: user.id,
-            email: user.email,
-            role: user.role,
-        });
+        // Roles that require TOTP have to enroll before they get tokens
+        const challenge = this.createMfaChallenge(user);
+        if (challenge) {
+            return challenge;
+        }
 
-        return {
-            user: {
-                id: user.id,
-                email: user.email,
-                role: user.role,
-            },
-            tokens,
-        };
+        // Generate tokens
+        return this.createSession(user, context);
     }
 
-    async login(input: LoginInput): Promise<AuthResponse> {
+    async login(input: LoginInput, context: ClientContext = {}): Promise<AuthResponse | MfaChallengeResponse> {
         try {
             // Safely query user - wrapped in try-catch
             let user;
@@ -146,12 +156,16 @@ export class AuthService {
             // Use generic "Invalid credentials" message for both cases
             if (!user) {
                 logger.warn({ email: input.email }, 'Login attempt for non-existent user');
+                await loginAttemptService.record(input.email, null, false, 'UNKNOWN_EMAIL', context);
                 throw new InvalidCredentialsError('Invalid email');
             }
 
+            await this.assertNotLocked(user, context);
+
             // Check if account is active
             if (user.status !== 'ACTIVE') {
                 logger.warn({ userId: user.id, status: user.status }, 'Login attempt for inactive account');
+                await loginAttemptService.record(user.email, user.id, false, 'ACCOUNT_DISABLED', context);
                 throw new UnauthorizedError(
                     'Account is disabled. Please contact administrator.',
                     'AUTH_ACCOUNT_DISABLED'
@@ -169,9 +183,21 @@ export class AuthService {
 
             if (!isValidPassword) {
                 logger.warn({ userId: user.id }, 'Failed login - invalid password');
+                await loginAttemptService.registerFailure(user, context);
                 throw new InvalidCredentialsError('Invalid password');
             }
 
+            // Second factor: no tokens until TOTP is verified (or enrolled, for mandatory roles).
+            // Failure counters are only reset once the second factor succeeds.
+            const challenge = this.createMfaChallenge(user);
+            if (challenge) {
+                await loginAttemptService.record(user.email, user.id, true, 'MFA_REQUIRED', context);
+                logger.info({ userId: user.id, enrollment: challenge.mfaEnrollmentRequired }, 'Password verified - second factor required');
+                return challenge;
+            }
+
+            await loginAttemptService.registerSuccess(user, 'SUCCESS', context);
+
             // Generate tokens - wrapped in try-catch
             let tokens: AuthTokens;
             try {
@@ -179,7 +205,7 @@ export class AuthService {
                     userId: user.id,
                     email: user.email,
                     role: user.role,
-                });
+                }, randomUUID(), context);
             } catch (tokenError) {
                 logger.error({ error: tokenError, userId: user.id }, 'Error generating tokens');
                 throw new DatabaseError('Unable to complete login');
@@ -208,7 +234,113 @@ export class AuthService {
         }
     }
 
-    async refreshToken(refreshToken: string): Promise<AuthTokens> {
+    /**
+     * Second step of login: exchange the MFA challenge token plus a TOTP or recovery code for tokens.
+     */
+    async verifyMfa(input: MfaVerifyInput, context: ClientContext = {}): Promise<AuthResponse> {
+        const userId = this.resolveMfaChallenge(input.mfaToken, 'verify');
+        const user = await this.getActiveUser(userId);
+        await this.assertNotLocked(user, context);
+
+        try {
+            await mfaService.verifySecondFactor(userId, input);
+        } catch (error) {
+            // Wrong codes count towards the same lockout as wrong passwords
+            if (error instanceof UnauthorizedError && MFA_CODE_ERRORS.includes(error.code)) {
+                await loginAttemptService.registerFailure(user, context, 'INVALID_MFA_CODE');
+            }
+            throw error;
+        }
+
+        await loginAttemptService.registerSuccess(user, 'SUCCESS', context);
+        const response = await this.createSession(user, context);
+        logger.info({ userId, role: response.user.role }, 'User logged in successfully (two-factor)');
+
+        return response;
+    }
+
+    /**
+     * Finish a login whose mandatory second factor was just enrolled.
+     */
+    async completeMfaEnrollment(userId: string, context: ClientContext = {}): Promise<AuthResponse> {
+        const user = await this.getActiveUser(userId);
+        await loginAttemptService.registerSuccess(user, 'SUCCESS', context);
+
+        return this.createSession(user, context);
+    }
+
+    /**
+     * Refuse a login step (password, second factor or phone code) while the account is locked out
+     */
+    async assertNotLocked(user: User, context: ClientContext): Promise<void> {
+        if (!loginAttemptService.isLocked(user)) return;
+
+        logger.warn({ userId: user.id, lockedUntil: user.lockedUntil }, 'Login attempt for locked account');
+        await loginAttemptService.record(user.email, user.id, false, 'ACCOUNT_LOCKED', context);
+        throw new UnauthorizedError(
+            'Account is temporarily locked after too many failed login attempts. Please try again later or reset your password.',
+            'AUTH_ACCOUNT_LOCKED'
+        );
+    }
+
+    /**
+     * Validate an MFA challenge token and return the user it was issued for.
+     */
+    resolveMfaChallenge(mfaToken: string, purpose: MfaChallengePurpose): string {
+        let payload;
+        try {
+            payload = verifyMfaChallengeToken(mfaToken);
+        } catch {
+            throw new TokenError('Invalid or expired MFA token', 'AUTH_MFA_TOKEN_INVALID');
+        }
+
+        if (payload.purpose !== purpose) {
+            throw new TokenError('Invalid or expired MFA token', 'AUTH_MFA_TOKEN_INVALID');
+        }
+
+        return payload.userId;
+    }
+
+    /**
+     * Issue tokens for a user who has completed every required login step.
+     */
+    async createSession(user: Pick<User, 'id' | 'email' | 'role'>, context: ClientContext = {}): Promise<AuthResponse> {
+        const tokens = await this.generateTokens({
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+        }, randomUUID(), context);
+
+        return {
+            user: {
+                id: user.id,
+                email: user.email,
+                role: user.role,
+            },
+            tokens,
+        };
+    }
+
+    async getActiveUser(userId: string): Promise<User> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+        });
+
+        if (!user) {
+            throw new UnauthorizedError('User not found');
+        }
+
+        if (user.status !== 'ACTIVE') {
+            throw new UnauthorizedError(
+                'Account is disabled. Please contact administrator.',
+                'AUTH_ACCOUNT_DISABLED'
+            );
+        }
+
+        return user;
+    }
+
+    async refreshToken(refreshToken: string, context: ClientContext = {}): Promise<AuthTokens> {
         // Verify refresh token
         let decoded: TokenPayload;
         try {
@@ -219,7 +351,7 @@ export class AuthService {
 
         // Check if token exists in database
         const storedToken = await prisma.refreshToken.findUnique({
-            where: { token: refreshToken },
+            where: { tokenHash: hashToken(refreshToken) },
             include: { user: true },
         });
 
@@ -227,6 +359,20 @@ export class AuthService {
             throw new UnauthorizedError('Refresh token not found');
         }
 
+        if (storedToken.revokedAt) {
+            logger.warn({
+                event: 'REFRESH_TOKEN_REVOKED_USE',
+                userId: storedToken.userId,
+                familyId: storedToken.familyId,
+            }, 'Security event: revoked refresh token presented');
+            throw new UnauthorizedError('Refresh token has been revoked', 'AUTH_REFRESH_TOKEN_REVOKED');
+        }
+
+        // A token that was already rotated must never come back - treat it as stolen
+        if (storedToken.rotatedAt) {
+            await this.handleRefreshTokenReuse(storedToken.userId, storedToken.familyId);
+        }
+
         if (storedToken.expiresAt < new Date()) {
             await prisma.refreshToken.delete({ where: { id: storedToken.id } });
             throw new UnauthorizedError('Refresh token expired');
@@ -236,20 +382,40 @@ export class AuthService {
             throw new UnauthorizedError('Account is disabled');
         }
 
-        // Delete old token
-        await prisma.refreshToken.delete({ where: { id: storedToken.id } });
+        // Consume the old token; if a concurrent request got there first this matches zero rows
+        const consumed = await prisma.refreshToken.updateMany({
+            where: { id: storedToken.id, rotatedAt: null, revokedAt: null },
+            data: { rotatedAt: new Date() },
+        });
+
+        if (consumed.count === 0) {
+            await this.handleRefreshTokenReuse(storedToken.userId, storedToken.familyId);
+        }
 
-        // Generate new tokens
+        // Generate new tokens in the same family, keeping the device label chosen at login
         return this.generateTokens({
             userId: decoded.userId,
             email: decoded.email,
             role: decoded.role,
+        }, storedToken.familyId, {
+            ...context,
+            deviceName: storedToken.deviceName ?? context.deviceName,
         });
     }
 
     async logout(refreshToken: string): Promise<void> {
+        const storedToken = await prisma.refreshToken.findUnique({
+            where: { tokenHash: hashToken(refreshToken) },
+            select: { familyId: true },
+        });
+
+        if (!storedToken) {
+            return;
+        }
+
+        // Drop the whole family so earlier rotated tokens of this session go too
         await prisma.refreshToken.deleteMany({
-            where: { token: refreshToken },
+            where: { familyId: storedToken.familyId },
         });
     }
 
@@ -285,16 +451,165 @@ export class AuthService {
         await this.logoutAll(userId);
     }
 
-    private async generateTokens(payload: TokenPayload): Promise<AuthTokens> {
-        const accessToken = generateAccessToken(payload);
+    /**
+     * Issue a single-use password reset token for a user.
+     * Only the SHA-256 hash is stored; the raw token is returned for the email link.
+     */
+    async createPasswordResetToken(userId: string, expiry: string = config.passwordReset.tokenExpiry): Promise<string> {
+        const token = generateSecureToken();
+
+        await prisma.passwordResetToken.create({
+            data: {
+                userId,
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + parseExpiry(expiry) * 1000),
+            },
+        });
+
+        return token;
+    }
+
+    async forgotPassword(input: ForgotPasswordInput): Promise<void> {
+        const user = await prisma.user.findUnique({
+            where: { email: input.email },
+        });
+
+        // Don't reveal whether the email exists - respond the same either way
+        if (!user || user.status === 'DISABLED') {
+            logger.warn({ email: input.email }, 'Password reset requested for unknown or disabled account');
+            return;
+        }
+
+        // Only the most recent link should work
+        await prisma.passwordResetToken.deleteMany({
+            where: { userId: user.id, usedAt: null },
+        });
+
+        const token = await this.createPasswordResetToken(user.id);
+
+        emailService.sendPasswordResetEmail(user.email, token)
+            .catch(err => logger.error({ error: err, userId: user.id }, 'Failed to send password reset email'));
+
+        logger.info({ userId: user.id }, 'Password reset token issued');
+    }
+
+    async resetPassword(input: ResetPasswordInput): Promise<void> {
+        const storedToken = await prisma.passwordResetToken.findUnique({
+            where: { tokenHash: hashToken(input.token) },
+            include: { user: true },
+        });
+
+        if (!storedToken || storedToken.usedAt) {
+            throw new TokenError('Invalid or already used reset token', 'AUTH_RESET_TOKEN_INVALID');
+        }
+
+        if (storedToken.expiresAt < new Date()) {
+            throw new TokenError('Reset token has expired', 'AUTH_RESET_TOKEN_EXPIRED');
+        }
+
+        if (storedToken.user.status === 'DISABLED') {
+            throw new UnauthorizedError(
+                'Account is disabled. Please contact administrator.',
+                'AUTH_ACCOUNT_DISABLED'
+            );
+        }
+
+        const passwordHash = await hashPassword(input.newPassword);
+
+        await prisma.$transaction(async (tx) => {
+            // Claim the token; a concurrent request that already used it will match zero rows
+            const claimed = await tx.passwordResetToken.updateMany({
+                where: { id: storedToken.id, usedAt: null },
+                data: { usedAt: new Date() },
+            });
+
+            if (claimed.count === 0) {
+                throw new TokenError('Invalid or already used reset token', 'AUTH_RESET_TOKEN_INVALID');
+            }
+
+            await tx.user.update({
+                where: { id: storedToken.userId },
+                data: { passwordHash },
+            });
+
+            // Revoke any other outstanding reset links
+            await tx.passwordResetToken.deleteMany({
+                where: { userId: storedToken.userId, usedAt: null },
+            });
+
+            // Sign out every existing session
+            await tx.refreshToken.deleteMany({
+                where: { userId: storedToken.userId },
+            });
+        });
+
+        // Proving control of the mailbox also lifts a lockout
+        await loginAttemptService.unlock(storedToken.userId);
+
+        logger.info({ userId: storedToken.userId }, 'Password reset completed');
+    }
+
+    private createMfaChallenge(user: User): MfaChallengeResponse | null {
+        const enrollmentRequired = !user.totpEnabled && mfaService.isRequiredForRole(user.role);
+
+        if (!user.totpEnabled && !enrollmentRequired) {
+            return null;
+        }
+
+        return {
+            user: {
+                id: user.id,
+                email: user.email,
+                role: user.role,
+            },
+            mfaRequired: true,
+            mfaEnrollmentRequired: enrollmentRequired,
+            mfaToken: generateMfaChallengeToken({
+                userId: user.id,
+                purpose: enrollmentRequired ? 'enroll' : 'verify',
+            }),
+            expiresIn: config.mfa.challengeExpiry,
+        };
+    }
+
+    /**
+     * Revoke every token in a family after a rotated token was replayed, then reject the request.
+     */
+    private async handleRefreshTokenReuse(userId: string, familyId: string): Promise<never> {
+        const revoked = await prisma.refreshToken.updateMany({
+            where: { familyId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+
+        logger.warn({
+            event: 'REFRESH_TOKEN_REUSE',
+            userId,
+            familyId,
+            revokedCount: revoked.count,
+        }, 'Security event: refresh token reuse detected - token family revoked');
+
+        throw new UnauthorizedError('Refresh token reuse detected. Please log in again.', 'AUTH_REFRESH_TOKEN_REUSED');
+    }
+
+    private async generateTokens(
+        payload: TokenPayload,
+        familyId: string = randomUUID(),
+        context: ClientContext = {}
+    ): Promise<AuthTokens> {
+        const accessToken = generateAccessToken({ ...payload, sessionId: familyId });
         const refreshToken = generateRefreshToken(payload);
 
-        // Store refresh token in database
+        // Store only the hash of the refresh token
         await prisma.refreshToken.create({
             data: {
-                token: refreshToken,
+                tokenHash: hashToken(refreshToken),
+                familyId,
                 userId: payload.userId,
                 expiresAt: getRefreshTokenExpiry(),
+                deviceName: context.deviceName ?? describeUserAgent(context.userAgent),
+                ipAddress: context.ipAddress,
+                userAgent: context.userAgent?.slice(0, 512),
+                lastUsedAt: new Date(),
             },
         });
 
@@ -1,9 +1,13 @@
 import { z } from 'zod';
 import { UserRole } from '@prisma/client';
 
+// Optional label for the session list, e.g. "Reception PC"
+const deviceNameSchema = z.string().trim().min(1).max(100).optional();
+
 export const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
     password: z.string().min(6, 'Password must be at least 6 characters'),
+    deviceName: deviceNameSchema,
 });
 
 export const registerSchema = z.object({
@@ -31,10 +35,75 @@ export const changePasswordSchema = z.object({
         .regex(/[0-9]/, 'Password must contain at least one number'),
 });
 
+export const forgotPasswordSchema = z.object({
+    email: z.string().email('Invalid email address'),
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1, 'Reset token is required'),
+    newPassword: z.string().min(8, 'Password must be at least 8 characters')
+        .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+        .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
+        .regex(/[0-9]/, 'Password must contain at least one number'),
+});
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const mfaSetupSchema = z.object({
+    // Required when enrolling straight after login (no access token yet)
+    mfaToken: z.string().min(1).optional(),
+});
+
+export const mfaEnableSchema = z.object({
+    mfaToken: z.string().min(1).optional(),
+    code: totpCodeSchema,
+    deviceName: deviceNameSchema,
+});
+
+export const mfaVerifySchema = z.object({
+    mfaToken: z.string().min(1, 'MFA token is required'),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().min(1).optional(),
+    deviceName: deviceNameSchema,
+}).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    message: 'Provide either an authenticator code or a recovery code',
+    path: ['code'],
+});
+
+export const mfaCodeSchema = z.object({
+    code: totpCodeSchema,
+});
+
+// Spaces, dashes and brackets are tolerated; stored numbers are digits with an optional leading +
+const phoneSchema = z.string()
+    .transform(value => value.replace(/[\s\-()]/g, ''))
+    .pipe(z.string().regex(/^\+?\d{10,15}$/, 'Invalid phone number'));
+
+export const otpRequestSchema = z.object({
+    phone: phoneSchema,
+    // Needed only when several patients share the phone number (e.g. a family)
+    uhid: z.string().min(1).optional(),
+});
+
+export const otpVerifySchema = z.object({
+    phone: phoneSchema,
+    code: z.string().regex(/^\d+$/, 'Code must be numeric'),
+    uhid: z.string().min(1).optional(),
+    deviceName: deviceNameSchema,
+});
+
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type MfaSetupInput = z.infer<typeof mfaSetupSchema>;
+export type MfaEnableInput = z.infer<typeof mfaEnableSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+export type OtpRequestInput = z.infer<typeof otpRequestSchema>;
+export type OtpVerifyInput = z.infer<typeof otpVerifySchema>;
 
 export interface AuthTokens {
     accessToken: string;
@@ -50,3 +119,43 @@ export interface AuthResponse {
     };
     tokens: AuthTokens;
 }
+
+/**
+ * Returned by login/register instead of tokens when a second factor is still outstanding.
+ * mfaEnrollmentRequired means the role requires TOTP but the user has not set it up yet.
+ */
+export interface MfaChallengeResponse {
+    user: AuthResponse['user'];
+    mfaRequired: true;
+    mfaEnrollmentRequired: boolean;
+    mfaToken: string;
+    expiresIn: string;
+}
+
+export interface OtpRequestResponse {
+    expiresIn: string;
+}
+
+export interface MfaSetupResponse {
+    secret: string;
+    otpauthUrl: string;
+}
+
+/**
+ * Where a request came from - recorded against login attempts and sessions
+ */
+export interface ClientContext {
+    ipAddress?: string;
+    userAgent?: string;
+    deviceName?: string;
+}
+
+export interface SessionInfo {
+    id: string;
+    deviceName: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    current: boolean;
+}
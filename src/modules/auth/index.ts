@@ -1,3 +1,5 @@
 export { default as authRoutes } from './auth.routes.js';
 export { authService } from './auth.service.js';
+export { mfaService } from './mfa.service.js';
+export { sessionService } from './session.service.js';
 export * from './auth.types.js';
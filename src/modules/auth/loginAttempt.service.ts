@@ -0,0 +1,113 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { parseExpiry } from '../../utils/jwt.js';
+import { logger } from '../../utils/logger.js';
+import { LoginAttemptReason, User } from '@prisma/client';
+import { ClientContext } from './auth.types.js';
+
+export class LoginAttemptService {
+    /**
+     * Persist one login attempt. Never throws - a logging failure must not block a login.
+     */
+    async record(
+        email: string,
+        userId: string | null,
+        success: boolean,
+        reason: LoginAttemptReason,
+        context: ClientContext = {}
+    ): Promise<void> {
+        try {
+            await prisma.loginAttempt.create({
+                data: {
+                    email,
+                    userId,
+                    success,
+                    reason,
+                    ipAddress: context.ipAddress,
+                    userAgent: context.userAgent?.slice(0, 512),
+                },
+            });
+        } catch (error) {
+            logger.error({ error, email, reason }, 'Failed to record login attempt');
+        }
+    }
+
+    /**
+     * A lockout only blocks new logins; it leaves the account status and
+     * existing sessions alone, and lifts on its own once lockedUntil passes.
+     */
+    isLocked(user: Pick<User, 'lockedUntil'>): boolean {
+        return !!user.lockedUntil && user.lockedUntil > new Date();
+    }
+
+    /**
+     * Count a failed password or second-factor code for the account and lock it once
+     * the threshold is hit. Each consecutive lockout doubles in length, capped at
+     * config.lockout.maxDuration.
+     */
+    async registerFailure(
+        user: User,
+        context: ClientContext = {},
+        reason: LoginAttemptReason = 'INVALID_PASSWORD'
+    ): Promise<void> {
+        await this.record(user.email, user.id, false, reason, context);
+
+        const updated = await prisma.user.update({
+            where: { id: user.id },
+            data: { failedLoginCount: { increment: 1 } },
+        });
+
+        if (updated.failedLoginCount < config.lockout.maxFailedAttempts) {
+            return;
+        }
+
+        const baseSeconds = parseExpiry(config.lockout.baseDuration);
+        const maxSeconds = parseExpiry(config.lockout.maxDuration);
+        const durationSeconds = Math.min(baseSeconds * 2 ** updated.lockoutCount, maxSeconds);
+        const lockedUntil = new Date(Date.now() + durationSeconds * 1000);
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                lockedUntil,
+                failedLoginCount: 0,
+                lockoutCount: { increment: 1 },
+            },
+        });
+
+        logger.warn({
+            event: 'ACCOUNT_LOCKED',
+            userId: user.id,
+            lockoutCount: updated.lockoutCount + 1,
+            lockedUntil,
+            ipAddress: context.ipAddress,
+        }, 'Security event: account locked after repeated failed logins');
+    }
+
+    async registerSuccess(user: User, reason: LoginAttemptReason, context: ClientContext = {}): Promise<void> {
+        await this.record(user.email, user.id, true, reason, context);
+
+        if (user.failedLoginCount > 0 || user.lockoutCount > 0) {
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { failedLoginCount: 0, lockoutCount: 0 },
+            });
+        }
+    }
+
+    /**
+     * Clear a lockout (admin action or completed password reset).
+     */
+    async unlock(userId: string): Promise<void> {
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                failedLoginCount: 0,
+                lockoutCount: 0,
+                lockedUntil: null,
+            },
+        });
+    }
+}
+
+export const loginAttemptService = new LoginAttemptService();
@@ -0,0 +1,213 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { encryptSecret, decryptSecret, hashToken } from '../../utils/crypto.js';
+import { generateTotpSecret, verifyTotp, buildTotpUri } from '../../utils/totp.js';
+import {
+    ConflictError,
+    ForbiddenError,
+    NotFoundError,
+    UnauthorizedError,
+    ValidationError,
+} from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { randomBytes } from 'node:crypto';
+import { MfaSetupResponse } from './auth.types.js';
+import { Prisma } from '@prisma/client';
+
+export class MfaService {
+    isRequiredForRole(role: string): boolean {
+        return config.mfa.requiredRoles.includes(role);
+    }
+
+    /**
+     * Generate a fresh (not yet active) TOTP secret for the user.
+     * Calling it again before enabling simply replaces the pending secret.
+     */
+    async createSetup(userId: string): Promise<MfaSetupResponse> {
+        const user = await this.getUser(userId);
+
+        if (user.totpEnabled) {
+            throw new ConflictError('Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                totpSecret: encryptSecret(secret),
+                totpLastUsedStep: null,
+            },
+        });
+
+        return {
+            secret,
+            otpauthUrl: buildTotpUri(secret, user.email, config.mfa.issuer),
+        };
+    }
+
+    /**
+     * Confirm the pending secret with a code from the app and switch TOTP on.
+     * Returns the plain recovery codes - they are only ever shown this once.
+     */
+    async enable(userId: string, code: string): Promise<string[]> {
+        const user = await this.getUser(userId);
+
+        if (user.totpEnabled) {
+            throw new ConflictError('Two-factor authentication is already enabled');
+        }
+
+        if (!user.totpSecret) {
+            throw new ValidationError('Start two-factor setup before enabling it');
+        }
+
+        await this.verifyTotpCode(user.id, user.totpSecret, user.totpLastUsedStep, code);
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                totpEnabled: true,
+                totpEnabledAt: new Date(),
+                totpRecoveryCodes: recoveryCodes.map(c => hashToken(this.normalizeRecoveryCode(c))),
+            },
+        });
+
+        logger.info({ userId }, 'Two-factor authentication enabled');
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Check the second factor for a user that has TOTP enabled.
+     * Accepts either a current authenticator code or an unused recovery code.
+     */
+    async verifySecondFactor(userId: string, input: { code?: string; recoveryCode?: string }): Promise<void> {
+        const user = await this.getUser(userId);
+
+        if (!user.totpEnabled || !user.totpSecret) {
+            throw new UnauthorizedError('Two-factor authentication is not enabled', 'AUTH_MFA_NOT_ENABLED');
+        }
+
+        if (input.recoveryCode) {
+            await this.consumeRecoveryCode(user.id, input.recoveryCode);
+            return;
+        }
+
+        await this.verifyTotpCode(user.id, user.totpSecret, user.totpLastUsedStep, input.code ?? '');
+    }
+
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+        await this.verifySecondFactor(userId, { code });
+
+        const recoveryCodes = this.generateRecoveryCodes();
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                totpRecoveryCodes: recoveryCodes.map(c => hashToken(this.normalizeRecoveryCode(c))),
+            },
+        });
+
+        logger.info({ userId }, 'Two-factor recovery codes regenerated');
+
+        return recoveryCodes;
+    }
+
+    async disable(userId: string, code: string): Promise<void> {
+        const user = await this.getUser(userId);
+
+        if (this.isRequiredForRole(user.role)) {
+            throw new ForbiddenError('Two-factor authentication is mandatory for your role');
+        }
+
+        await this.verifySecondFactor(userId, { code });
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                totpSecret: null,
+                totpEnabled: false,
+                totpEnabledAt: null,
+                totpLastUsedStep: null,
+                totpRecoveryCodes: [],
+            },
+        });
+
+        logger.info({ userId }, 'Two-factor authentication disabled');
+    }
+
+    private async verifyTotpCode(
+        userId: string,
+        encryptedSecret: string,
+        lastUsedStep: number | null,
+        code: string
+    ): Promise<void> {
+        const step = verifyTotp(decryptSecret(encryptedSecret), code);
+
+        if (step === null || (lastUsedStep !== null && step <= lastUsedStep)) {
+            logger.warn({ userId }, 'Invalid two-factor code');
+            throw new UnauthorizedError('Invalid authentication code', 'AUTH_MFA_INVALID_CODE');
+        }
+
+        // Remember the step so the same code cannot be replayed within its window
+        const claimed = await prisma.user.updateMany({
+            where: {
+                id: userId,
+                OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+            },
+            data: { totpLastUsedStep: step },
+        });
+
+        if (claimed.count === 0) {
+            throw new UnauthorizedError('Invalid authentication code', 'AUTH_MFA_INVALID_CODE');
+        }
+    }
+
+    private async consumeRecoveryCode(userId: string, recoveryCode: string): Promise<void> {
+        const codeHash = hashToken(this.normalizeRecoveryCode(recoveryCode));
+
+        // Removed in one statement, so concurrent requests cannot both use a code
+        // or write back a code another request has just used
+        const consumed = await prisma.$queryRaw<{ remaining: number }[]>(Prisma.sql`
+            UPDATE users
+            SET totp_recovery_codes = array_remove(totp_recovery_codes, ${codeHash}),
+                updated_at = NOW()
+            WHERE id = ${userId} AND ${codeHash} = ANY(totp_recovery_codes)
+            RETURNING cardinality(totp_recovery_codes) AS remaining
+        `);
+
+        if (consumed.length === 0) {
+            logger.warn({ userId }, 'Invalid two-factor recovery code');
+            throw new UnauthorizedError('Invalid recovery code', 'AUTH_MFA_INVALID_RECOVERY_CODE');
+        }
+
+        logger.warn({ userId, remainingCodes: consumed[0].remaining }, 'Two-factor recovery code used');
+    }
+
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: config.mfa.recoveryCodeCount }, () => {
+            const raw = randomBytes(5).toString('hex');
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        });
+    }
+
+    private normalizeRecoveryCode(code: string): string {
+        return code.replace(/[\s-]/g, '').toLowerCase();
+    }
+
+    private async getUser(userId: string) {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+        });
+
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+
+        return user;
+    }
+}
+
+export const mfaService = new MfaService();
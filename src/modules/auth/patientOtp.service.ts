@@ -0,0 +1,218 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { hashPassword, generateSecureToken, hashToken } from '../../utils/crypto.js';
+import { parseExpiry } from '../../utils/jwt.js';
+import {
+    RateLimitError,
+    ServiceUnavailableError,
+    UnauthorizedError,
+} from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { smsService } from '../../services/sms.service.js';
+import { authService } from './auth.service.js';
+import { loginAttemptService } from './loginAttempt.service.js';
+import { randomInt } from 'node:crypto';
+import { Patient, User } from '@prisma/client';
+import {
+    AuthResponse,
+    ClientContext,
+    OtpRequestInput,
+    OtpRequestResponse,
+    OtpVerifyInput,
+} from './auth.types.js';
+
+// Patients without an email get a login on this reserved (undeliverable) domain
+const PLACEHOLDER_EMAIL_DOMAIN = 'patients.invalid';
+
+export class PatientOtpService {
+    /**
+     * Send a login code to a patient's phone. Unknown numbers, and numbers shared
+     * by several patients when no UHID is given, get the same response and the
+     * same rate limits as known ones so that registered phones cannot be discovered.
+     */
+    async requestCode(input: OtpRequestInput, context: ClientContext = {}): Promise<OtpRequestResponse> {
+        const response = { expiresIn: config.otp.expiry };
+
+        await this.enforceRateLimit(input.phone);
+
+        const patients = await prisma.patient.findMany({
+            where: { phone: input.phone, ...(input.uhid && { uhid: input.uhid }) },
+            include: { user: true },
+        });
+
+        if (patients.length !== 1) {
+            logger.warn(
+                { phone: input.phone, matches: patients.length },
+                patients.length === 0
+                    ? 'Login code requested for unknown phone number'
+                    : 'Login code requested for a shared phone number without a UHID'
+            );
+            await this.recordUnsentRequest(input.phone, context);
+            return response;
+        }
+
+        const [patient] = patients;
+
+        if (patient.user && (patient.user.status === 'DISABLED' || patient.user.role !== 'PATIENT')) {
+            logger.warn({ uhid: patient.uhid }, 'Login code requested for a disabled or non-patient account');
+            await this.recordUnsentRequest(input.phone, context);
+            return response;
+        }
+
+        // Only the newest code should work
+        await prisma.phoneOtp.updateMany({
+            where: { phone: input.phone, consumedAt: null, expiresAt: { gt: new Date() } },
+            data: { expiresAt: new Date() },
+        });
+
+        const code = randomInt(0, 10 ** config.otp.length).toString().padStart(config.otp.length, '0');
+        const expirySeconds = parseExpiry(config.otp.expiry);
+
+        await prisma.phoneOtp.create({
+            data: {
+                phone: input.phone,
+                patientId: patient.uhid,
+                codeHash: hashToken(code),
+                expiresAt: new Date(Date.now() + expirySeconds * 1000),
+                ipAddress: context.ipAddress,
+            },
+        });
+
+        try {
+            await smsService.sendLoginOtp(input.phone, code, Math.ceil(expirySeconds / 60));
+        } catch (error) {
+            logger.error({ error, uhid: patient.uhid }, 'Failed to send login code');
+            throw new ServiceUnavailableError('Unable to send the verification code. Please try again later.');
+        }
+
+        logger.info({ uhid: patient.uhid }, 'Login code sent');
+
+        return response;
+    }
+
+    /**
+     * Exchange a valid code for the normal access/refresh tokens.
+     * Patients logging in for the first time get a PATIENT user account.
+     */
+    async verifyCode(input: OtpVerifyInput, context: ClientContext = {}): Promise<AuthResponse> {
+        const otp = await prisma.phoneOtp.findFirst({
+            where: {
+                phone: input.phone,
+                consumedAt: null,
+                expiresAt: { gt: new Date() },
+                patientId: input.uhid ?? { not: null },
+            },
+            orderBy: { createdAt: 'desc' },
+            include: { patient: { include: { user: true } } },
+        });
+
+        if (!otp?.patient) {
+            await loginAttemptService.record(input.phone, null, false, 'INVALID_OTP', context);
+            throw new UnauthorizedError('Invalid or expired code', 'AUTH_OTP_INVALID');
+        }
+
+        // A locked-out account gets no new session by phone either
+        if (otp.patient.user) {
+            await authService.assertNotLocked(otp.patient.user, context);
+        }
+
+        // Take one of the code's guesses before comparing, so parallel requests cannot share one
+        const attempt = await prisma.phoneOtp.updateMany({
+            where: { id: otp.id, consumedAt: null, attempts: { lt: config.otp.maxAttempts } },
+            data: { attempts: { increment: 1 } },
+        });
+
+        if (attempt.count === 0) {
+            await loginAttemptService.record(input.phone, otp.patient.userId, false, 'INVALID_OTP', context);
+            throw new UnauthorizedError('Invalid or expired code', 'AUTH_OTP_INVALID');
+        }
+
+        if (otp.codeHash !== hashToken(input.code)) {
+            await loginAttemptService.record(input.phone, otp.patient.userId, false, 'INVALID_OTP', context);
+            logger.warn({ uhid: otp.patientId, attempts: otp.attempts + 1 }, 'Invalid login code');
+            throw new UnauthorizedError('Invalid or expired code', 'AUTH_OTP_INVALID');
+        }
+
+        // Claim the code; a concurrent request that already used it will match zero rows
+        const claimed = await prisma.phoneOtp.updateMany({
+            where: { id: otp.id, consumedAt: null },
+            data: { consumedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+            throw new UnauthorizedError('Invalid or expired code', 'AUTH_OTP_INVALID');
+        }
+
+        const user = otp.patient.user
+            ? await authService.getActiveUser(otp.patient.user.id)
+            : await this.provisionUser(otp.patient);
+
+        await loginAttemptService.record(input.phone, user.id, true, 'SUCCESS', context);
+
+        const response = await authService.createSession(user, context);
+        logger.info({ userId: user.id, uhid: otp.patientId }, 'Patient logged in with phone code');
+
+        return response;
+    }
+
+    /**
+     * Keep a request that sent no code, so it counts towards the phone's rate limit
+     */
+    private async recordUnsentRequest(phone: string, context: ClientContext): Promise<void> {
+        await prisma.phoneOtp.create({
+            data: { phone, expiresAt: new Date(), ipAddress: context.ipAddress },
+        });
+    }
+
+    private async enforceRateLimit(phone: string): Promise<void> {
+        const now = Date.now();
+
+        const [latest, lastHour] = await Promise.all([
+            prisma.phoneOtp.findFirst({
+                where: { phone },
+                orderBy: { createdAt: 'desc' },
+                select: { createdAt: true },
+            }),
+            prisma.phoneOtp.count({
+                where: { phone, createdAt: { gte: new Date(now - 3600 * 1000) } },
+            }),
+        ]);
+
+        if (latest && now - latest.createdAt.getTime() < parseExpiry(config.otp.resendInterval) * 1000) {
+            throw new RateLimitError('Please wait before requesting another code');
+        }
+
+        if (lastHour >= config.otp.maxPerHour) {
+            throw new RateLimitError('Too many codes requested for this phone number. Please try again later.');
+        }
+    }
+
+    /**
+     * Create the PATIENT login for a walk-in patient. The password is random and
+     * never shared - the patient can set one later through "forgot password".
+     */
+    private async provisionUser(patient: Patient): Promise<User> {
+        const emailTaken = patient.email
+            ? await prisma.user.findUnique({ where: { email: patient.email } })
+            : null;
+        const email = patient.email && !emailTaken
+            ? patient.email
+            : `${patient.uhid.toLowerCase()}@${PLACEHOLDER_EMAIL_DOMAIN}`;
+
+        const user = await prisma.user.create({
+            data: {
+                email,
+                passwordHash: await hashPassword(generateSecureToken()),
+                role: 'PATIENT',
+                status: 'ACTIVE',
+                patient: { connect: { uhid: patient.uhid } },
+            },
+        });
+
+        logger.info({ userId: user.id, uhid: patient.uhid }, 'Patient account created on first phone login');
+
+        return user;
+    }
+}
+
+export const patientOtpService = new PatientOtpService();
@@ -0,0 +1,47 @@
+import { prisma } from '../../config/database.js';
+import { NotFoundError } from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { SessionInfo } from './auth.types.js';
+
+/**
+ * A session is one refresh token family: it starts at login and survives rotation.
+ * Its ID is the family ID, so it stays stable while the underlying tokens change.
+ */
+export class SessionService {
+    async listSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+        // Only the latest token of each family is live (not rotated, not revoked)
+        const tokens = await prisma.refreshToken.findMany({
+            where: {
+                userId,
+                rotatedAt: null,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            orderBy: { lastUsedAt: 'desc' },
+        });
+
+        return tokens.map(token => ({
+            id: token.familyId,
+            deviceName: token.deviceName,
+            ipAddress: token.ipAddress,
+            userAgent: token.userAgent,
+            lastUsedAt: token.lastUsedAt,
+            expiresAt: token.expiresAt,
+            current: token.familyId === currentSessionId,
+        }));
+    }
+
+    async revokeSession(userId: string, sessionId: string): Promise<void> {
+        const deleted = await prisma.refreshToken.deleteMany({
+            where: { userId, familyId: sessionId },
+        });
+
+        if (deleted.count === 0) {
+            throw new NotFoundError('Session');
+        }
+
+        logger.info({ userId, sessionId }, 'Session revoked');
+    }
+}
+
+export const sessionService = new SessionService();
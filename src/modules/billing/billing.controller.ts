@@ -10,7 +10,7 @@ export async function createBill(req: Request, res: Response, next: NextFunction
         const bill = await billingService.create({
             ...input,
             creatorId: (req as any).user?.userId
-        });
+        }, req.user);
         sendSuccess(res, bill, 'Bill created successfully', 201);
     } catch (error) {
         logger.error({ context: 'BillingController.createBill', error, body: req.body }, 'Failed to create bill');
@@ -40,7 +40,7 @@ export async function getBillById(req: Request, res: Response, next: NextFunctio
 export async function updateBillStatus(req: Request, res: Response, next: NextFunction) {
     try {
         const input = updateBillStatusSchema.parse(req.body);
-        const bill = await billingService.updateStatus(req.params.id as string, input);
+        const bill = await billingService.updateStatus(req.params.id as string, input, req.user);
         sendSuccess(res, bill, 'Bill status updated successfully');
     } catch (error) {
         next(error);
@@ -58,7 +58,7 @@ export async function getBillingStats(req: Request, res: Response, next: NextFun
 
 export async function deleteBill(req: Request, res: Response, next: NextFunction) {
     try {
-        await billingService.delete(req.params.id as string);
+        await billingService.delete(req.params.id as string, req.user);
         sendSuccess(res, null, 'Bill deleted successfully');
     } catch (error) {
         next(error);
@@ -81,7 +81,7 @@ export async function getPatientBillingSummary(req: Request, res: Response, next
         if (!patientId) {
             return res.status(400).json({ status: 'error', message: 'patientId is required' });
         }
-        const summary = await billingService.getPatientBillingSummary(patientId);
+        const summary = await billingService.getPatientBillingSummary(patientId, req.user!);
         sendSuccess(res, summary);
     } catch (error: any) {
         logger.error({ context: 'BillingController.getPatientBillingSummary', error, patientId: req.params.patientId || req.query.patientId }, 'Failed to fetch patient billing summary');
@@ -1,37 +1,27 @@
 import { Router } from 'express';
 import { createBill, getBills, getBillById, updateBillStatus, getBillingStats, deleteBill, getUnbilledLabOrders, getPatientBillingSummary } from './billing.controller.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { roleGuard } from '../../middleware/roleGuard.js';
-import { UserRole } from '@prisma/client';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
 const router = Router();
 
 // Authentication required for all billing routes
 router.use(authGuard);
 
-// Role guard for staff members who can access billing information
-const billingRoleGuard = roleGuard(
-    UserRole.ADMIN, 
-    UserRole.RECEPTIONIST, 
-    UserRole.PHARMACIST, 
-    UserRole.LAB_TECHNICIAN,
-    UserRole.DOCTOR
-);
-
-// All billing operations restricted to ADMIN and RECEPTIONIST only
-router.post('/', billingRoleGuard, createBill);
-router.get('/', billingRoleGuard, getBills);
-router.get('/stats', billingRoleGuard, getBillingStats);
+// Access is controlled by billing.* permissions (see permissions module)
+router.post('/', requirePermission('billing.create'), createBill);
+router.get('/', requirePermission('billing.read'), getBills);
+router.get('/stats', requirePermission('billing.read'), getBillingStats);
 
 // Patient summary routes (must come BEFORE generic /:id)
-router.get('/patient-summary', billingRoleGuard, getPatientBillingSummary); // Handle ?patientId= query param
-router.get('/patient-summary/:patientId', billingRoleGuard, getPatientBillingSummary); // Handle path param
-router.get('/unbilled-lab-orders/:patientId', billingRoleGuard, getUnbilledLabOrders);
+router.get('/patient-summary', requirePermission('billing.read'), getPatientBillingSummary); // Handle ?patientId= query param
+router.get('/patient-summary/:patientId', requirePermission('billing.read'), getPatientBillingSummary); // Handle path param
+router.get('/unbilled-lab-orders/:patientId', requirePermission('billing.read'), getUnbilledLabOrders);
 
 // Generic ID route (must come LAST among GET routes)
-router.get('/:id', billingRoleGuard, getBillById);
+router.get('/:id', requirePermission('billing.read'), getBillById);
 
-router.patch('/:id/status', billingRoleGuard, updateBillStatus);
-router.delete('/:id', roleGuard(UserRole.ADMIN), deleteBill);
+router.patch('/:id/status', requirePermission('billing.update'), updateBillStatus);
+router.delete('/:id', requirePermission('billing.delete'), deleteBill);
 
 export default router;
@@ -3,9 +3,14 @@ import { NotFoundError } from '../../middleware/errorHandler.js';
 import { CreateBillInput, BillQueryInput, UpdateBillStatusInput } from './billing.types.js';
 import { Prisma, LabTestStatus } from '@prisma/client';
 import { logger } from '../../utils/logger.js';
+import { withDeleted } from '../../utils/softDelete.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
+import { TokenPayload } from '../../utils/jwt.js';
 
 export class BillingService {
-    async create(input: CreateBillInput) {
+    async create(input: CreateBillInput, actor?: AuditActor) {
         const { items, labOrderIds, isWalkInLab, creatorId, patientId, customerName, phone, discount, gstPercent, notes, status, billType: explicitBillType } = input as any;
 
         // Derive billType: explicit > lab orders > item types > default CONSULTATION
@@ -105,6 +110,7 @@ export class BillingService {
         // Find the latest bill for today to avoid duplicate sequence numbers even if bills are deleted
         const latestBill = await prisma.bill.findFirst({
             where: {
+                ...withDeleted,
                 billNumber: {
                     startsWith: `INV-${dateStr}-`
                 }
@@ -164,6 +170,8 @@ export class BillingService {
 
         const allLabOrderIds = [...(labOrderIds || []), ...embeddedLabOrderIds].filter(Boolean);
 
+            await auditService.record({ actor, entityType: 'Bill', entityId: bill.id, action: 'CREATE', after: bill });
+
             return this.afterCreate(bill, allLabOrderIds, items, creatorId);
         } catch (error: any) {
             if (error.name === 'PrismaClientValidationError') {
@@ -408,7 +416,11 @@ if (startDate || endDate) {
         return this.formatBill({ ...bill, medicalRecord });
     }
 
-    async updateStatus(id: string, input: UpdateBillStatusInput & { paymentMode?: string; referenceNo?: string; createdBy?: string }) {
+    async updateStatus(
+        id: string,
+        input: UpdateBillStatusInput & { paymentMode?: string; referenceNo?: string; createdBy?: string },
+        actor?: AuditActor
+    ) {
         const bill = await prisma.bill.findUnique({ where: { id } });
         if (!bill) throw new NotFoundError('Bill not found');
 
@@ -452,6 +464,20 @@ if (startDate || endDate) {
             return updated;
         });
 
+        await auditService.record({
+            actor,
+            entityType: 'Bill',
+            entityId: id,
+            action: 'STATUS_CHANGE',
+            before: { status: bill.status, paidAmount: bill.paidAmount },
+            after: {
+                status: updatedBill.status,
+                paidAmount: updatedBill.paidAmount,
+                ...(input.paymentMode && { paymentMode: input.paymentMode }),
+                ...(input.referenceNo && { referenceNo: input.referenceNo }),
+            },
+        });
+
         const medicalRecord = await prisma.medicalRecord.findFirst({
             where: { patientId: updatedBill.patientId },
             orderBy: { createdAt: 'desc' }
@@ -485,52 +511,38 @@ if (startDate || endDate) {
         };
     }
 
-    async delete(id: string) {
-        console.log('[BillingService] Attempting to delete bill with id:', id);
-        // Using findFirst instead of findUnique for resilience against possible index issues
+    /**
+     * Move a bill to the trash. Items, payments and returns are left untouched so
+     * that restoring it brings them back. Linked lab orders are released so they
+     * can be billed again; restoring re-links those that have not been.
+     */
+    async delete(id: string, actor?: AuditActor) {
         const bill = await prisma.bill.findFirst({ where: { id } });
 
         if (!bill) {
-            console.error('[BillingService] Delete failed - Bill not found in DB for id:', id);
             throw new NotFoundError('Bill');
         }
 
-        console.log('[BillingService] Bill found, starting deletion transaction for id:', id);
-        await prisma.$transaction(async (tx: any) => {
-            // 1. Reset Lab Orders if they were linked to this bill
-            await tx.labTestOrder.updateMany({
-                where: { billId: id },
-                data: {
-                    billId: null,
-                    status: 'ORDERED'
-                }
-            });
+        const deleted = await prisma.$transaction(async (tx) => {
+            const labOrders = await tx.labTestOrder.findMany({ where: { billId: id }, select: { id: true } });
 
-            // 2. Delete Pharmacy Returns manually to bypass potential Cascade issues
-            // First get the return IDs
-            const returns = await tx.pharmacyReturn.findMany({
+            await tx.labTestOrder.updateMany({
                 where: { billId: id },
-                select: { id: true }
+                data: { billId: null, billingStatus: 'PENDING' },
             });
-            
-            if (returns.length > 0) {
-                const returnIds = returns.map((r: any) => r.id);
-                // Delete return items first (though they should cascade from return)
-                await tx.pharmacyReturnItem.deleteMany({
-                    where: { returnId: { in: returnIds } }
-                });
-                // Delete returns
-                await tx.pharmacyReturn.deleteMany({
-                    where: { id: { in: returnIds } }
-                });
-            }
 
-            // 3. Delete the bill (Cascade handles items and transactions)
-            await tx.bill.delete({
-                where: { id }
+            return tx.bill.update({
+                where: { id },
+                data: {
+                    deletedAt: new Date(),
+                    deletedBy: actor?.userId,
+                    detachedLabOrderIds: labOrders.map(order => order.id),
+                },
             });
         });
-        console.log('[BillingService] Bill deleted successfully:', id);
+        logger.info({ billId: id, deletedBy: actor?.userId }, 'Bill moved to trash');
+
+        await auditService.record({ actor, entityType: 'Bill', entityId: id, action: 'DELETE', before: bill, after: deleted });
     }
 
     /**
@@ -578,8 +590,10 @@ if (startDate || endDate) {
     /**
      * Get aggregated robust summary for billing UI
      */
-    async getPatientBillingSummary(patientId: string) {
+    async getPatientBillingSummary(patientId: string, viewer: TokenPayload) {
         console.log(`[BillingService] getPatientBillingSummary called for patient UHID: ${patientId}`);
+        await breakGlassService.assertCanOpen(viewer, patientId);
+
         const patient = await prisma.patient.findUnique({
             where: { uhid: patientId },
             select: { uhid: true, firstName: true, lastName: true }
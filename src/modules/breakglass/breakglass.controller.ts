@@ -0,0 +1,204 @@
+import { Request, Response, NextFunction } from 'express';
+import { breakGlassService } from './breakglass.service.js';
+import {
+    requestBreakGlassSchema,
+    breakGlassReviewQuerySchema,
+    acknowledgeBreakGlassSchema,
+} from './breakglass.types.js';
+import { sendSuccess, sendCreated } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/break-glass:
+ *   post:
+ *     tags: [Break-glass]
+ *     summary: Get emergency access to a restricted patient record
+ *     description: Access starts immediately and lasts BREAK_GLASS_DURATION unless a shorter duration is given. All admins are notified.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [patientId, reason]
+ *             properties:
+ *               patientId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 example: Unconscious patient brought to casualty, need allergy history
+ *               durationMinutes:
+ *                 type: integer
+ *                 example: 60
+ *     responses:
+ *       201:
+ *         description: Access granted
+ *       400:
+ *         description: Record not restricted or duration too long
+ *       409:
+ *         description: Access already active
+ */
+export async function requestBreakGlass(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = requestBreakGlassSchema.parse(req.body);
+        const grant = await breakGlassService.requestAccess(req.user!, input);
+        sendCreated(res, grant, 'Emergency access granted. This access is logged and will be reviewed.');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/break-glass/mine:
+ *   get:
+ *     tags: [Break-glass]
+ *     summary: List my break-glass grants
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Grants, newest first
+ */
+export async function getMyBreakGlassGrants(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const grants = await breakGlassService.findMine(req.user!.userId);
+        sendSuccess(res, grants);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/break-glass/reviews:
+ *   get:
+ *     tags: [Break-glass]
+ *     summary: Break-glass review queue
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, acknowledged, all]
+ *           default: pending
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated grants (pending oldest first)
+ */
+export async function getBreakGlassReviews(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = breakGlassReviewQuerySchema.parse(req.query);
+        const result = await breakGlassService.findForReview(query);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/break-glass/{id}/acknowledge:
+ *   post:
+ *     tags: [Break-glass]
+ *     summary: Mark a break-glass grant as reviewed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Grant acknowledged
+ *       409:
+ *         description: Already reviewed
+ */
+export async function acknowledgeBreakGlass(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = acknowledgeBreakGlassSchema.parse(req.body ?? {});
+        const grant = await breakGlassService.acknowledge(req.params.id as string, req.user!.userId, input);
+        sendSuccess(res, grant, 'Break-glass access acknowledged');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/break-glass/{id}/revoke:
+ *   post:
+ *     tags: [Break-glass]
+ *     summary: End a break-glass grant early
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Grant revoked
+ *       409:
+ *         description: Grant already expired or revoked
+ */
+export async function revokeBreakGlass(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const grant = await breakGlassService.revoke(req.params.id as string, req.user!.userId);
+        sendSuccess(res, grant, 'Break-glass access revoked');
+    } catch (error) {
+        next(error);
+    }
+}
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+    requestBreakGlass,
+    getMyBreakGlassGrants,
+    getBreakGlassReviews,
+    acknowledgeBreakGlass,
+    revokeBreakGlass,
+} from './breakglass.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Break-glass
+ *   description: Time-boxed emergency access to restricted patient records, with admin review
+ */
+
+router.use(authGuard);
+
+router.post('/', requirePermission('patients.breakglass'), requestBreakGlass);
+router.get('/mine', requirePermission('patients.breakglass'), getMyBreakGlassGrants);
+
+// Review queue
+router.get('/reviews', requirePermission('patients.breakglass.review'), getBreakGlassReviews);
+router.post('/:id/acknowledge', requirePermission('patients.breakglass.review'), acknowledgeBreakGlass);
+router.post('/:id/revoke', requirePermission('patients.breakglass.review'), revokeBreakGlass);
+
+export default router;
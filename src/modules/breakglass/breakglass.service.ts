@@ -0,0 +1,290 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../utils/AppError.js';
+import { parseExpiry, TokenPayload } from '../../utils/jwt.js';
+import { logger } from '../../utils/logger.js';
+import { notificationService } from '../notification/notification.service.js';
+import { uhidService } from '../patients/uhid.service.js';
+import { PaginatedResponse } from '../users/users.types.js';
+import { Prisma, UserRole } from '@prisma/client';
+import {
+    RequestBreakGlassInput,
+    BreakGlassReviewQueryInput,
+    AcknowledgeBreakGlassInput,
+    BreakGlassGrantResponse,
+} from './breakglass.types.js';
+
+const grantInclude = {
+    user: {
+        select: {
+            email: true,
+            role: true,
+            staff: { select: { firstName: true, lastName: true } },
+        },
+    },
+    patient: { select: { firstName: true, lastName: true } },
+} satisfies Prisma.BreakGlassGrantInclude;
+
+type GrantWithRelations = Prisma.BreakGlassGrantGetPayload<{ include: typeof grantInclude }>;
+
+export class BreakGlassService {
+    /**
+     * Open a restricted patient record in an emergency. Access starts at once;
+     * every admin is notified and the grant waits in the review queue.
+     */
+    async requestAccess(requester: TokenPayload, input: RequestBreakGlassInput): Promise<BreakGlassGrantResponse> {
+        const uhid = await uhidService.resolve(input.patientId);
+        const patient = uhid && await prisma.patient.findUnique({
+            where: { uhid },
+            select: { uhid: true, isRestricted: true },
+        });
+
+        if (!patient) {
+            throw new NotFoundError('Patient');
+        }
+
+        if (!patient.isRestricted) {
+            throw new ValidationError('This patient record is not restricted - break-glass access is not needed');
+        }
+
+        const durationSeconds = input.durationMinutes
+            ? input.durationMinutes * 60
+            : parseExpiry(config.breakGlass.defaultDuration);
+        const maxSeconds = parseExpiry(config.breakGlass.maxDuration);
+
+        if (durationSeconds > maxSeconds) {
+            throw new ValidationError(`Break-glass access can last at most ${Math.floor(maxSeconds / 60)} minutes`);
+        }
+
+        const existing = await prisma.breakGlassGrant.findFirst({
+            where: { userId: requester.userId, patientId: patient.uhid, ...this.activeWhere() },
+        });
+
+        if (existing) {
+            throw new ConflictError('You already have active break-glass access to this patient');
+        }
+
+        const grant = await prisma.breakGlassGrant.create({
+            data: {
+                userId: requester.userId,
+                patientId: patient.uhid,
+                reason: input.reason,
+                expiresAt: new Date(Date.now() + durationSeconds * 1000),
+            },
+            include: grantInclude,
+        });
+
+        logger.warn({
+            grantId: grant.id,
+            userId: requester.userId,
+            patientId: patient.uhid,
+            expiresAt: grant.expiresAt,
+        }, 'Break-glass access granted');
+
+        await this.notifyAdmins(grant);
+
+        return this.formatGrant(grant);
+    }
+
+    async hasActiveAccess(userId: string, patientId: string): Promise<boolean> {
+        const count = await prisma.breakGlassGrant.count({
+            where: { userId, patientId, ...this.activeWhere() },
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * UHIDs of the restricted patients a user may see, or null when nothing is
+     * hidden from them: admins, and patients (whose own access is checked
+     * elsewhere). Other staff see a restricted patient only with active
+     * break-glass access.
+     */
+    async visibleRestrictedPatients(user: Pick<TokenPayload, 'userId' | 'role'>): Promise<string[] | null> {
+        if (user.role === UserRole.ADMIN || user.role === UserRole.PATIENT) {
+            return null;
+        }
+
+        const grants = await prisma.breakGlassGrant.findMany({
+            where: { userId: user.userId, ...this.activeWhere() },
+            select: { patientId: true },
+        });
+
+        return grants.map(grant => grant.patientId);
+    }
+
+    /**
+     * Filter for patient lists and searches hiding restricted patients the user cannot open
+     */
+    async visiblePatientsWhere(user: Pick<TokenPayload, 'userId' | 'role'>): Promise<Prisma.PatientWhereInput> {
+        const allowed = await this.visibleRestrictedPatients(user);
+
+        return allowed ? { OR: [{ isRestricted: false }, { uhid: { in: allowed } }] } : {};
+    }
+
+    /**
+     * Refuse a single record of a restricted patient, as patientAccessGuard does
+     * for routes keyed by patient. Retired UHIDs and aliases are resolved first.
+     */
+    async assertCanOpen(user: Pick<TokenPayload, 'userId' | 'role'>, patientId: string | null | undefined): Promise<void> {
+        if (!patientId || user.role === UserRole.ADMIN || user.role === UserRole.PATIENT) {
+            return;
+        }
+
+        const uhid = await uhidService.resolve(patientId);
+        if (!uhid) return;
+
+        const patient = await prisma.patient.findUnique({ where: { uhid }, select: { isRestricted: true } });
+        if (patient?.isRestricted && !(await this.hasActiveAccess(user.userId, uhid))) {
+            throw new ForbiddenError('This patient record is restricted. Request break-glass access if this is an emergency.');
+        }
+    }
+
+    /**
+     * The requesting user's own grants, newest first
+     */
+    async findMine(userId: string): Promise<BreakGlassGrantResponse[]> {
+        const grants = await prisma.breakGlassGrant.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+            include: grantInclude,
+        });
+
+        return grants.map(grant => this.formatGrant(grant));
+    }
+
+    /**
+     * Admin review queue - pending means not yet acknowledged
+     */
+    async findForReview(query: BreakGlassReviewQueryInput): Promise<PaginatedResponse<BreakGlassGrantResponse>> {
+        const { page, limit, status, userId, patientId } = query;
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.BreakGlassGrantWhereInput = {};
+        if (status === 'pending') where.acknowledgedAt = null;
+        if (status === 'acknowledged') where.acknowledgedAt = { not: null };
+        if (userId) where.userId = userId;
+        if (patientId) where.patientId = patientId;
+
+        const [grants, total] = await Promise.all([
+            prisma.breakGlassGrant.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: status === 'pending' ? 'asc' : 'desc' },
+                include: grantInclude,
+            }),
+            prisma.breakGlassGrant.count({ where }),
+        ]);
+
+        return {
+            items: grants.map(grant => this.formatGrant(grant)),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    async acknowledge(id: string, reviewerId: string, input: AcknowledgeBreakGlassInput): Promise<BreakGlassGrantResponse> {
+        const grant = await this.getGrant(id);
+
+        if (grant.acknowledgedAt) {
+            throw new ConflictError('This break-glass access has already been reviewed');
+        }
+
+        const updated = await prisma.breakGlassGrant.update({
+            where: { id },
+            data: {
+                acknowledgedAt: new Date(),
+                acknowledgedBy: reviewerId,
+                reviewNote: input.note,
+            },
+            include: grantInclude,
+        });
+
+        logger.info({ grantId: id, reviewerId }, 'Break-glass access acknowledged');
+
+        return this.formatGrant(updated);
+    }
+
+    /**
+     * End a grant before it expires
+     */
+    async revoke(id: string, reviewerId: string): Promise<BreakGlassGrantResponse> {
+        const grant = await this.getGrant(id);
+
+        if (grant.revokedAt || grant.expiresAt <= new Date()) {
+            throw new ConflictError('This break-glass access is no longer active');
+        }
+
+        const updated = await prisma.breakGlassGrant.update({
+            where: { id },
+            data: { revokedAt: new Date(), revokedBy: reviewerId },
+            include: grantInclude,
+        });
+
+        logger.warn({ grantId: id, reviewerId }, 'Break-glass access revoked');
+
+        return this.formatGrant(updated);
+    }
+
+    private activeWhere(): Prisma.BreakGlassGrantWhereInput {
+        return { revokedAt: null, expiresAt: { gt: new Date() } };
+    }
+
+    private async getGrant(id: string) {
+        const grant = await prisma.breakGlassGrant.findUnique({ where: { id } });
+
+        if (!grant) {
+            throw new NotFoundError('Break-glass grant');
+        }
+
+        return grant;
+    }
+
+    private async notifyAdmins(grant: GrantWithRelations): Promise<void> {
+        const requesterName = grant.user.staff
+            ? `${grant.user.staff.firstName} ${grant.user.staff.lastName}`
+            : grant.user.email;
+
+        try {
+            await notificationService.notifyRole(UserRole.ADMIN, {
+                title: 'Break-glass access used',
+                message: `${requesterName} opened the restricted record of ${grant.patient.firstName} ${grant.patient.lastName} (${grant.patientId}). Reason: ${grant.reason}`,
+                type: 'warning',
+                actionUrl: '/admin/break-glass',
+                referenceId: grant.id,
+            });
+        } catch (error) {
+            // The grant itself stays in the review queue even if notifying fails
+            logger.error({ error, grantId: grant.id }, 'Failed to notify admins of break-glass access');
+        }
+    }
+
+    private formatGrant(grant: GrantWithRelations): BreakGlassGrantResponse {
+        return {
+            id: grant.id,
+            userId: grant.userId,
+            patientId: grant.patientId,
+            reason: grant.reason,
+            expiresAt: grant.expiresAt,
+            active: !grant.revokedAt && grant.expiresAt > new Date(),
+            revokedAt: grant.revokedAt,
+            revokedBy: grant.revokedBy,
+            acknowledgedAt: grant.acknowledgedAt,
+            acknowledgedBy: grant.acknowledgedBy,
+            reviewNote: grant.reviewNote,
+            createdAt: grant.createdAt,
+            requester: {
+                email: grant.user.email,
+                role: grant.user.role,
+                name: grant.user.staff ? `${grant.user.staff.firstName} ${grant.user.staff.lastName}` : null,
+            },
+            patient: grant.patient,
+        };
+    }
+}
+
+export const breakGlassService = new BreakGlassService();
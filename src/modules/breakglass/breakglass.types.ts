@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+export const requestBreakGlassSchema = z.object({
+    patientId: z.string().min(1, 'Patient ID is required'),
+    reason: z.string().trim().min(10, 'Please describe the emergency (at least 10 characters)').max(1000),
+    // Defaults to BREAK_GLASS_DURATION, capped by BREAK_GLASS_MAX_DURATION
+    durationMinutes: z.number().int().positive().optional(),
+});
+
+export const breakGlassReviewQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    status: z.enum(['pending', 'acknowledged', 'all']).default('pending'),
+    userId: z.string().optional(),
+    patientId: z.string().optional(),
+});
+
+export const acknowledgeBreakGlassSchema = z.object({
+    note: z.string().trim().max(1000).optional(),
+});
+
+export type RequestBreakGlassInput = z.infer<typeof requestBreakGlassSchema>;
+export type BreakGlassReviewQueryInput = z.infer<typeof breakGlassReviewQuerySchema>;
+export type AcknowledgeBreakGlassInput = z.infer<typeof acknowledgeBreakGlassSchema>;
+
+export interface BreakGlassGrantResponse {
+    id: string;
+    userId: string;
+    patientId: string;
+    reason: string;
+    expiresAt: Date;
+    active: boolean;
+    revokedAt: Date | null;
+    revokedBy: string | null;
+    acknowledgedAt: Date | null;
+    acknowledgedBy: string | null;
+    reviewNote: string | null;
+    createdAt: Date;
+    requester?: {
+        email: string;
+        role: string;
+        name: string | null;
+    };
+    patient?: {
+        firstName: string;
+        lastName: string;
+    };
+}
@@ -0,0 +1,3 @@
+export { default as breakGlassRoutes } from './breakglass.routes.js';
+export { breakGlassService } from './breakglass.service.js';
+export * from './breakglass.types.js';
@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import { consentService } from './consent.service.js';
+import {
+    createConsentTemplateSchema,
+    consentTemplateQuerySchema,
+    recordConsentSchema,
+} from './consent.types.js';
+import { sendSuccess, sendCreated } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/consents/templates:
+ *   get:
+ *     tags: [Consent]
+ *     summary: List consent templates (current version of each type by default)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [TREATMENT, SMS_COMMUNICATION, EMAIL_COMMUNICATION, LAB_REPORT_SHARING]
+ *       - in: query
+ *         name: includeOld
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Consent templates
+ */
+export async function getConsentTemplates(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = consentTemplateQuerySchema.parse(req.query);
+        const templates = await consentService.findTemplates(query);
+        sendSuccess(res, templates);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/consents/templates:
+ *   post:
+ *     tags: [Consent]
+ *     summary: Publish a new version of a consent template
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, title, body]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [TREATMENT, SMS_COMMUNICATION, EMAIL_COMMUNICATION, LAB_REPORT_SHARING]
+ *               title:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Template published
+ */
+export async function createConsentTemplate(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = createConsentTemplateSchema.parse(req.body);
+        const template = await consentService.createTemplate(input, req.user!.userId);
+        sendCreated(res, template, 'Consent template published');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/consents/patients/{patientId}:
+ *   get:
+ *     tags: [Consent]
+ *     summary: Current consents and full grant/withdrawal history of a patient
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Consent summary
+ */
+export async function getPatientConsents(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const patientId = Array.isArray(req.params.patientId) ? req.params.patientId[0] : req.params.patientId;
+        const summary = await consentService.getPatientConsents(patientId);
+        sendSuccess(res, summary);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/consents/patients/{patientId}:
+ *   post:
+ *     tags: [Consent]
+ *     summary: Grant or withdraw a consent
+ *     description: |
+ *       Patients (and their guardians) record through the portal. Staff record at
+ *       reception and need the consent.record permission. The channel is set from who records it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, granted]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [TREATMENT, SMS_COMMUNICATION, EMAIL_COMMUNICATION, LAB_REPORT_SHARING]
+ *               granted:
+ *                 type: boolean
+ *               templateVersion:
+ *                 type: integer
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Consent recorded
+ */
+export async function recordPatientConsent(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const patientId = Array.isArray(req.params.patientId) ? req.params.patientId[0] : req.params.patientId;
+        const input = recordConsentSchema.parse(req.body);
+        const record = await consentService.recordConsent(patientId, input, req.user!);
+        sendCreated(res, record, input.granted ? 'Consent granted' : 'Consent withdrawn');
+    } catch (error) {
+        next(error);
+    }
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import {
+    getConsentTemplates,
+    createConsentTemplate,
+    getPatientConsents,
+    recordPatientConsent,
+} from './consent.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+import { patientAccessGuard } from '../../middleware/patientAuth.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Consent
+ *   description: Versioned consent templates and patient grants/withdrawals
+ */
+
+router.use(authGuard);
+
+router.get('/templates', getConsentTemplates);
+router.post('/templates', requirePermission('consent.templates.manage'), createConsentTemplate);
+
+// Patients (and guardians) see and change their own; staff permission is checked in the service
+router.get('/patients/:patientId', patientAccessGuard('patients.read', 'patientId'), getPatientConsents);
+router.post('/patients/:patientId', patientAccessGuard('patients.read', 'patientId'), recordPatientConsent);
+
+export default router;
@@ -0,0 +1,197 @@
+import { prisma } from '../../config/database.js';
+import { ForbiddenError, NotFoundError } from '../../utils/AppError.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { logger } from '../../utils/logger.js';
+import { permissionsService } from '../permissions/permissions.service.js';
+import { ConsentType, Prisma, UserRole } from '@prisma/client';
+import {
+    CONSENT_DEFAULTS,
+    ConsentRecordResponse,
+    ConsentTemplateQueryInput,
+    ConsentTemplateResponse,
+    CreateConsentTemplateInput,
+    PatientConsentSummary,
+    RecordConsentInput,
+} from './consent.types.js';
+
+const recordInclude = {
+    template: { select: { version: true } },
+} satisfies Prisma.PatientConsentInclude;
+
+type ConsentWithTemplate = Prisma.PatientConsentGetPayload<{ include: typeof recordInclude }>;
+
+export class ConsentService {
+    async findTemplates(query: ConsentTemplateQueryInput): Promise<ConsentTemplateResponse[]> {
+        const templates = await prisma.consentTemplate.findMany({
+            where: query.type ? { type: query.type } : {},
+            orderBy: [{ type: 'asc' }, { version: 'desc' }],
+        });
+
+        if (query.includeOld) {
+            return templates.map(template => this.formatTemplate(template));
+        }
+
+        // Newest version of each type only
+        const latest = new Map<ConsentType, ConsentTemplateResponse>();
+        for (const template of templates) {
+            if (!latest.has(template.type)) {
+                latest.set(template.type, this.formatTemplate(template));
+            }
+        }
+
+        return [...latest.values()];
+    }
+
+    /**
+     * Publish new wording for a consent type. Earlier grants stay linked to the
+     * version the patient actually saw.
+     */
+    async createTemplate(input: CreateConsentTemplateInput, createdBy: string): Promise<ConsentTemplateResponse> {
+        const latest = await prisma.consentTemplate.findFirst({
+            where: { type: input.type },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+        });
+
+        const template = await prisma.consentTemplate.create({
+            data: {
+                type: input.type,
+                version: (latest?.version ?? 0) + 1,
+                title: input.title,
+                body: input.body,
+                createdBy,
+            },
+        });
+
+        logger.info({ type: template.type, version: template.version, createdBy }, 'Consent template published');
+
+        return this.formatTemplate(template);
+    }
+
+    async getPatientConsents(patientId: string): Promise<PatientConsentSummary> {
+        await this.ensurePatient(patientId);
+
+        const records = await prisma.patientConsent.findMany({
+            where: { patientId },
+            orderBy: { createdAt: 'desc' },
+            include: recordInclude,
+        });
+
+        const current = {} as PatientConsentSummary['current'];
+        for (const type of Object.values(ConsentType)) {
+            const latest = records.find(record => record.type === type);
+            current[type] = latest
+                ? { granted: latest.granted, recorded: true, since: latest.createdAt }
+                : { granted: CONSENT_DEFAULTS[type], recorded: false, since: null };
+        }
+
+        return {
+            patientId,
+            current,
+            history: records.map(record => this.formatRecord(record)),
+        };
+    }
+
+    /**
+     * Record a grant or withdrawal. Patients (or their guardians) record through
+     * the portal; staff record at reception and need the consent.record permission.
+     */
+    async recordConsent(patientId: string, input: RecordConsentInput, recorder: TokenPayload): Promise<ConsentRecordResponse> {
+        await this.ensurePatient(patientId);
+
+        const isPortal = recorder.role === UserRole.PATIENT;
+        if (!isPortal && !(await permissionsService.hasPermission(recorder, 'consent.record'))) {
+            throw new ForbiddenError('Insufficient permissions. Missing permission: consent.record');
+        }
+
+        const template = await prisma.consentTemplate.findFirst({
+            where: {
+                type: input.type,
+                ...(input.templateVersion && { version: input.templateVersion }),
+            },
+            orderBy: { version: 'desc' },
+        });
+
+        if (!template) {
+            throw new NotFoundError('Consent template');
+        }
+
+        const record = await prisma.patientConsent.create({
+            data: {
+                patientId,
+                type: input.type,
+                templateId: template.id,
+                granted: input.granted,
+                channel: isPortal ? 'PORTAL' : 'RECEPTION',
+                recordedBy: recorder.userId,
+                note: input.note,
+            },
+            include: recordInclude,
+        });
+
+        logger.info({
+            patientId,
+            type: record.type,
+            granted: record.granted,
+            channel: record.channel,
+            recordedBy: recorder.userId,
+        }, input.granted ? 'Consent granted' : 'Consent withdrawn');
+
+        return this.formatRecord(record);
+    }
+
+    /**
+     * Current consent of one type, falling back to CONSENT_DEFAULTS.
+     * Check this before contacting a patient or releasing a report.
+     */
+    async hasConsent(patientId: string, type: ConsentType): Promise<boolean> {
+        const latest = await prisma.patientConsent.findFirst({
+            where: { patientId, type },
+            orderBy: { createdAt: 'desc' },
+            select: { granted: true },
+        });
+
+        return latest ? latest.granted : CONSENT_DEFAULTS[type];
+    }
+
+    private async ensurePatient(patientId: string): Promise<void> {
+        const patient = await prisma.patient.findUnique({ where: { uhid: patientId }, select: { uhid: true } });
+
+        if (!patient) {
+            throw new NotFoundError('Patient');
+        }
+    }
+
+    private formatTemplate(template: {
+        id: string;
+        type: ConsentType;
+        version: number;
+        title: string;
+        body: string;
+        createdAt: Date;
+    }): ConsentTemplateResponse {
+        return {
+            id: template.id,
+            type: template.type,
+            version: template.version,
+            title: template.title,
+            body: template.body,
+            createdAt: template.createdAt,
+        };
+    }
+
+    private formatRecord(record: ConsentWithTemplate): ConsentRecordResponse {
+        return {
+            id: record.id,
+            type: record.type,
+            granted: record.granted,
+            channel: record.channel,
+            templateVersion: record.template.version,
+            recordedBy: record.recordedBy,
+            note: record.note,
+            createdAt: record.createdAt,
+        };
+    }
+}
+
+export const consentService = new ConsentService();
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { ConsentChannel, ConsentType } from '@prisma/client';
+
+/**
+ * What applies until a patient records a choice. Communication and report
+ * sharing were always on before consent was tracked, so they stay on until
+ * withdrawn; treatment consent has to be captured explicitly.
+ */
+export const CONSENT_DEFAULTS: Record<ConsentType, boolean> = {
+    TREATMENT: false,
+    SMS_COMMUNICATION: true,
+    EMAIL_COMMUNICATION: true,
+    LAB_REPORT_SHARING: true,
+};
+
+export const createConsentTemplateSchema = z.object({
+    type: z.nativeEnum(ConsentType),
+    title: z.string().trim().min(1, 'Title is required').max(200),
+    body: z.string().trim().min(1, 'Consent text is required'),
+});
+
+export const consentTemplateQuerySchema = z.object({
+    type: z.nativeEnum(ConsentType).optional(),
+    // Older versions are kept for records captured against them
+    includeOld: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+export const recordConsentSchema = z.object({
+    type: z.nativeEnum(ConsentType),
+    granted: z.boolean(),
+    // Defaults to the current version of the template for this type
+    templateVersion: z.number().int().positive().optional(),
+    note: z.string().trim().max(1000).optional(),
+});
+
+export type CreateConsentTemplateInput = z.infer<typeof createConsentTemplateSchema>;
+export type ConsentTemplateQueryInput = z.infer<typeof consentTemplateQuerySchema>;
+export type RecordConsentInput = z.infer<typeof recordConsentSchema>;
+
+export interface ConsentTemplateResponse {
+    id: string;
+    type: ConsentType;
+    version: number;
+    title: string;
+    body: string;
+    createdAt: Date;
+}
+
+export interface ConsentRecordResponse {
+    id: string;
+    type: ConsentType;
+    granted: boolean;
+    channel: ConsentChannel;
+    templateVersion: number;
+    recordedBy: string | null;
+    note: string | null;
+    createdAt: Date;
+}
+
+export interface PatientConsentSummary {
+    patientId: string;
+    // Current state per type; `recorded: false` means the default applies
+    current: Record<ConsentType, { granted: boolean; recorded: boolean; since: Date | null }>;
+    history: ConsentRecordResponse[];
+}
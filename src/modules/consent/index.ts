@@ -0,0 +1,3 @@
+export { default as consentRoutes } from './consent.routes.js';
+export { consentService } from './consent.service.js';
+export * from './consent.types.js';
@@ -53,7 +53,7 @@ export async function createMedicalRecord(
         console.log('Received Create Record Body:', JSON.stringify(req.body, null, 2));
         const input = createMedicalRecordSchema.parse(req.body);
         console.log('Parsed Input with Prescriptions:', JSON.stringify(input.prescriptions, null, 2));
-        const record = await doctorsService.createMedicalRecord(req.user!.userId, input);
+        const record = await doctorsService.createMedicalRecord(req.user!.userId, input, req.user);
         sendCreated(res, record, 'Medical record created successfully');
     } catch (error: any) {
         console.error('Create Medical Record Error:', {
@@ -124,7 +124,7 @@ export async function getAllMedicalRecords(
         const search = req.query.search ? String(req.query.search) : undefined;
         const startDate = req.query.startDate ? String(req.query.startDate) : undefined;
         const endDate = req.query.endDate ? String(req.query.endDate) : undefined;
-        const records = await doctorsService.getAllMedicalRecords(search, startDate, endDate);
+        const records = await doctorsService.getAllMedicalRecords(req.user!, search, startDate, endDate);
         sendSuccess(res, records);
     } catch (error) {
         next(error);
@@ -155,7 +155,7 @@ export async function getMedicalRecordById(
     next: NextFunction
 ): Promise<void> {
     try {
-        const record = await doctorsService.getMedicalRecordById(req.params.id as string);
+        const record = await doctorsService.getMedicalRecordById(req.params.id as string, req.user!);
         sendSuccess(res, record);
     } catch (error) {
         next(error);
@@ -210,7 +210,7 @@ export async function createPrescription(
 ): Promise<void> {
     try {
         const input = createPrescriptionSchema.parse(req.body);
-        const prescription = await doctorsService.createPrescription(req.user!.userId, input);
+        const prescription = await doctorsService.createPrescription(req.user!.userId, input, req.user);
         sendCreated(res, prescription, 'Prescription created successfully');
     } catch (error) {
         next(error);
@@ -241,7 +241,7 @@ export async function getPrescription(
     next: NextFunction
 ): Promise<void> {
     try {
-        const prescription = await doctorsService.getPrescription(req.params.id as string);
+        const prescription = await doctorsService.getPrescription(req.params.id as string, req.user!);
         sendSuccess(res, prescription);
     } catch (error) {
         next(error);
@@ -262,7 +262,7 @@ export async function dispensePrescription(
 ): Promise<void> {
     try {
         const { id } = req.params;
-        const record = await doctorsService.updatePrescriptionStatus(id as string, 'DISPENSED');
+        const record = await doctorsService.updatePrescriptionStatus(id as string, 'DISPENSED', req.user);
         sendSuccess(res, record, 'Prescriptions marked as dispensed');
     } catch (error) {
         next(error);
@@ -282,7 +282,7 @@ export async function getPendingPrescriptions(
     next: NextFunction
 ): Promise<void> {
     try {
-        const records = await doctorsService.getPendingPrescriptions();
+        const records = await doctorsService.getPendingPrescriptions(req.user!);
         sendSuccess(res, records);
     } catch (error) {
         next(error);
@@ -297,6 +297,7 @@ export async function getDispensedHistory(
     try {
         const { startDate, endDate } = req.query;
         const records = await doctorsService.getDispensedHistory(
+            req.user!,
             startDate as string,
             endDate as string
         );
@@ -1,9 +1,8 @@
 import { Router } from 'express';
 import { createMedicalRecord, getMedicalRecords, getAllMedicalRecords, getMedicalRecordById, createPrescription, getPrescription, dispensePrescription, getPendingPrescriptions, getDashboardStats } from './doctors.controller.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { medicalStaff, medicalReadAccess, clinicalStaff } from '../../middleware/roleGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
-import { UserRole } from '@prisma/client';
 import { patientAccessGuard } from '../../middleware/patientAuth.js';
 
 const router = Router();
@@ -11,18 +10,17 @@ const router = Router();
 router.use(authGuard);
 
 // Dashboard
-router.get('/doctor/dashboard', medicalReadAccess, getDashboardStats);
+router.get('/doctor/dashboard', requirePermission('doctors.dashboard.read'), getDashboardStats);
 
 // Medical Records
-router.get('/medical-records', medicalReadAccess, getAllMedicalRecords);  // List all records (Admin/Pharmacist search)
-// Allow Receptionists to create records (clinicalStaff includes: ADMIN, DOCTOR, RECEPTIONIST)
-router.post('/medical-records', clinicalStaff, createMedicalRecord);
-router.get('/medical-records/patient/:patientId', patientAccessGuard('patientId', [UserRole.ADMIN, UserRole.DOCTOR, UserRole.PHARMACIST, UserRole.RECEPTIONIST]), getMedicalRecords);
-router.get('/medical-records/:id', medicalReadAccess, getMedicalRecordById); // Specific ID route last
+router.get('/medical-records', requirePermission('medical.records.read'), getAllMedicalRecords);  // List all records (Admin/Pharmacist search)
+router.post('/medical-records', requirePermission('medical.records.create'), createMedicalRecord);
+router.get('/medical-records/patient/:patientId', patientAccessGuard('medical.records.read', 'patientId'), getMedicalRecords);
+router.get('/medical-records/:id', requirePermission('medical.records.read'), getMedicalRecordById); // Specific ID route last
 
 // Prescriptions
-router.post('/prescriptions', medicalStaff, createPrescription);
-router.get('/prescriptions/:id', medicalReadAccess, getPrescription);
-router.put('/medical-records/:id/dispense', medicalReadAccess, dispensePrescription); // Pharmacists can dispense
+router.post('/prescriptions', requirePermission('prescriptions.create'), createPrescription);
+router.get('/prescriptions/:id', requirePermission('medical.records.read'), getPrescription);
+router.put('/medical-records/:id/dispense', requirePermission('prescriptions.dispense'), dispensePrescription); // Pharmacists can dispense
 
 export default router;
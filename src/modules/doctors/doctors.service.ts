@@ -1,9 +1,15 @@
 import { prisma } from '../../config/database.js';
 import { NotFoundError, ValidationError } from '../../middleware/errorHandler.js';
 import { CreateMedicalRecordInput, CreatePrescriptionInput, MedicalRecordResponse, PrescriptionResponse } from './doctors.types.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { eventsService } from '../events/events.service.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { UserRole } from '@prisma/client';
 
 export class DoctorsService {
-    async createMedicalRecord(doctorUserId: string, input: CreateMedicalRecordInput): Promise<MedicalRecordResponse> {
+    async createMedicalRecord(doctorUserId: string, input: CreateMedicalRecordInput, actor?: AuditActor): Promise<MedicalRecordResponse> {
         // Get staff ID from user ID and validate role
         const doctor = await prisma.staff.findUnique({ 
             where: { userId: doctorUserId },
@@ -44,7 +50,7 @@ export class DoctorsService {
                     labOrders: input.labOrders || []
                 },
                 include: {
-                    patient: { select: { firstName: true, lastName: true } },
+                    patient: { select: { firstName: true, lastName: true, isRestricted: true } },
                     doctor: { select: { firstName: true, lastName: true } },
                 },
             });
@@ -53,6 +59,9 @@ export class DoctorsService {
             throw error;
         }
 
+        await auditService.record({ actor, entityType: 'MedicalRecord', entityId: record.id, action: 'CREATE', after: record });
+        this.announcePendingPrescription(record);
+
         // Automatically create Lab Test Orders (with deduplication)
         if (input.labOrders && input.labOrders.length > 0) {
             await Promise.all(input.labOrders.map(async (testName) => {
@@ -89,7 +98,7 @@ export class DoctorsService {
         return this.formatMedicalRecord(record as any);
     }
 
-    async createPrescription(doctorUserId: string, input: CreatePrescriptionInput): Promise<PrescriptionResponse> {
+    async createPrescription(doctorUserId: string, input: CreatePrescriptionInput, actor?: AuditActor): Promise<PrescriptionResponse> {
         const doctor = await prisma.staff.findUnique({ 
             where: { userId: doctorUserId },
             include: { user: true }
@@ -121,10 +130,12 @@ export class DoctorsService {
             },
         });
 
+        await auditService.record({ actor, entityType: 'Prescription', entityId: prescription.id, action: 'CREATE', after: prescription });
+
         return this.formatPrescription(prescription);
     }
 
-    async getPrescription(id: string): Promise<PrescriptionResponse> {
+    async getPrescription(id: string, viewer: TokenPayload): Promise<PrescriptionResponse> {
         const prescription = await prisma.prescription.findUnique({
             where: { id },
             include: {
@@ -137,6 +148,8 @@ export class DoctorsService {
             throw new NotFoundError('Prescription not found');
         }
 
+        await breakGlassService.assertCanOpen(viewer, prescription.patientId);
+
         return this.formatPrescription(prescription);
     }
 
@@ -156,7 +169,7 @@ export class DoctorsService {
         return records.map((record: any) => this.formatMedicalRecord(record as any));
     }
 
-    async getMedicalRecordById(id: string): Promise<MedicalRecordResponse> {
+    async getMedicalRecordById(id: string, viewer: TokenPayload): Promise<MedicalRecordResponse> {
         const record = await prisma.medicalRecord.findUnique({
             where: { id },
             include: {
@@ -169,10 +182,12 @@ export class DoctorsService {
             throw new NotFoundError('Medical record not found');
         }
 
+        await breakGlassService.assertCanOpen(viewer, record.patientId);
+
         return this.formatMedicalRecord(record);
     }
 
-    async updatePrescriptionStatus(recordId: string, status: 'DISPENSED' | 'PENDING' | 'CANCELLED') {
+    async updatePrescriptionStatus(recordId: string, status: 'DISPENSED' | 'PENDING' | 'CANCELLED', actor?: AuditActor) {
         const record = await prisma.medicalRecord.findUnique({
             where: { id: recordId },
         });
@@ -181,6 +196,10 @@ export class DoctorsService {
             throw new NotFoundError('Medical record not found');
         }
 
+        if (actor) {
+            await breakGlassService.assertCanOpen(actor, record.patientId);
+        }
+
         // If dispensing, deduct stock using batch-level FEFO and audit logs
         if (status === 'DISPENSED') {
             await prisma.$transaction(async (tx) => {
@@ -301,16 +320,48 @@ export class DoctorsService {
                 } : record.vitalSigns
             },
             include: {
-                patient: { select: { firstName: true, lastName: true } },
+                patient: { select: { firstName: true, lastName: true, isRestricted: true } },
                 doctor: { select: { firstName: true, lastName: true } },
             },
         });
 
+        await auditService.record({
+            actor,
+            entityType: 'MedicalRecord',
+            entityId: recordId,
+            action: 'STATUS_CHANGE',
+            before: { prescriptionStatus: record.prescriptionStatus },
+            after: { prescriptionStatus: updatedRecord.prescriptionStatus },
+        });
+
+        if (status === 'PENDING') {
+            this.announcePendingPrescription(updatedRecord);
+        }
+
         return this.formatMedicalRecord(updatedRecord as any);
     }
 
-    async getAllMedicalRecords(search?: string, startDate?: string, endDate?: string) {
-        const where: any = {};
+    /**
+     * Tell pharmacy screens a record has joined the pending prescriptions list
+     */
+    private announcePendingPrescription(record: {
+        id: string;
+        patientId: string;
+        patient: { firstName: string; lastName: string; isRestricted: boolean };
+        doctor: { firstName: string; lastName: string };
+    }): void {
+        // Restricted patients stay out of the broadcast; the pending list applies break-glass rules
+        const hidePatient = record.patient.isRestricted;
+        eventsService.publish('prescription.pending', {
+            medicalRecordId: record.id,
+            patientId: hidePatient ? null : record.patientId,
+            patientName: hidePatient ? null : `${record.patient.firstName} ${record.patient.lastName}`,
+            doctorName: `Dr. ${record.doctor.firstName} ${record.doctor.lastName}`,
+        }, { roles: [UserRole.PHARMACIST] });
+    }
+
+    async getAllMedicalRecords(viewer: TokenPayload, search?: string, startDate?: string, endDate?: string) {
+        const where: any = { patient: await breakGlassService.visiblePatientsWhere(viewer) };
 
         // Date Range Filtering
         if (startDate || endDate) {
@@ -370,11 +421,12 @@ export class DoctorsService {
         return records.map((record: any) => this.formatMedicalRecord(record));
     }
 
-    async getPendingPrescriptions() {
+    async getPendingPrescriptions(viewer: TokenPayload) {
         // Now we can filter by the proper prescriptionStatus column
         const records = await prisma.medicalRecord.findMany({
             where: {
                 prescriptionStatus: 'PENDING',
+                patient: await breakGlassService.visiblePatientsWhere(viewer),
             },
             include: {
                 patient: true,
@@ -447,8 +499,8 @@ export class DoctorsService {
         };
     }
 
-    async getDispensedHistory(startDate?: string, endDate?: string) {
-        const where: any = { prescriptionStatus: 'DISPENSED' };
+    async getDispensedHistory(viewer: TokenPayload, startDate?: string, endDate?: string) {
+        const where: any = { prescriptionStatus: 'DISPENSED', patient: await breakGlassService.visiblePatientsWhere(viewer) };
         
         if (startDate || endDate) {
             where.updatedAt = {};
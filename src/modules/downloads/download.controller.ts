@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../../config/database.js';
 import { pdfGenerator } from '../../services/pdfGenerator.js';
 import { AppError } from '../../utils/AppError.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -36,6 +37,7 @@ export async function downloadDocument(
             if (req.user!.role === 'PATIENT' && prescription.patient.userId !== userId) {
                 throw new AppError('Unauthorized', 403);
             }
+            await breakGlassService.assertCanOpen(req.user!, prescription.patientId);
 
             data = {
                 patientName: `${prescription.patient.firstName} ${prescription.patient.lastName}`,
@@ -59,6 +61,7 @@ export async function downloadDocument(
                 if (req.user!.role === 'PATIENT' && labResult.order.patient.userId !== userId) {
                     throw new AppError('Unauthorized', 403);
                 }
+                await breakGlassService.assertCanOpen(req.user!, labResult.order.patientId);
 
                 // If it has attachments (uploaded file)
                 if (labResult.attachments && Array.isArray(labResult.attachments) && labResult.attachments.length > 0) {
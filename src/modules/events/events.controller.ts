@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { eventsService } from './events.service.js';
+import { eventStreamQuerySchema } from './events.types.js';
+
+/**
+ * @swagger
+ * /api/events/stream:
+ *   get:
+ *     tags: [Events]
+ *     summary: Server-sent event stream of live updates
+ *     description: |
+ *       Needs a user session (Authorization header); API keys are refused. Browsers need a
+ *       fetch-based EventSource client. Events are only sent to the roles or users they concern:
+ *       - `lab.order.status` - doctors, lab technicians and receptionists
+ *       - `prescription.pending` - pharmacists
+ *       - `notification.created` - the notification's recipient
+ *       - `queue.token.called` - doctors and receptionists
+ *
+ *       Admins receive every role-scoped event. The stream ends with an `expired` event when the
+ *       access token expires; reconnect with a fresh one and refetch anything missed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: types
+ *         schema:
+ *           type: string
+ *         description: Comma-separated event types to receive (default all)
+ *     responses:
+ *       200:
+ *         description: text/event-stream
+ */
+export async function streamEvents(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const { types } = eventStreamQuerySchema.parse(req.query);
+        const user = req.user!;
+
+        eventsService.subscribe(res, {
+            userId: user.userId,
+            role: user.role,
+            types,
+            expiresAt: user.exp ? new Date(user.exp * 1000) : undefined,
+        });
+    } catch (error) {
+        next(error);
+    }
+}
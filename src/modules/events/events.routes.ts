@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { streamEvents } from './events.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Events
+ *   description: Live updates over server-sent events
+ */
+
+router.use(authGuard);
+
+router.get('/stream', streamEvents);
+
+export default router;
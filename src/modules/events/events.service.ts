@@ -0,0 +1,138 @@
+import { Response } from 'express';
+import { logger } from '../../utils/logger.js';
+import { UserRole } from '@prisma/client';
+import { EventAudience, RealtimeEventPayloads, RealtimeEventType } from './events.types.js';
+
+// Comment line sent on idle streams so proxies do not time them out
+const HEARTBEAT_MS = 25_000;
+
+// Browsers reconnect after this long when a stream drops
+const RETRY_MS = 5_000;
+
+// Older streams of the same user are closed beyond this (e.g. forgotten tabs)
+const MAX_STREAMS_PER_USER = 5;
+
+interface Subscriber {
+    id: number;
+    userId: string;
+    role: UserRole;
+    types: Set<RealtimeEventType>;
+    res: Response;
+    timers: NodeJS.Timeout[];
+}
+
+export interface SubscribeOptions {
+    userId: string;
+    role: UserRole;
+    types: RealtimeEventType[];
+    // The stream ends when the access token does; the client reconnects with a fresh one
+    expiresAt?: Date;
+}
+
+/**
+ * Server-sent event streams held by this process. Events are published from
+ * the services where things happen and delivered to connected users in the
+ * audience. Nothing is stored: clients refetch after reconnecting.
+ */
+export class EventsService {
+    private subscribers = new Map<number, Subscriber>();
+    private nextId = 1;
+
+    subscribe(res: Response, options: SubscribeOptions): void {
+        const existing = [...this.subscribers.values()].filter(subscriber => subscriber.userId === options.userId);
+        for (const stale of existing.slice(0, Math.max(existing.length - MAX_STREAMS_PER_USER + 1, 0))) {
+            this.close(stale.id);
+        }
+
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            // Stops nginx-style proxies from buffering the stream
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+        res.write(`retry: ${RETRY_MS}\n\n`);
+
+        const subscriber: Subscriber = {
+            id: this.nextId++,
+            userId: options.userId,
+            role: options.role,
+            types: new Set(options.types),
+            res,
+            timers: [],
+        };
+
+        subscriber.timers.push(setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS));
+
+        if (options.expiresAt) {
+            const remaining = Math.max(options.expiresAt.getTime() - Date.now(), 0);
+            subscriber.timers.push(setTimeout(() => {
+                this.send(subscriber, 'expired', {});
+                this.close(subscriber.id);
+            }, remaining));
+        }
+
+        this.subscribers.set(subscriber.id, subscriber);
+        res.on('close', () => this.remove(subscriber.id));
+
+        this.send(subscriber, 'ready', { types: options.types });
+        logger.debug({ userId: options.userId, streams: this.subscribers.size }, 'Event stream opened');
+    }
+
+    /**
+     * Deliver an event to every connected user in the audience. Never throws -
+     * a failed push must not fail the change that caused it.
+     */
+    publish<T extends RealtimeEventType>(type: T, data: RealtimeEventPayloads[T], audience: EventAudience): void {
+        try {
+            for (const subscriber of this.subscribers.values()) {
+                if (subscriber.types.has(type) && this.isInAudience(subscriber, audience)) {
+                    this.send(subscriber, type, data);
+                }
+            }
+        } catch (error) {
+            logger.error({ error, type }, 'Failed to publish realtime event');
+        }
+    }
+
+    /**
+     * End every stream, e.g. on shutdown so the HTTP server can close
+     */
+    closeAll(): void {
+        for (const id of [...this.subscribers.keys()]) {
+            this.close(id);
+        }
+    }
+
+    private isInAudience(subscriber: Subscriber, audience: EventAudience): boolean {
+        if (audience.userIds?.includes(subscriber.userId)) return true;
+        if (!audience.roles?.length) return false;
+
+        return subscriber.role === UserRole.ADMIN || audience.roles.includes(subscriber.role);
+    }
+
+    private send(subscriber: Subscriber, event: string, data: unknown): void {
+        if (subscriber.res.writableEnded) return;
+
+        subscriber.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+
+    private close(id: number): void {
+        const subscriber = this.subscribers.get(id);
+        if (!subscriber) return;
+
+        this.remove(id);
+        subscriber.res.end();
+    }
+
+    private remove(id: number): void {
+        const subscriber = this.subscribers.get(id);
+        if (!subscriber) return;
+
+        subscriber.timers.forEach(timer => clearTimeout(timer));
+        this.subscribers.delete(id);
+    }
+}
+
+export const eventsService = new EventsService();
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+
+export const REALTIME_EVENT_TYPES = [
+    'lab.order.status',
+    'prescription.pending',
+    'notification.created',
+    'queue.token.called',
+] as const;
+
+export type RealtimeEventType = typeof REALTIME_EVENT_TYPES[number];
+
+export interface RealtimeEventPayloads {
+    'lab.order.status': {
+        orderId: string;
+        orderNumber: string | null;
+        // Both null for restricted patients
+        patientId: string | null;
+        testName: string | null;
+        previousStatus: string | null;
+        status: string;
+    };
+    'prescription.pending': {
+        medicalRecordId: string;
+        // Both null for restricted patients
+        patientId: string | null;
+        patientName: string | null;
+        doctorName: string;
+    };
+    // Notifications created in bulk have no id in the event; refetch the list
+    'notification.created': {
+        id: string | null;
+        title: string;
+        message: string;
+        type: string;
+        actionUrl: string | null;
+        referenceId: string | null;
+    };
+    // Token numbers only, so the feed is safe for the waiting-room display
+    'queue.token.called': {
+        tokenId: string;
+        tokenNumber: number;
+        doctorId: string;
+        doctorName: string;
+        department: string | null;
+    };
+}
+
+/**
+ * Who receives an event: everyone with one of the roles, plus the listed
+ * users. Admins receive every role-scoped event.
+ */
+export interface EventAudience {
+    roles?: UserRole[];
+    userIds?: string[];
+}
+
+export const eventStreamQuerySchema = z.object({
+    // Comma-separated; all types when left out
+    types: z.string()
+        .optional()
+        .transform(value => value ? value.split(',').map(type => type.trim()).filter(Boolean) : [...REALTIME_EVENT_TYPES])
+        .pipe(z.array(z.enum(REALTIME_EVENT_TYPES)).min(1)),
+});
+
+export type EventStreamQueryInput = z.infer<typeof eventStreamQuerySchema>;
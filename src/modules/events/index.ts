@@ -0,0 +1,3 @@
+export { default as eventsRoutes } from './events.routes.js';
+export { eventsService } from './events.service.js';
+export * from './events.types.js';
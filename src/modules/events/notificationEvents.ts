@@ -0,0 +1,31 @@
+import { Prisma } from '@prisma/client';
+import { eventsService } from './events.service.js';
+
+type NotificationData = Prisma.NotificationUncheckedCreateInput;
+
+/**
+ * Announce every new notification to its recipient, wherever it was created
+ * (services, transactions, jobs). Registered on the Prisma client in config/database.ts.
+ */
+export const notificationEventsMiddleware: Prisma.Middleware = async (params, next) => {
+    const result = await next(params);
+
+    if (params.model === 'Notification' && (params.action === 'create' || params.action === 'createMany')) {
+        const created: NotificationData[] = params.action === 'create'
+            ? [result]
+            : [params.args?.data ?? []].flat();
+
+        for (const notification of created) {
+            eventsService.publish('notification.created', {
+                id: notification.id ?? null,
+                title: notification.title,
+                message: notification.message,
+                type: notification.type ?? 'info',
+                actionUrl: notification.actionUrl ?? null,
+                referenceId: notification.referenceId ?? null,
+            }, { userIds: [notification.recipientId] });
+        }
+    }
+
+    return result;
+};
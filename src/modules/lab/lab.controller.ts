@@ -91,7 +91,7 @@ export async function getLabOrders(
 ): Promise<void> {
     try {
         const query = labOrderQuerySchema.parse(req.query);
-        const result = await labService.getOrders(query);
+        const result = await labService.getOrders(query, req.user!);
         sendSuccess(res, result);
     } catch (error: any) {
         const requestId = req.headers['x-request-id'] || 'unknown';
@@ -179,7 +179,7 @@ export async function getLabOrder(
     next: NextFunction
 ): Promise<void> {
     try {
-        const order = await labService.getOrder(req.params.id as string);
+        const order = await labService.getOrder(req.params.id as string, req.user!);
         sendSuccess(res, order);
     } catch (error) {
         logger.error({ context: 'LabController.getLabOrder', error, orderId: req.params.id }, 'Failed to get lab order');
@@ -237,7 +237,7 @@ export async function updateLabOrderStatus(
 ): Promise<void> {
     try {
         const { status } = z.object({ status: z.string() }).parse(req.body);
-        const order = await labService.updateOrderStatus(req.params.id as string, status);
+        const order = await labService.updateOrderStatus(req.params.id as string, status, req.user);
         sendSuccess(res, order, 'Order status updated');
     } catch (error) {
         logger.error({ context: 'LabController.updateLabOrderStatus', error, orderId: req.params.id, body: req.body }, 'Failed to update lab order status');
@@ -269,7 +269,7 @@ export async function confirmLabOrderPayment(
     next: NextFunction
 ): Promise<void> {
     try {
-        const order = await labService.confirmPayment(req.params.id as string);
+        const order = await labService.confirmPayment(req.params.id as string, req.user);
         sendSuccess(res, order, 'Payment confirmed successfully');
     } catch (error) {
         logger.error({ context: 'LabController.confirmLabOrderPayment', error, orderId: req.params.id }, 'Failed to confirm lab order payment');
@@ -328,7 +328,7 @@ export async function submitLabResult(
 ): Promise<void> {
     try {
         const input = createLabResultSchema.parse(req.body);
-        const result = await labService.submitResult(req.user!.userId, input);
+        const result = await labService.submitResult(req.user!.userId, input, req.user);
         sendCreated(res, result, 'Lab result submitted successfully');
     } catch (error) {
         logger.error({ context: 'LabController.submitLabResult', error, body: req.body }, 'Failed to submit lab result');
@@ -375,7 +375,7 @@ export async function updateLabResult(
 ): Promise<void> {
     try {
         const input = updateLabResultSchema.parse(req.body);
-        const result = await labService.updateResult(req.params.id as string, req.user!.userId, input);
+        const result = await labService.updateResult(req.params.id as string, req.user!.userId, input, req.user);
         sendSuccess(res, result, 'Lab result updated successfully');
     } catch (error) {
         logger.error({ context: 'LabController.updateLabResult', error, resultId: req.params.id, body: req.body }, 'Failed to update lab result');
@@ -407,7 +407,7 @@ export async function deleteLabResult(
     next: NextFunction
 ): Promise<void> {
     try {
-        await labService.deleteResult(req.params.id as string);
+        await labService.deleteResult(req.params.id as string, req.user);
         sendSuccess(res, null, 'Lab result deleted successfully');
     } catch (error) {
         logger.error({ context: 'LabController.deleteLabResult', error, resultId: req.params.id }, 'Failed to delete lab result');
@@ -480,7 +480,7 @@ export async function deleteLabTest(req: Request, res: Response, next: NextFunct
  */
 export async function deleteLabOrder(req: Request, res: Response, next: NextFunction) {
     try {
-        await labService.deleteTestOrder(req.params.id as string);
+        await labService.deleteTestOrder(req.params.id as string, req.user);
         sendSuccess(res, null, 'Lab order deleted successfully');
     } catch (error) {
         logger.error({ context: 'LabController.deleteLabOrder', error, orderId: req.params.id }, 'Failed to delete lab order');
@@ -491,7 +491,7 @@ export async function deleteLabOrder(req: Request, res: Response, next: NextFunc
 export async function downloadLabReport(req: Request, res: Response, next: NextFunction) {
     try {
         const id = req.params.id as string;
-        const pdfBuffer = await labService.generateReportPDF(id);
+        const pdfBuffer = await labService.generateReportPDF(id, req.user);
         
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', `attachment; filename=Lab_Report_${id}.pdf`);
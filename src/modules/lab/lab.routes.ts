@@ -18,37 +18,39 @@ import {
     downloadLabReport,
     confirmLabOrderPayment
 } from './lab.controller.js';
-import { authGuard } from '../../middleware/authGuard.js';
-import { roleGuard } from '../../middleware/roleGuard.js';
-import { UserRole } from '@prisma/client';
+import { apiKeyAuthGuard, authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
 const router = Router();
 
-router.use(authGuard);
+// Doctor's own orders; ahead of '/orders/:id' so it is not taken for an order ID
+router.get('/orders/my-orders', authGuard, requirePermission('lab.order.mine'), getMyLabOrders);
+
+// Also open to lab analyzers and other machine clients with a scoped API key
+router.get('/orders', apiKeyAuthGuard('lab.order.read'), requirePermission('lab.order.read'), getLabOrders);
+router.get('/orders/:id', apiKeyAuthGuard('lab.order.read'), requirePermission('lab.order.read'), getLabOrder);
+router.get('/orders/:orderId/parameters', apiKeyAuthGuard('lab.result.create'), requirePermission('lab.result.create'), getOrderParameters);
+router.post('/results', apiKeyAuthGuard('lab.result.create'), requirePermission('lab.result.create'), submitLabResult);
+router.get('/tests', apiKeyAuthGuard('lab.test.read'), requirePermission('lab.test.read'), getLabTests);
 
-// Doctor's own orders
-router.get('/orders/my-orders', roleGuard(UserRole.ADMIN, UserRole.DOCTOR), getMyLabOrders);
+router.use(authGuard);
 
 // Orders - Doctors and Lab Techs can create/view
-router.post('/orders', roleGuard(UserRole.ADMIN, UserRole.RECEPTIONIST, UserRole.DOCTOR), createLabOrder);
-router.get('/orders', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST), getLabOrders);
-router.get('/orders/:id', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST), getLabOrder);
-router.get('/orders/:orderId/parameters', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN), getOrderParameters);
-router.patch('/orders/:id/status', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST), updateLabOrderStatus);
-router.get('/orders/:id/report', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.PATIENT), downloadLabReport);
-router.patch('/orders/:id/confirm-payment', roleGuard(UserRole.ADMIN, UserRole.RECEPTIONIST), confirmLabOrderPayment);
-router.delete('/orders/:id', roleGuard(UserRole.ADMIN), deleteLabOrder);
+router.post('/orders', requirePermission('lab.order.create'), createLabOrder);
+router.patch('/orders/:id/status', requirePermission('lab.order.update'), updateLabOrderStatus);
+// Patients download their own reports, so this one stays role-based
+router.get('/orders/:id/report', requirePermission('lab.report.download'), downloadLabReport);
+router.patch('/orders/:id/confirm-payment', requirePermission('lab.order.payment'), confirmLabOrderPayment);
+router.delete('/orders/:id', requirePermission('lab.order.delete'), deleteLabOrder);
 
 // Results - Lab Techs submit, Doctors can view
-router.post('/results', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN), submitLabResult);
-router.get('/results/:id', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.LAB_TECHNICIAN), getLabResult);
-router.put('/results/:id', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN), updateLabResult);
-router.delete('/results/:id', roleGuard(UserRole.ADMIN), deleteLabResult);
+router.get('/results/:id', requirePermission('lab.result.read'), getLabResult);
+router.put('/results/:id', requirePermission('lab.result.verify'), updateLabResult);
+router.delete('/results/:id', requirePermission('lab.result.delete'), deleteLabResult);
 
 // Lab Test Catalog Management
-router.post('/tests', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN), createLabTest);
-router.get('/tests', roleGuard(UserRole.ADMIN, UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST), getLabTests);
-router.put('/tests/:id', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN), updateLabTest);
-router.delete('/tests/:id', roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN), deleteLabTest);
+router.post('/tests', requirePermission('lab.test.manage'), createLabTest);
+router.put('/tests/:id', requirePermission('lab.test.manage'), updateLabTest);
+router.delete('/tests/:id', requirePermission('lab.test.manage'), deleteLabTest);
 
 export default router;
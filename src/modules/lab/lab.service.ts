@@ -1,11 +1,18 @@
 import { prisma } from '../../config/database.js';
-import { LabTestStatus } from '@prisma/client';
+import { LabTestStatus, UserRole } from '@prisma/client';
 import { logger } from '../../utils/logger.js';
 import { pdfGenerator } from '../../services/pdfGenerator.js';
-import { NotFoundError, ValidationError } from '../../middleware/errorHandler.js';
+import { NotFoundError, ValidationError, ForbiddenError } from '../../middleware/errorHandler.js';
 import { CreateLabOrderInput, CreateLabResultInput, UpdateLabResultInput, LabOrderQueryInput, LabOrderResponse, LabResultResponse, CreateLabTestInput, UpdateLabTestInput } from './lab.types.js';
 import { PaginatedResponse } from '../users/users.types.js';
 import { patientsService } from '../patients/patients.service.js';
+import { guardiansService } from '../patients/guardians.service.js';
+import { consentService } from '../consent/consent.service.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { eventsService } from '../events/events.service.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
 
 export class LabService {
     async createOrder(orderedByUserId: string, userRole: any, input: CreateLabOrderInput): Promise<LabOrderResponse> {
@@ -114,11 +121,12 @@ export class LabService {
             throw new ValidationError(`The lab test '${input.testName}' is not in the official catalog. Please select a valid test from the list.`);
         }
 
-        // Handle OP Visit recording
+        // Handle OP Visit recording. An OP visit needs a doctor; orders placed
+        // without one (e.g. by reception) record no visit.
         let visitRecordId = null;
-        if (input.visitType === 'OP' && input.patientId && !isWalkIn) {
+        if (input.visitType === 'OP' && input.patientId && !isWalkIn && doctorIdForOrder) {
             try {
-                visitRecordId = await patientsService.createOP(input.patientId, input.doctorId);
+                visitRecordId = await patientsService.createOP(input.patientId, doctorIdForOrder);
                 console.log(`[LabService] Created auto-OP record ${visitRecordId} for patient ${input.patientId}`);
             } catch (error) {
                 logger.error({ error, patientId: input.patientId }, 'Failed to create auto-OP record for lab order. Continuing order creation.');
@@ -174,12 +182,15 @@ export class LabService {
         return this.formatOrder(order as any);
     }
 
-    async getOrders(query: LabOrderQueryInput): Promise<PaginatedResponse<LabOrderResponse>> {
+    async getOrders(query: LabOrderQueryInput, viewer: TokenPayload): Promise<PaginatedResponse<LabOrderResponse>> {
         try {
             const { page = 1, limit = 10, patientId, status: statusQuery, priority, startDate, endDate } = query;
             const skip = (Number(page) - 1) * Number(limit);
 
-            const where: any = {};
+            // Walk-in orders have no patient record to restrict
+            const where: any = {
+                OR: [{ patientId: null }, { patient: await breakGlassService.visiblePatientsWhere(viewer) }],
+            };
             if (patientId) where.patientId = patientId;
 
             if (statusQuery) {
@@ -252,7 +263,7 @@ export class LabService {
         }
     }
 
-    async getOrder(id: string): Promise<LabOrderResponse> {
+    async getOrder(id: string, viewer: TokenPayload): Promise<LabOrderResponse> {
         const order = await prisma.labTestOrder.findUnique({
             where: { id },
             include: {
@@ -268,6 +279,8 @@ export class LabService {
             throw new NotFoundError('Lab order not found');
         }
 
+        await breakGlassService.assertCanOpen(viewer, order.patientId);
+
         return this.formatOrder(order as any);
     }
 
@@ -550,7 +563,7 @@ export class LabService {
         }
     }
 
-    async submitResult(technicianUserId: string, input: CreateLabResultInput): Promise<LabResultResponse> {
+    async submitResult(technicianUserId: string, input: CreateLabResultInput, actor?: AuditActor): Promise<LabResultResponse> {
         // Get technician staff ID
         const technician = await prisma.staff.findUnique({ where: { userId: technicianUserId } });
         if (!technician) {
@@ -620,10 +633,17 @@ export class LabService {
             return labResult;
         });
 
+        await auditService.record({ actor, entityType: 'LabTestResult', entityId: result.id, action: 'CREATE', after: result });
+
         return this.formatResult(result);
     }
 
-    async updateResult(id: string, technicianUserId: string, input: UpdateLabResultInput): Promise<LabResultResponse> {
+    async updateResult(
+        id: string,
+        technicianUserId: string,
+        input: UpdateLabResultInput,
+        actor?: AuditActor
+    ): Promise<LabResultResponse> {
         // Validate result exists
         const existingResult = await prisma.labTestResult.findUnique({
             where: { id },
@@ -682,6 +702,15 @@ export class LabService {
             return labResult;
         });
 
+        await auditService.record({
+            actor,
+            entityType: 'LabTestResult',
+            entityId: id,
+            action: 'UPDATE',
+            before: existingResult,
+            after: result,
+        });
+
         return this.formatResult(result);
     }
 
@@ -693,7 +722,7 @@ export class LabService {
         return this.formatResult(result);
     }
 
-    async deleteResult(id: string): Promise<void> {
+    async deleteResult(id: string, actor?: AuditActor): Promise<void> {
         const result = await prisma.labTestResult.findUnique({ where: { id } });
         if (!result) {
             throw new NotFoundError('Lab result not found');
@@ -706,9 +735,11 @@ export class LabService {
                 data: { status: 'IN_PROGRESS' }
             })
         ]);
+
+        await auditService.record({ actor, entityType: 'LabTestResult', entityId: id, action: 'DELETE', before: result });
     }
 
-    async confirmPayment(id: string): Promise<LabOrderResponse> {
+    async confirmPayment(id: string, actor?: AuditActor): Promise<LabOrderResponse> {
         const order = await prisma.labTestOrder.findUnique({
             where: { id },
         });
@@ -737,10 +768,21 @@ export class LabService {
             },
         });
 
+        await auditService.record({
+            actor,
+            entityType: 'LabTestOrder',
+            entityId: id,
+            action: 'STATUS_CHANGE',
+            before: { status: order.status },
+            after: { status: updatedOrder.status },
+        });
+
         return this.formatOrder(updatedOrder as any);
     }
 
-    async updateOrderStatus(id: string, status: string): Promise<LabOrderResponse> {
+    async updateOrderStatus(id: string, status: string, actor?: AuditActor): Promise<LabOrderResponse> {
+        const previous = await prisma.labTestOrder.findUnique({ where: { id }, select: { status: true } });
+
         const upperStatus = status.toUpperCase();
         const mappedStatus = (upperStatus === 'PENDING' || upperStatus === 'PAYMENT_PENDING')
             ? LabTestStatus.PAYMENT_PENDING
@@ -750,12 +792,33 @@ export class LabService {
             where: { id },
             data: { status: mappedStatus },
             include: {
-                patient: { select: { firstName: true, lastName: true } },
+                patient: { select: { firstName: true, lastName: true, isRestricted: true } },
                 orderedBy: { select: { firstName: true, lastName: true, user: { select: { role: true } } } },
                 bill: true,
                 result: true,
             },
         });
+
+        await auditService.record({
+            actor,
+            entityType: 'LabTestOrder',
+            entityId: id,
+            action: 'STATUS_CHANGE',
+            before: previous ? { status: previous.status } : undefined,
+            after: { status: order.status },
+        });
+
+        // Restricted patients stay out of the broadcast; screens refetch through the filtered endpoints
+        const hidePatient = order.patient?.isRestricted ?? false;
+        eventsService.publish('lab.order.status', {
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            patientId: hidePatient ? null : order.patientId,
+            testName: hidePatient ? null : order.testName,
+            previousStatus: previous?.status ?? null,
+            status: order.status,
+        }, { roles: [UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST] });
+
         return this.formatOrder(order as any);
     }
 
@@ -936,7 +999,7 @@ export class LabService {
         });
     }
 
-    async deleteTestOrder(id: string) {
+    async deleteTestOrder(id: string, actor?: AuditActor) {
         const order = await prisma.labTestOrder.findUnique({
             where: { id: id },
             include: { result: true }
@@ -952,9 +1015,36 @@ export class LabService {
         await prisma.labTestOrder.delete({
             where: { id }
         });
+
+        const { result, ...deletedOrder } = order;
+        await auditService.record({ actor, entityType: 'LabTestOrder', entityId: id, action: 'DELETE', before: deletedOrder });
+    }
+
+    /**
+     * Patients only get reports that belong to them or their dependents, that the lab
+     * has released, and while lab report sharing consent is in place
+     */
+    private async assertReleasedToPatient(
+        order: { patientId: string; isReportVisibleToPatient: boolean },
+        userId: string
+    ): Promise<void> {
+        const ownPatients = await prisma.patient.findMany({ where: { userId }, select: { uhid: true } });
+        const ownUhids = ownPatients.map(p => p.uhid);
+
+        if (!ownUhids.includes(order.patientId) && !(await guardiansService.isGuardianOf(ownUhids, order.patientId))) {
+            throw new ForbiddenError('Access denied: You can only view your own reports');
+        }
+
+        if (!order.isReportVisibleToPatient) {
+            throw new ForbiddenError('This report has not been released yet');
+        }
+
+        if (!(await consentService.hasConsent(order.patientId, 'LAB_REPORT_SHARING'))) {
+            throw new ForbiddenError('Lab report sharing is turned off for this patient. Please contact the clinic.');
+        }
     }
 
-    async generateReportPDF(orderId: string): Promise<Buffer> {
+    async generateReportPDF(orderId: string, requester?: TokenPayload): Promise<Buffer> {
         const order = (await (prisma.labTestOrder as any).findUnique({
             where: { id: orderId },
             include: {
@@ -974,6 +1064,12 @@ export class LabService {
             throw new NotFoundError('Lab order or results not found');
         }
 
+        if (requester?.role === UserRole.PATIENT) {
+            await this.assertReleasedToPatient(order, requester.userId);
+        } else if (requester) {
+            await breakGlassService.assertCanOpen(requester, order.patientId);
+        }
+
         let doctorName = '';
         if (order.isWalkInLab) {
             doctorName = 'Reception (Walk-in Lab)';
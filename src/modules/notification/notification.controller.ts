@@ -1,9 +1,7 @@
 import { Request, Response } from "express";
-import { NotificationService } from "./notification.service.js";
+import { notificationService } from "./notification.service.js";
 import { asyncHandler } from "../../utils/asyncHandler.js";
 
-const notificationService = new NotificationService();
-
 export const getNotifications = asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.userId;
     const notifications = await notificationService.getNotifications(userId);
@@ -1,5 +1,5 @@
 import { prisma } from "../../config/database.js";
-import { Prisma } from "@prisma/client";
+import { Prisma, UserRole } from "@prisma/client";
 
 export class NotificationService {
   async getNotifications(userId: string) {
@@ -54,9 +54,35 @@ export class NotificationService {
     message: string;
     type?: string;
     actionUrl?: string;
+    referenceId?: string;
   }) {
     return prisma.notification.create({
       data,
     });
   }
+
+  // Send the same notification to every active user with the given role
+  async notifyRole(
+    role: UserRole,
+    data: {
+      title: string;
+      message: string;
+      type?: string;
+      actionUrl?: string;
+      referenceId?: string;
+    }
+  ) {
+    const recipients = await prisma.user.findMany({
+      where: { role, status: "ACTIVE" },
+      select: { id: true },
+    });
+
+    const result = await prisma.notification.createMany({
+      data: recipients.map((recipient) => ({ ...data, recipientId: recipient.id })),
+    });
+
+    return result.count;
+  }
 }
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,152 @@
+import { prisma } from '../../config/database.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/AppError.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { Prisma } from '@prisma/client';
+import { AddDependentInput, GuardianLinkResponse } from './patients.types.js';
+
+const linkInclude = {
+    guardian: { select: { uhid: true, firstName: true, lastName: true, phone: true } },
+    dependent: { select: { uhid: true, firstName: true, lastName: true, dateOfBirth: true, gender: true } },
+} satisfies Prisma.PatientGuardianInclude;
+
+type LinkWithPatients = Prisma.PatientGuardianGetPayload<{ include: typeof linkInclude }>;
+
+export class GuardiansService {
+    /**
+     * Let the guardian's login manage the dependent's profile
+     * (bookings, bills, lab results)
+     */
+    async addDependent(guardianUhid: string, input: AddDependentInput, actor?: AuditActor): Promise<GuardianLinkResponse> {
+        if (guardianUhid === input.dependentUhid) {
+            throw new ValidationError('A patient cannot be their own guardian');
+        }
+
+        const [guardian, dependent] = await Promise.all([
+            prisma.patient.findUnique({ where: { uhid: guardianUhid }, select: { uhid: true, userId: true } }),
+            prisma.patient.findUnique({ where: { uhid: input.dependentUhid }, select: { uhid: true } }),
+        ]);
+
+        if (!guardian) {
+            throw new NotFoundError('Guardian patient');
+        }
+        if (!dependent) {
+            throw new NotFoundError('Dependent patient');
+        }
+        if (!guardian.userId) {
+            throw new ValidationError('The guardian needs a patient login before dependents can be added');
+        }
+
+        const existing = await prisma.patientGuardian.findUnique({
+            where: { guardianId_dependentId: { guardianId: guardian.uhid, dependentId: dependent.uhid } },
+        });
+
+        if (existing) {
+            throw new ConflictError('This patient is already a dependent of the guardian');
+        }
+
+        const link = await prisma.patientGuardian.create({
+            data: {
+                guardianId: guardian.uhid,
+                dependentId: dependent.uhid,
+                relation: input.relation,
+                consentedAt: input.consentedAt,
+                createdBy: actor?.userId,
+            },
+            include: linkInclude,
+        });
+
+        await auditService.record({
+            actor,
+            entityType: 'PatientGuardian',
+            entityId: link.id,
+            action: 'CREATE',
+            after: {
+                guardianId: link.guardianId,
+                dependentId: link.dependentId,
+                relation: link.relation,
+                consentedAt: link.consentedAt,
+            },
+        });
+
+        return this.formatLink(link);
+    }
+
+    async removeDependent(guardianUhid: string, dependentUhid: string, actor?: AuditActor): Promise<void> {
+        const link = await prisma.patientGuardian.findUnique({
+            where: { guardianId_dependentId: { guardianId: guardianUhid, dependentId: dependentUhid } },
+        });
+
+        if (!link) {
+            throw new NotFoundError('Guardian link');
+        }
+
+        await prisma.patientGuardian.delete({ where: { id: link.id } });
+
+        await auditService.record({
+            actor,
+            entityType: 'PatientGuardian',
+            entityId: link.id,
+            action: 'DELETE',
+            before: {
+                guardianId: link.guardianId,
+                dependentId: link.dependentId,
+                relation: link.relation,
+                consentedAt: link.consentedAt,
+            },
+        });
+    }
+
+    /**
+     * Profiles this patient manages
+     */
+    async findDependents(guardianUhid: string): Promise<GuardianLinkResponse[]> {
+        const links = await prisma.patientGuardian.findMany({
+            where: { guardianId: guardianUhid },
+            orderBy: { createdAt: 'asc' },
+            include: linkInclude,
+        });
+
+        return links.map(link => this.formatLink(link));
+    }
+
+    /**
+     * Patients who manage this profile
+     */
+    async findGuardians(dependentUhid: string): Promise<GuardianLinkResponse[]> {
+        const links = await prisma.patientGuardian.findMany({
+            where: { dependentId: dependentUhid },
+            orderBy: { createdAt: 'asc' },
+            include: linkInclude,
+        });
+
+        return links.map(link => this.formatLink(link));
+    }
+
+    /**
+     * Whether any of the given patients is a guardian of the dependent
+     */
+    async isGuardianOf(guardianUhids: string[], dependentUhid: string): Promise<boolean> {
+        if (guardianUhids.length === 0) return false;
+
+        const count = await prisma.patientGuardian.count({
+            where: { guardianId: { in: guardianUhids }, dependentId: dependentUhid },
+        });
+
+        return count > 0;
+    }
+
+    private formatLink(link: LinkWithPatients): GuardianLinkResponse {
+        return {
+            id: link.id,
+            relation: link.relation,
+            consentedAt: link.consentedAt,
+            createdBy: link.createdBy,
+            createdAt: link.createdAt,
+            guardian: link.guardian,
+            dependent: link.dependent,
+        };
+    }
+}
+
+export const guardiansService = new GuardiansService();
@@ -1,3 +1,10 @@
 export { default as patientsRoutes } from './patients.routes.js';
 export { patientsService } from './patients.service.js';
+export { patientMergeService } from './patientMerge.service.js';
+export { guardiansService } from './guardians.service.js';
+export { patientPrivacyService } from './patientPrivacy.service.js';
+export { patientSearchService } from './patientSearch.service.js';
+export { patientTimelineService } from './patientTimeline.service.js';
+export { patientImportService } from './patientImport.service.js';
+export { patientCardService } from './patientCard.service.js';
 export * from './patients.types.js';
@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '../../config/database.js';
+import { ValidationError } from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { HospitalBranding, PatientCardData, pdfGenerator } from '../../services/pdfGenerator.js';
+import { patientsService } from './patients.service.js';
+import { PatientResponse } from './patients.types.js';
+
+// Used until hospital settings have been saved
+const DEFAULT_HOSPITAL_NAME = 'Swetha Saiphani Clinics';
+
+const LOGO_TIMEOUT_MS = 5000;
+
+export class PatientCardService {
+    async generateCard(uhid: string): Promise<Buffer> {
+        const [data, branding] = await Promise.all([this.getCardData(uhid), this.getBranding()]);
+
+        return pdfGenerator.generatePatientCardPDF(data, branding);
+    }
+
+    async generateWristband(uhid: string): Promise<Buffer> {
+        const [data, branding] = await Promise.all([this.getCardData(uhid), this.getBranding()]);
+
+        return pdfGenerator.generatePatientWristbandPDF(data, branding);
+    }
+
+    private async getCardData(uhid: string): Promise<PatientCardData> {
+        const patient = await patientsService.findById(uhid);
+
+        if (patient.erasedAt) {
+            throw new ValidationError('This patient\'s personal details have been erased');
+        }
+
+        const name = [patient.title, patient.firstName, patient.lastName].filter(Boolean).join(' ');
+
+        return {
+            uhid: patient.displayUhid,
+            name,
+            ageGender: `${this.formatAge(patient.dateOfBirth)} / ${this.formatGender(patient.gender)}`,
+            bloodGroup: patient.bloodGroup,
+            registrationDate: patient.registrationDate,
+            qrText: `UHID:${patient.displayUhid}\nNAME:${name}`,
+        };
+    }
+
+    /**
+     * Branding from hospital settings. A logo that cannot be loaded is left out
+     * rather than failing the print.
+     */
+    private async getBranding(): Promise<HospitalBranding> {
+        const settings = await prisma.hospitalSettings.findFirst({ orderBy: { createdAt: 'asc' } });
+
+        return {
+            hospitalName: settings?.hospitalName || DEFAULT_HOSPITAL_NAME,
+            address: settings?.address ?? null,
+            contactNumber: settings?.contactNumber ?? null,
+            logo: settings?.logoUrl ? await this.loadLogo(settings.logoUrl) : null,
+        };
+    }
+
+    private async loadLogo(logoUrl: string): Promise<Uint8Array | null> {
+        try {
+            if (/^https?:\/\//i.test(logoUrl)) {
+                const response = await fetch(logoUrl, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                return new Uint8Array(await response.arrayBuffer());
+            }
+
+            // Uploaded files are served from the working directory, e.g. /uploads/logo.png
+            return await fs.readFile(path.resolve(logoUrl.replace(/^\/+/, '')));
+        } catch (error) {
+            logger.warn({ error, logoUrl }, 'Hospital logo could not be loaded for patient card');
+            return null;
+        }
+    }
+
+    private formatAge(dateOfBirth: Date): string {
+        const today = new Date();
+        const birthDate = new Date(dateOfBirth);
+        let months = (today.getFullYear() - birthDate.getFullYear()) * 12 + today.getMonth() - birthDate.getMonth();
+        if (today.getDate() < birthDate.getDate()) months--;
+
+        // Infants are shown in months
+        return months < 12 ? `${Math.max(months, 0)}M` : `${Math.floor(months / 12)}Y`;
+    }
+
+    private formatGender(gender: PatientResponse['gender']): string {
+        return gender.charAt(0) + gender.slice(1).toLowerCase();
+    }
+}
+
+export const patientCardService = new PatientCardService();
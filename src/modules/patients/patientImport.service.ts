@@ -0,0 +1,548 @@
+import crypto from 'crypto';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { prisma } from '../../config/database.js';
+import { ValidationError } from '../../utils/AppError.js';
+import { hashPassword } from '../../utils/crypto.js';
+import { logger } from '../../utils/logger.js';
+import { withDeleted } from '../../utils/softDelete.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { patientMergeService } from './patientMerge.service.js';
+import { uhidService } from './uhid.service.js';
+import { Prisma, UserRole } from '@prisma/client';
+import {
+    CreatePatientInput,
+    createPatientSchema,
+    ImportRowResult,
+    ImportRowStatus,
+    PatientImportInput,
+    PatientImportReport,
+} from './patients.types.js';
+
+// Rows written per transaction
+const BATCH_SIZE = 100;
+const MAX_ROWS = 10000;
+
+// Same threshold as the duplicate finder: a shared family phone alone is not flagged
+const DUPLICATE_QUERY = { minScore: 40, limit: 5 };
+
+type ImportField = Exclude<keyof CreatePatientInput, 'password' | 'uhid'> | 'legacyId';
+
+const IMPORT_FIELDS: ImportField[] = [
+    'legacyId', 'title', 'firstName', 'lastName', 'dateOfBirth', 'gender', 'phone', 'altPhone', 'email',
+    'address', 'state', 'district', 'mandal', 'village', 'pincode',
+    'emergencyContact', 'emergencyName', 'emergencyRelation', 'bloodGroup', 'allergies',
+    'idType', 'idNumber', 'referredBy', 'referredPerson', 'consultingDoctor', 'department',
+    'paymentMode', 'registrationFee', 'registrationDate',
+];
+
+// Column names legacy systems commonly use, after normalizeHeader()
+const HEADER_ALIASES: Record<string, ImportField> = {
+    uhid: 'legacyId',
+    legacyuhid: 'legacyId',
+    mrn: 'legacyId',
+    mrno: 'legacyId',
+    patientid: 'legacyId',
+    oldid: 'legacyId',
+    surname: 'lastName',
+    dob: 'dateOfBirth',
+    birthdate: 'dateOfBirth',
+    sex: 'gender',
+    mobile: 'phone',
+    mobileno: 'phone',
+    mobilenumber: 'phone',
+    phonenumber: 'phone',
+    phoneno: 'phone',
+    alternatephone: 'altPhone',
+    alternatemobile: 'altPhone',
+    emailaddress: 'email',
+    emailid: 'email',
+    regdate: 'registrationDate',
+    regfee: 'registrationFee',
+};
+
+const GENDERS: Record<string, string> = { M: 'MALE', F: 'FEMALE', O: 'OTHER' };
+
+interface ParsedRow {
+    line: number;
+    values: Partial<Record<ImportField, string>>;
+}
+
+interface CheckedRow {
+    result: ImportRowResult;
+    input: CreatePatientInput | null;
+}
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes, CRLF or LF line ends
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Accepts YYYY-MM-DD as is and turns DD/MM/YYYY (or with - or .) into it
+ */
+function normalizeDate(value: string): string {
+    const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+    if (!match) return value;
+
+    const [, day, month, year] = match;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+export class PatientImportService {
+    /**
+     * Validate a CSV or XLSX file of patients against the registration schema and
+     * check every row for likely duplicates. Unless it is a dry run, valid rows are
+     * then registered in batches; logins are only created for rows with an email.
+     */
+    async import(file: Express.Multer.File, options: PatientImportInput, actor?: AuditActor): Promise<PatientImportReport> {
+        const { rows, ignoredColumns } = await this.readFile(file);
+
+        if (rows.length === 0) {
+            throw new ValidationError('The file has no patient rows');
+        }
+        if (rows.length > MAX_ROWS) {
+            throw new ValidationError(`Import at most ${MAX_ROWS} rows at a time`);
+        }
+
+        const checked = rows.map(row => this.validateRow(row));
+        await this.checkConflicts(checked);
+        await this.checkDuplicates(checked);
+
+        let usersCreated = 0;
+        if (!options.dryRun) {
+            const importable = checked.filter(({ result }) =>
+                result.status === 'VALID' || (result.status === 'DUPLICATE' && !options.skipDuplicates));
+
+            usersCreated = await this.commit(importable, actor);
+        }
+
+        const counts: Record<ImportRowStatus, number> = { VALID: 0, INVALID: 0, DUPLICATE: 0, IMPORTED: 0, FAILED: 0 };
+        for (const { result } of checked) {
+            counts[result.status]++;
+        }
+
+        logger.info({
+            fileName: file.originalname,
+            dryRun: options.dryRun,
+            counts,
+            usersCreated,
+            importedBy: actor?.userId,
+        }, options.dryRun ? 'Patient import checked' : 'Patients imported');
+
+        return {
+            dryRun: options.dryRun,
+            fileName: file.originalname,
+            totalRows: rows.length,
+            counts,
+            usersCreated,
+            ignoredColumns,
+            rows: checked.map(({ result }) => result),
+        };
+    }
+
+    /**
+     * The report as a spreadsheet, one line per input row
+     */
+    async toFile(report: PatientImportReport, format: 'csv' | 'xlsx'): Promise<Buffer> {
+        const workbook = new ExcelJS.Workbook();
+        const sheet = workbook.addWorksheet('Import report');
+
+        sheet.columns = [
+            { header: 'Row', key: 'row', width: 8 },
+            { header: 'Status', key: 'status', width: 12 },
+            { header: 'First name', key: 'firstName', width: 20 },
+            { header: 'Last name', key: 'lastName', width: 20 },
+            { header: 'Phone', key: 'phone', width: 15 },
+            { header: 'Legacy ID', key: 'legacyId', width: 16 },
+            { header: 'UHID', key: 'uhid', width: 20 },
+            { header: 'Login created', key: 'userCreated', width: 14 },
+            { header: 'Errors', key: 'errors', width: 50 },
+            { header: 'Possible duplicates', key: 'duplicates', width: 50 },
+        ];
+
+        for (const row of report.rows) {
+            const duplicates = row.duplicates.map(d => `${d.uhid} ${d.name} (${d.score}: ${d.reasons.join(', ')})`);
+            if (row.duplicateOfRow) duplicates.unshift(`Same as row ${row.duplicateOfRow}`);
+
+            sheet.addRow({
+                ...row,
+                userCreated: row.userCreated ? 'Yes' : 'No',
+                errors: row.errors.join('; '),
+                duplicates: duplicates.join('; '),
+            });
+        }
+
+        const buffer = format === 'csv'
+            ? await workbook.csv.writeBuffer()
+            : await workbook.xlsx.writeBuffer();
+
+        return Buffer.from(buffer);
+    }
+
+    private async readFile(file: Express.Multer.File): Promise<{ rows: ParsedRow[]; ignoredColumns: string[] }> {
+        const lines: { line: number; cells: string[] }[] = [];
+
+        if (path.extname(file.originalname).toLowerCase() === '.xlsx') {
+            const workbook = new ExcelJS.Workbook();
+            try {
+                await workbook.xlsx.load(file.buffer as unknown as ExcelJS.Buffer);
+            } catch {
+                throw new ValidationError('The file could not be read as an Excel workbook');
+            }
+
+            const sheet = workbook.worksheets[0];
+            sheet?.eachRow((row, line) => {
+                const cells: string[] = [];
+                row.eachCell({ includeEmpty: true }, (cell, column) => {
+                    cells[column - 1] = cell.value instanceof Date
+                        ? cell.value.toISOString().slice(0, 10)
+                        : cell.text;
+                });
+                lines.push({ line, cells: Array.from(cells, cell => cell ?? '') });
+            });
+        } else {
+            const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+            parseCsv(text).forEach((cells, index) => lines.push({ line: index + 1, cells }));
+        }
+
+        const [header, ...body] = lines;
+        if (!header) {
+            return { rows: [], ignoredColumns: [] };
+        }
+
+        const fieldsByName = new Map(IMPORT_FIELDS.map(field => [normalizeHeader(field), field]));
+        const ignoredColumns: string[] = [];
+        const columns = header.cells.map(name => {
+            const key = normalizeHeader(name);
+            const field = fieldsByName.get(key) ?? HEADER_ALIASES[key];
+            if (!field && name.trim()) ignoredColumns.push(name.trim());
+            return field;
+        });
+
+        const rows = body
+            .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+            .map(({ line, cells }) => {
+                const values: ParsedRow['values'] = {};
+                columns.forEach((field, index) => {
+                    const value = cells[index]?.trim();
+                    if (field && value) values[field] = value;
+                });
+                return { line, values };
+            });
+
+        return { rows, ignoredColumns };
+    }
+
+    private validateRow({ line, values }: ParsedRow): CheckedRow {
+        const result: ImportRowResult = {
+            row: line,
+            status: 'VALID',
+            firstName: values.firstName ?? null,
+            lastName: values.lastName ?? null,
+            phone: values.phone ?? null,
+            legacyId: values.legacyId ?? null,
+            uhid: null,
+            userCreated: false,
+            errors: [],
+            duplicates: [],
+            duplicateOfRow: null,
+        };
+
+        const { legacyId: _legacyId, ...fields } = values;
+        const parsed = createPatientSchema.safeParse({
+            ...fields,
+            email: fields.email?.toLowerCase(),
+            gender: fields.gender && (GENDERS[fields.gender.toUpperCase()] ?? fields.gender.toUpperCase()),
+            phone: fields.phone?.replace(/[\s-]/g, ''),
+            altPhone: fields.altPhone?.replace(/[\s-]/g, ''),
+            idType: fields.idType?.toLowerCase().replace(/^aadhar$/, 'aadhaar'),
+            idNumber: fields.idType?.toLowerCase().startsWith('aadha') ? fields.idNumber?.replace(/\s/g, '') : fields.idNumber,
+            dateOfBirth: fields.dateOfBirth && normalizeDate(fields.dateOfBirth),
+            registrationDate: fields.registrationDate && normalizeDate(fields.registrationDate),
+        });
+
+        if (!parsed.success) {
+            result.errors = parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`);
+        } else {
+            const { dateOfBirth, registrationDate } = parsed.data;
+            if (Number.isNaN(dateOfBirth.getTime())) {
+                result.errors.push('dateOfBirth: Invalid date');
+            } else if (dateOfBirth > new Date()) {
+                result.errors.push('dateOfBirth: Date of birth cannot be in the future');
+            }
+            if (registrationDate && Number.isNaN(registrationDate.getTime())) {
+                result.errors.push('registrationDate: Invalid date');
+            }
+        }
+
+        if (result.errors.length > 0) {
+            result.status = 'INVALID';
+            return { result, input: null };
+        }
+
+        return { result, input: parsed.success ? parsed.data : null };
+    }
+
+    /**
+     * Emails and legacy IDs must be unique, in the file and in the database
+     */
+    private async checkConflicts(rows: CheckedRow[]): Promise<void> {
+        const valid = rows.filter(row => row.input);
+        const emails = valid.map(row => row.input!.email).filter((email): email is string => Boolean(email));
+        const legacyIds = valid.map(row => row.result.legacyId).filter((id): id is string => Boolean(id));
+
+        const [users, aliases, patients] = await Promise.all([
+            prisma.user.findMany({ where: { email: { in: emails } }, select: { email: true } }),
+            prisma.patientAlias.findMany({ where: { alias: { in: legacyIds } }, select: { alias: true } }),
+            prisma.patient.findMany({ where: { ...withDeleted, uhid: { in: legacyIds } }, select: { uhid: true } }),
+        ]);
+
+        const takenEmails = new Set(users.map(user => user.email));
+        const takenIds = new Set([...aliases.map(a => a.alias), ...patients.map(p => p.uhid)]);
+        const seenEmails = new Map<string, number>();
+        const seenIds = new Map<string, number>();
+
+        for (const { result, input } of valid) {
+            const email = input!.email;
+            if (email) {
+                if (takenEmails.has(email)) {
+                    result.errors.push('email: A login with this email already exists');
+                } else if (seenEmails.has(email)) {
+                    result.errors.push(`email: Also used on row ${seenEmails.get(email)}`);
+                } else {
+                    seenEmails.set(email, result.row);
+                }
+            }
+
+            const legacyId = result.legacyId;
+            if (legacyId) {
+                if (takenIds.has(legacyId)) {
+                    result.errors.push('legacyId: Already in use as a UHID');
+                } else if (seenIds.has(legacyId)) {
+                    result.errors.push(`legacyId: Also used on row ${seenIds.get(legacyId)}`);
+                } else {
+                    seenIds.set(legacyId, result.row);
+                }
+            }
+        }
+
+        for (const row of valid) {
+            if (row.result.errors.length > 0) {
+                row.result.status = 'INVALID';
+                row.input = null;
+            }
+        }
+    }
+
+    /**
+     * Flag rows that match a registered patient or an earlier row in the file
+     */
+    private async checkDuplicates(rows: CheckedRow[]): Promise<void> {
+        const valid = rows.filter(row => row.input);
+        const seen = new Map<string, number>();
+
+        for (const { result, input } of valid) {
+            const keys = [
+                `${input!.phone}|${input!.dateOfBirth.toISOString().slice(0, 10)}|${`${input!.firstName}${input!.lastName}`.toLowerCase().replace(/[^a-z]/g, '')}`,
+            ];
+            if (input!.idNumber) keys.push(`id|${input!.idNumber.toUpperCase().replace(/[^A-Z0-9]/g, '')}`);
+
+            const earlier = keys.map(key => seen.get(key)).find(Boolean);
+            if (earlier) {
+                result.duplicateOfRow = earlier;
+            }
+            keys.forEach(key => seen.has(key) || seen.set(key, result.row));
+        }
+
+        // A few lookups at a time keeps thousands of rows quick without flooding the pool
+        for (let i = 0; i < valid.length; i += 10) {
+            await Promise.all(valid.slice(i, i + 10).map(async ({ result, input }) => {
+                const matches = await patientMergeService.findMatches({
+                    firstName: input!.firstName,
+                    lastName: input!.lastName,
+                    dateOfBirth: input!.dateOfBirth,
+                    gender: input!.gender,
+                    phone: input!.phone,
+                    altPhone: input!.altPhone ?? null,
+                    idNumber: input!.idNumber ?? null,
+                }, DUPLICATE_QUERY);
+
+                result.duplicates = matches.map(match => ({
+                    uhid: match.patient.uhid,
+                    name: `${match.patient.firstName} ${match.patient.lastName}`,
+                    score: match.score,
+                    reasons: match.reasons,
+                }));
+            }));
+        }
+
+        for (const { result } of valid) {
+            if (result.duplicates.length > 0 || result.duplicateOfRow) {
+                result.status = 'DUPLICATE';
+            }
+        }
+    }
+
+    /**
+     * Register the rows in batches. When a batch fails its rows are retried one by
+     * one, so a single bad row only fails itself.
+     */
+    private async commit(rows: CheckedRow[], actor?: AuditActor): Promise<number> {
+        // Imported logins get an unusable password; patients set their own via "forgot password"
+        const passwordHash = await hashPassword(crypto.randomBytes(32).toString('hex'));
+        let usersCreated = 0;
+
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+            const batch = rows.slice(i, i + BATCH_SIZE);
+
+            try {
+                usersCreated += await this.writeBatch(batch, passwordHash, actor);
+            } catch (error) {
+                logger.warn({ error, firstRow: batch[0].result.row }, 'Patient import batch failed, retrying rows one by one');
+
+                for (const row of batch) {
+                    try {
+                        usersCreated += await this.writeBatch([row], passwordHash, actor);
+                    } catch (rowError) {
+                        row.result.status = 'FAILED';
+                        row.result.errors.push(rowError instanceof Error ? rowError.message : 'Could not be saved');
+                    }
+                }
+            }
+        }
+
+        return usersCreated;
+    }
+
+    private async writeBatch(rows: CheckedRow[], passwordHash: string, actor?: AuditActor): Promise<number> {
+        const created = await prisma.$transaction(async (tx) => {
+            const patients = [];
+
+            for (const { input, result } of rows) {
+                const patient = await this.createPatient(tx, input!, result.legacyId, passwordHash, actor);
+                patients.push(patient);
+            }
+
+            return patients;
+        }, { timeout: 60000 });
+
+        rows.forEach(({ result }, index) => {
+            result.status = 'IMPORTED';
+            result.uhid = created[index].uhid;
+            result.userCreated = Boolean(created[index].userId);
+        });
+
+        for (const patient of created) {
+            await auditService.record({ actor, entityType: 'Patient', entityId: patient.uhid, action: 'CREATE', after: patient });
+        }
+
+        return created.filter(patient => patient.userId).length;
+    }
+
+    private async createPatient(
+        tx: Prisma.TransactionClient,
+        input: CreatePatientInput,
+        legacyId: string | null,
+        passwordHash: string,
+        actor?: AuditActor
+    ) {
+        const user = input.email
+            ? await tx.user.create({
+                data: { email: input.email, passwordHash, role: UserRole.PATIENT, status: 'ACTIVE' },
+            })
+            : null;
+
+        const uhid = await uhidService.next(tx);
+        const patient = await tx.patient.create({
+            data: {
+                uhid,
+                userId: user?.id ?? null,
+                title: input.title,
+                firstName: input.firstName,
+                lastName: input.lastName,
+                dateOfBirth: input.dateOfBirth,
+                gender: input.gender,
+                phone: input.phone,
+                altPhone: input.altPhone,
+                email: input.email,
+                address: input.address,
+                state: input.state,
+                district: input.district,
+                mandal: input.mandal,
+                village: input.village,
+                pincode: input.pincode,
+                emergencyContact: input.emergencyContact,
+                emergencyName: input.emergencyName,
+                emergencyRelation: input.emergencyRelation,
+                bloodGroup: input.bloodGroup,
+                allergies: input.allergies,
+                idType: input.idType,
+                idNumber: input.idNumber,
+                referredBy: input.referredBy,
+                referredPerson: input.referredPerson,
+                consultingDoctor: input.consultingDoctor,
+                department: input.department,
+                paymentMode: input.paymentMode,
+                registrationFee: input.registrationFee,
+                registrationDate: input.registrationDate || new Date(),
+            },
+        });
+
+        // The previous clinic's number keeps working in lookups and search
+        if (legacyId) {
+            await tx.patientAlias.create({
+                data: { alias: legacyId, patientId: uhid, mergedBy: actor?.userId },
+            });
+        }
+
+        return patient;
+    }
+}
+
+export const patientImportService = new PatientImportService();
@@ -0,0 +1,310 @@
+import { prisma } from '../../config/database.js';
+import { NotFoundError, ValidationError } from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { patientsService } from './patients.service.js';
+import { uhidService } from './uhid.service.js';
+import { Patient, Prisma } from '@prisma/client';
+import {
+    DuplicateCandidate,
+    DuplicateQueryInput,
+    MergePatientsInput,
+    MergePatientsResponse,
+} from './patients.types.js';
+
+// Score weights (out of 100). A shared phone alone is not enough to flag
+// a duplicate - families routinely register several members on one number.
+const WEIGHTS = {
+    idNumber: 40,
+    phone: 25,
+    altPhone: 15,
+    dateOfBirth: 20,
+    name: 15,
+    genderMismatch: -10,
+};
+
+// Demographic fields copied from the retired record when the survivor has none
+const FILLABLE_FIELDS = [
+    'title', 'email', 'altPhone', 'address', 'state', 'district', 'mandal', 'village', 'pincode',
+    'emergencyContact', 'emergencyName', 'emergencyRelation', 'bloodGroup', 'allergies',
+    'idType', 'idNumber', 'referredBy', 'referredPerson', 'consultingDoctor', 'department',
+] as const satisfies readonly (keyof Patient)[];
+
+// The details duplicates are matched on
+export type DuplicateProbe = Pick<Patient, 'firstName' | 'lastName' | 'dateOfBirth' | 'gender' | 'phone' | 'altPhone' | 'idNumber'>;
+
+export class PatientMergeService {
+    /**
+     * Likely duplicates of one patient, best match first
+     */
+    async findDuplicates(uhid: string, query: DuplicateQueryInput): Promise<DuplicateCandidate[]> {
+        const patient = await prisma.patient.findUnique({ where: { uhid } });
+        if (!patient) {
+            throw new NotFoundError('Patient');
+        }
+
+        return this.findMatches(patient, query, uhid);
+    }
+
+    /**
+     * Registered patients who are likely the same person as the given details,
+     * best match first. Also used to check rows before a bulk import.
+     */
+    async findMatches(probe: DuplicateProbe, query: DuplicateQueryInput, excludeUhid?: string): Promise<DuplicateCandidate[]> {
+        const dayStart = new Date(probe.dateOfBirth);
+        dayStart.setUTCHours(0, 0, 0, 0);
+        const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+        const criteria: Prisma.PatientWhereInput[] = [
+            { phone: probe.phone },
+            { altPhone: probe.phone },
+            { dateOfBirth: { gte: dayStart, lt: dayEnd } },
+            {
+                firstName: { equals: probe.firstName, mode: 'insensitive' },
+                lastName: { equals: probe.lastName, mode: 'insensitive' },
+            },
+        ];
+        if (probe.altPhone) criteria.push({ phone: probe.altPhone });
+        if (probe.idNumber) criteria.push({ idNumber: { equals: probe.idNumber, mode: 'insensitive' } });
+
+        const pool = await prisma.patient.findMany({
+            where: { ...(excludeUhid && { uhid: { not: excludeUhid } }), OR: criteria },
+            take: 200,
+        });
+
+        return pool
+            .map(candidate => this.score(probe, candidate))
+            .filter(candidate => candidate.score >= query.minScore)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, query.limit);
+    }
+
+    /**
+     * Fold the retired patient into the survivor: every appointment, bill, lab order,
+     * medical record, prescription and pharmacy return moves across, gaps in the
+     * survivor's demographics are filled, and the retired UHID becomes an alias.
+     * Either side may be given by display alias or an earlier retired UHID.
+     */
+    async merge(input: MergePatientsInput, actor?: AuditActor): Promise<MergePatientsResponse> {
+        const [survivorUhid, retiredUhid] = await Promise.all([
+            uhidService.resolve(input.survivorUhid),
+            uhidService.resolve(input.retiredUhid),
+        ]);
+
+        if (!survivorUhid) {
+            throw new NotFoundError('Surviving patient');
+        }
+        if (!retiredUhid) {
+            throw new NotFoundError('Patient to retire');
+        }
+        if (survivorUhid === retiredUhid) {
+            throw new ValidationError('Both UHIDs belong to the same patient');
+        }
+
+        const [survivor, retired] = await Promise.all([
+            prisma.patient.findUniqueOrThrow({ where: { uhid: survivorUhid } }),
+            prisma.patient.findUniqueOrThrow({ where: { uhid: retiredUhid } }),
+        ]);
+
+        const moved = await prisma.$transaction(async (tx) => {
+            const where = { patientId: retired.uhid };
+            const data = { patientId: survivor.uhid };
+
+            const counts = {
+                appointments: (await tx.appointment.updateMany({ where, data })).count,
+                bills: (await tx.bill.updateMany({ where, data })).count,
+                labTestOrders: (await tx.labTestOrder.updateMany({ where, data })).count,
+                medicalRecords: (await tx.medicalRecord.updateMany({ where, data })).count,
+                prescriptions: (await tx.prescription.updateMany({ where, data })).count,
+                pharmacyReturns: (await tx.pharmacyReturn.updateMany({ where, data })).count,
+                breakGlassGrants: (await tx.breakGlassGrant.updateMany({ where, data })).count,
+                consents: (await tx.patientConsent.updateMany({ where, data })).count,
+                erasureRequests: (await tx.erasureRequest.updateMany({ where, data })).count,
+                aliases: (await tx.patientAlias.updateMany({ where, data })).count,
+                opTokens: (await tx.opToken.updateMany({ where, data })).count,
+                appointmentSeries: (await tx.appointmentSeries.updateMany({ where, data })).count,
+            };
+
+            // Outstanding login codes were issued for the retired record; just drop them
+            await tx.phoneOtp.deleteMany({ where });
+
+            // Guardian links: drop any between the two records and any the survivor already has
+            await tx.patientGuardian.deleteMany({
+                where: {
+                    OR: [
+                        { guardianId: retired.uhid, dependentId: survivor.uhid },
+                        { guardianId: survivor.uhid, dependentId: retired.uhid },
+                    ],
+                },
+            });
+            const [survivorDependents, survivorGuardians] = await Promise.all([
+                tx.patientGuardian.findMany({ where: { guardianId: survivor.uhid }, select: { dependentId: true } }),
+                tx.patientGuardian.findMany({ where: { dependentId: survivor.uhid }, select: { guardianId: true } }),
+            ]);
+            await tx.patientGuardian.deleteMany({
+                where: {
+                    OR: [
+                        { guardianId: retired.uhid, dependentId: { in: survivorDependents.map(l => l.dependentId) } },
+                        { dependentId: retired.uhid, guardianId: { in: survivorGuardians.map(l => l.guardianId) } },
+                    ],
+                },
+            });
+            const guardianLinks =
+                (await tx.patientGuardian.updateMany({ where: { guardianId: retired.uhid }, data: { guardianId: survivor.uhid } })).count
+                + (await tx.patientGuardian.updateMany({ where: { dependentId: retired.uhid }, data: { dependentId: survivor.uhid } })).count;
+
+            const fill: Prisma.PatientUpdateInput = {};
+            for (const field of FILLABLE_FIELDS) {
+                if (survivor[field] === null && retired[field] !== null) {
+                    (fill as Record<string, unknown>)[field] = retired[field];
+                }
+            }
+            if (retired.isRestricted) fill.isRestricted = true;
+
+            // Keep one login. If only the retired record had one, it moves to the survivor;
+            // if both had one, the retired login is disabled and signed out.
+            let movedUserId: string | null = null;
+            if (retired.userId) {
+                await tx.patient.update({ where: { uhid: retired.uhid }, data: { userId: null } });
+
+                if (survivor.userId) {
+                    await tx.user.update({ where: { id: retired.userId }, data: { status: 'DISABLED' } });
+                    await tx.refreshToken.deleteMany({ where: { userId: retired.userId } });
+                } else {
+                    fill.user = { connect: { id: retired.userId } };
+                    movedUserId = retired.userId;
+                }
+            }
+
+            await tx.patient.delete({ where: { uhid: retired.uhid } });
+
+            if (Object.keys(fill).length > 0) {
+                await tx.patient.update({ where: { uhid: survivor.uhid }, data: fill });
+            }
+
+            await tx.patientAlias.create({
+                data: { alias: retired.uhid, patientId: survivor.uhid, mergedBy: actor?.userId },
+            });
+
+            return { ...counts, guardianLinks, movedUserId };
+        }, { timeout: 30000 });
+
+        const { movedUserId, ...movedCounts } = moved;
+
+        await auditService.record({
+            actor,
+            entityType: 'Patient',
+            entityId: survivor.uhid,
+            action: 'MERGE',
+            after: { retiredUhid: retired.uhid, retired, moved: movedCounts, movedUserId },
+        });
+
+        logger.info({ survivorUhid: survivor.uhid, retiredUhid: retired.uhid, moved: movedCounts }, 'Patients merged');
+
+        return {
+            patient: await patientsService.findById(survivor.uhid),
+            retiredUhid: retired.uhid,
+            moved: movedCounts,
+        };
+    }
+
+    private score(patient: DuplicateProbe, candidate: Patient): DuplicateCandidate {
+        let score = 0;
+        const reasons: string[] = [];
+
+        if (patient.idNumber && candidate.idNumber
+            && this.normalizeId(patient.idNumber) === this.normalizeId(candidate.idNumber)) {
+            score += WEIGHTS.idNumber;
+            reasons.push('Same ID number');
+        }
+
+        if (patient.phone === candidate.phone) {
+            score += WEIGHTS.phone;
+            reasons.push('Same phone number');
+        } else if (patient.phone === candidate.altPhone || (patient.altPhone && patient.altPhone === candidate.phone)) {
+            score += WEIGHTS.altPhone;
+            reasons.push('Phone matches alternate phone');
+        }
+
+        if (patient.dateOfBirth.toISOString().slice(0, 10) === candidate.dateOfBirth.toISOString().slice(0, 10)) {
+            score += WEIGHTS.dateOfBirth;
+            reasons.push('Same date of birth');
+        }
+
+        const similarity = this.nameSimilarity(patient, candidate);
+        if (similarity === 1) {
+            score += WEIGHTS.name;
+            reasons.push('Same name');
+        } else if (similarity >= 0.6) {
+            score += Math.round(WEIGHTS.name * similarity);
+            reasons.push('Similar name');
+        }
+
+        if (patient.gender !== candidate.gender && patient.gender !== 'OTHER' && candidate.gender !== 'OTHER') {
+            score += WEIGHTS.genderMismatch;
+            reasons.push('Different gender');
+        }
+
+        return {
+            patient: {
+                uhid: candidate.uhid,
+                firstName: candidate.firstName,
+                lastName: candidate.lastName,
+                dateOfBirth: candidate.dateOfBirth,
+                gender: candidate.gender,
+                phone: candidate.phone,
+                idType: candidate.idType,
+                idNumber: candidate.idNumber,
+                registrationDate: candidate.registrationDate,
+            },
+            score: Math.max(0, Math.min(100, score)),
+            reasons,
+        };
+    }
+
+    /**
+     * Dice coefficient over letter pairs, trying both name orders
+     * (first/last are often swapped at the front desk)
+     */
+    private nameSimilarity(a: DuplicateProbe, b: Patient): number {
+        const nameA = this.normalizeName(`${a.firstName}${a.lastName}`);
+        const forward = this.normalizeName(`${b.firstName}${b.lastName}`);
+        const swapped = this.normalizeName(`${b.lastName}${b.firstName}`);
+
+        return Math.max(this.dice(nameA, forward), this.dice(nameA, swapped));
+    }
+
+    private dice(a: string, b: string): number {
+        if (a === b) return 1;
+        if (a.length < 2 || b.length < 2) return 0;
+
+        const pairs = new Map<string, number>();
+        for (let i = 0; i < a.length - 1; i++) {
+            const pair = a.slice(i, i + 2);
+            pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+        }
+
+        let overlap = 0;
+        for (let i = 0; i < b.length - 1; i++) {
+            const pair = b.slice(i, i + 2);
+            const count = pairs.get(pair) ?? 0;
+            if (count > 0) {
+                overlap++;
+                pairs.set(pair, count - 1);
+            }
+        }
+
+        return (2 * overlap) / (a.length - 1 + b.length - 1);
+    }
+
+    private normalizeName(name: string): string {
+        return name.toLowerCase().replace(/[^a-z]/g, '');
+    }
+
+    private normalizeId(id: string): string {
+        return id.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    }
+}
+
+export const patientMergeService = new PatientMergeService();
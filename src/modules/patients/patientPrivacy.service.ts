@@ -0,0 +1,406 @@
+import { prisma } from '../../config/database.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/AppError.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { logger } from '../../utils/logger.js';
+import { pdfGenerator } from '../../services/pdfGenerator.js';
+import { withDeleted } from '../../utils/softDelete.js';
+import { auditService } from '../audit/audit.service.js';
+import { consentService } from '../consent/consent.service.js';
+import { labService } from '../lab/lab.service.js';
+import { notificationService } from '../notification/notification.service.js';
+import { PaginatedResponse } from '../users/users.types.js';
+import { patientsService } from './patients.service.js';
+import { uhidService } from './uhid.service.js';
+import { ErasureRequest, Prisma, UserRole } from '@prisma/client';
+import {
+    ErasureQueryInput,
+    ErasureRequestResponse,
+    ExportedDocument,
+    PatientDataExport,
+    RequestErasureInput,
+    ReviewErasureInput,
+} from './patients.types.js';
+
+// Erased logins keep a unique but meaningless email on the reserved domain
+const ERASED_EMAIL_DOMAIN = 'patients.invalid';
+
+// Personal fields dropped from audit snapshots of an erased patient, their bills and lab orders
+const ERASED_SNAPSHOT_FIELDS = new Set([
+    'title', 'firstName', 'lastName', 'dateOfBirth', 'phone', 'altPhone', 'email', 'address',
+    'state', 'district', 'mandal', 'village', 'pincode', 'emergencyContact', 'emergencyName',
+    'emergencyRelation', 'idType', 'idNumber', 'referredBy', 'referredPerson',
+    'customerName', 'walk_in_name', 'walkInName', 'walkInPhone',
+]);
+
+export class PatientPrivacyService {
+    /**
+     * Everything held about a patient, as JSON with the prescription and lab
+     * report PDFs embedded. Patients get lab results under the usual release rules.
+     */
+    async exportData(uhid: string, requester: TokenPayload): Promise<PatientDataExport> {
+        const patient = await patientsService.findById(uhid);
+        const patientId = patient.uhid;
+        const doctor = { select: { firstName: true, lastName: true, specialization: true } };
+
+        const [consents, appointments, medicalRecords, prescriptions, labOrders, bills] = await Promise.all([
+            consentService.getPatientConsents(patientId),
+            prisma.appointment.findMany({
+                where: { patientId },
+                include: { doctor },
+                orderBy: { scheduledAt: 'asc' },
+            }),
+            prisma.medicalRecord.findMany({
+                where: { patientId },
+                include: { doctor },
+                orderBy: { createdAt: 'asc' },
+            }),
+            prisma.prescription.findMany({
+                where: { patientId },
+                include: { doctor, items: true },
+                orderBy: { createdAt: 'asc' },
+            }),
+            patientsService.getLabResults(patientId, requester.role),
+            prisma.bill.findMany({
+                where: { patientId },
+                include: { items: true, transactions: true, returns: { include: { items: true } } },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+
+        const documents: ExportedDocument[] = [];
+        const patientName = `${patient.firstName} ${patient.lastName}`;
+
+        for (const prescription of prescriptions) {
+            // Copies are stamped as duplicates, like any repeat download
+            const pdf = await pdfGenerator.generatePrescriptionPDF({
+                patientName,
+                doctorName: `${prescription.doctor.firstName} ${prescription.doctor.lastName}`,
+                date: prescription.createdAt,
+                medicines: prescription.medicines,
+            }, false);
+            documents.push(this.toDocument(`Prescription-${prescription.id}.pdf`, pdf));
+        }
+
+        for (const order of labOrders) {
+            if (!order.result) continue;
+
+            try {
+                const pdf = await labService.generateReportPDF(order.id, requester);
+                documents.push(this.toDocument(`LabReport-${order.id}.pdf`, pdf));
+            } catch (error) {
+                // One broken report should not fail the whole export
+                logger.warn({ error, orderId: order.id, patientId }, 'Lab report left out of patient export');
+            }
+        }
+
+        logger.info({ patientId, requestedBy: requester.userId, documents: documents.length }, 'Patient data exported');
+
+        return {
+            exportedAt: new Date(),
+            patient,
+            consents,
+            appointments,
+            medicalRecords,
+            prescriptions,
+            labOrders,
+            bills,
+            documents,
+        };
+    }
+
+    /**
+     * File an erasure request for admin review. Only one may be pending at a time.
+     * The patient may be given by display alias or retired UHID, as the access guard allows.
+     */
+    async requestErasure(patientId: string, input: RequestErasureInput, requester: TokenPayload): Promise<ErasureRequestResponse> {
+        const uhid = await uhidService.resolve(patientId);
+        const patient = uhid && await prisma.patient.findUnique({
+            where: { uhid },
+            select: { uhid: true, firstName: true, lastName: true, erasedAt: true },
+        });
+
+        if (!uhid || !patient) {
+            throw new NotFoundError('Patient');
+        }
+
+        if (patient.erasedAt) {
+            throw new ValidationError('This patient\'s personal details have already been erased');
+        }
+
+        const pending = await prisma.erasureRequest.findFirst({
+            where: { patientId: uhid, status: 'PENDING' },
+        });
+
+        if (pending) {
+            throw new ConflictError('An erasure request for this patient is already waiting for review');
+        }
+
+        const request = await prisma.erasureRequest.create({
+            data: {
+                patientId: uhid,
+                requestedBy: requester.userId,
+                reason: input.reason,
+            },
+        });
+
+        logger.info({ requestId: request.id, patientId: uhid, requestedBy: requester.userId }, 'Erasure requested');
+
+        try {
+            await notificationService.notifyRole(UserRole.ADMIN, {
+                title: 'Data erasure requested',
+                message: `Erasure of personal details was requested for ${patient.firstName} ${patient.lastName} (${uhid}).`,
+                type: 'info',
+                actionUrl: '/admin/erasure-requests',
+                referenceId: request.id,
+            });
+        } catch (error) {
+            logger.error({ error, requestId: request.id }, 'Failed to notify admins of erasure request');
+        }
+
+        return this.formatRequest(request);
+    }
+
+    async findErasureRequests(query: ErasureQueryInput): Promise<PaginatedResponse<ErasureRequestResponse>> {
+        const { page, limit, status } = query;
+        const skip = (page - 1) * limit;
+        const where: Prisma.ErasureRequestWhereInput = status ? { status } : {};
+
+        const [requests, total] = await Promise.all([
+            prisma.erasureRequest.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: 'desc' },
+            }),
+            prisma.erasureRequest.count({ where }),
+        ]);
+
+        return {
+            items: requests.map(request => this.formatRequest(request)),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Approve a request and anonymise the patient. Clinical and financial records
+     * stay (they must be retained) but lose every personal identifier; the patient's
+     * login is disabled.
+     */
+    async completeErasure(requestId: string, reviewer: TokenPayload, input: ReviewErasureInput): Promise<ErasureRequestResponse> {
+        const request = await this.getPendingRequest(requestId);
+        const patient = await prisma.patient.findUnique({ where: { uhid: request.patientId } });
+
+        if (!patient) {
+            throw new NotFoundError('Patient');
+        }
+
+        const erasedAt = new Date();
+        const birthYear = new Date(Date.UTC(patient.dateOfBirth.getUTCFullYear(), 0, 1));
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // Claim the request first; a second reviewer approving at the same time matches nothing
+            await this.claimPendingRequest(tx, requestId, {
+                status: 'COMPLETED',
+                reviewedBy: reviewer.userId,
+                reviewedAt: erasedAt,
+                reviewNote: input.note,
+            });
+
+            await tx.patient.update({
+                where: { uhid: patient.uhid },
+                data: {
+                    title: null,
+                    firstName: 'Erased',
+                    lastName: 'Patient',
+                    // Only the birth year is kept, so ages on reports stay meaningful
+                    dateOfBirth: birthYear,
+                    phone: '',
+                    altPhone: null,
+                    email: null,
+                    address: null,
+                    state: null,
+                    district: null,
+                    mandal: null,
+                    village: null,
+                    pincode: null,
+                    emergencyContact: null,
+                    emergencyName: null,
+                    emergencyRelation: null,
+                    idType: null,
+                    idNumber: null,
+                    referredBy: null,
+                    referredPerson: null,
+                    erasedAt,
+                },
+            });
+
+            await tx.bill.updateMany({
+                where: { patientId: patient.uhid },
+                data: { customerName: null, phone: null, walk_in_name: null },
+            });
+            await tx.labTestOrder.updateMany({
+                where: { patientId: patient.uhid },
+                data: { walkInName: null, walkInPhone: null },
+            });
+
+            await tx.phoneOtp.deleteMany({ where: { patientId: patient.uhid } });
+
+            // Audit snapshots and staff notices copied the details too; retired UHIDs merged in count as well
+            const aliases = await tx.patientAlias.findMany({ where: { patientId: patient.uhid }, select: { alias: true } });
+            const uhids = [patient.uhid, ...aliases.map(({ alias }) => alias)];
+            const bills = await tx.bill.findMany({ where: { ...withDeleted, patientId: patient.uhid }, select: { id: true } });
+            const labOrders = await tx.labTestOrder.findMany({ where: { patientId: patient.uhid }, select: { id: true } });
+
+            const audits = await tx.auditLog.findMany({
+                where: {
+                    OR: [
+                        { entityType: 'Patient', entityId: { in: uhids } },
+                        { entityType: 'Bill', entityId: { in: bills.map(bill => bill.id) } },
+                        { entityType: 'LabTestOrder', entityId: { in: labOrders.map(order => order.id) } },
+                    ],
+                },
+                select: { id: true, before: true, after: true },
+            });
+            for (const audit of audits) {
+                await tx.auditLog.update({
+                    where: { id: audit.id },
+                    data: { before: this.scrubSnapshot(audit.before), after: this.scrubSnapshot(audit.after) },
+                });
+            }
+
+            // Notices name the patient next to the UHID in brackets
+            await tx.notification.deleteMany({
+                where: { OR: uhids.map(uhid => ({ message: { contains: `(${uhid})` } })) },
+            });
+
+            await tx.patientGuardian.deleteMany({
+                where: { OR: [{ guardianId: patient.uhid }, { dependentId: patient.uhid }] },
+            });
+
+            if (patient.userId) {
+                await tx.user.update({
+                    where: { id: patient.userId },
+                    data: {
+                        email: `erased-${patient.uhid.toLowerCase()}@${ERASED_EMAIL_DOMAIN}`,
+                        status: 'DISABLED',
+                        totpSecret: null,
+                        totpEnabled: false,
+                        totpRecoveryCodes: [],
+                    },
+                });
+                await tx.refreshToken.deleteMany({ where: { userId: patient.userId } });
+                await tx.passwordResetToken.deleteMany({ where: { userId: patient.userId } });
+                await tx.loginAttempt.deleteMany({ where: { userId: patient.userId } });
+            }
+
+            return tx.erasureRequest.findUniqueOrThrow({ where: { id: requestId } });
+        }, { timeout: 30000 });
+
+        await auditService.record({
+            actor: reviewer,
+            entityType: 'Patient',
+            entityId: patient.uhid,
+            action: 'ERASE',
+            after: { erasureRequestId: requestId, erasedAt },
+        });
+
+        logger.warn({ requestId, patientId: patient.uhid, reviewerId: reviewer.userId }, 'Patient personal details erased');
+
+        return this.formatRequest(updated);
+    }
+
+    /**
+     * An audit snapshot without ERASED_SNAPSHOT_FIELDS, at any depth: merge
+     * audits nest the retired patient's row
+     */
+    private scrubSnapshot(snapshot: Prisma.JsonValue): Prisma.InputJsonValue | typeof Prisma.DbNull {
+        if (snapshot === null) return Prisma.DbNull;
+
+        const scrub = (value: Prisma.JsonValue): Prisma.JsonValue => {
+            if (Array.isArray(value)) return value.map(scrub);
+            if (value === null || typeof value !== 'object') return value;
+
+            return Object.fromEntries(Object.entries(value)
+                .filter(([key]) => !ERASED_SNAPSHOT_FIELDS.has(key))
+                .map(([key, item]) => [key, scrub(item ?? null)]));
+        };
+
+        return scrub(snapshot) as Prisma.InputJsonValue;
+    }
+
+    async rejectErasure(requestId: string, reviewer: TokenPayload, input: ReviewErasureInput): Promise<ErasureRequestResponse> {
+        await this.getPendingRequest(requestId);
+
+        if (!input.note) {
+            throw new ValidationError('Please give the reason for rejecting the request');
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            await this.claimPendingRequest(tx, requestId, {
+                status: 'REJECTED',
+                reviewedBy: reviewer.userId,
+                reviewedAt: new Date(),
+                reviewNote: input.note,
+            });
+
+            return tx.erasureRequest.findUniqueOrThrow({ where: { id: requestId } });
+        });
+
+        logger.info({ requestId, reviewerId: reviewer.userId }, 'Erasure request rejected');
+
+        return this.formatRequest(updated);
+    }
+
+    private async getPendingRequest(id: string): Promise<ErasureRequest> {
+        const request = await prisma.erasureRequest.findUnique({ where: { id } });
+
+        if (!request) {
+            throw new NotFoundError('Erasure request');
+        }
+
+        if (request.status !== 'PENDING') {
+            throw new ConflictError('This erasure request has already been reviewed');
+        }
+
+        return request;
+    }
+
+    /**
+     * Record the review on a request that is still pending, or fail when
+     * another reviewer got there first
+     */
+    private async claimPendingRequest(
+        tx: Prisma.TransactionClient,
+        id: string,
+        data: Prisma.ErasureRequestUpdateManyMutationInput
+    ): Promise<void> {
+        const { count } = await tx.erasureRequest.updateMany({ where: { id, status: 'PENDING' }, data });
+
+        if (count === 0) {
+            throw new ConflictError('This erasure request has already been reviewed');
+        }
+    }
+
+    private toDocument(filename: string, content: Buffer): ExportedDocument {
+        return { filename, contentType: 'application/pdf', data: content.toString('base64') };
+    }
+
+    private formatRequest(request: ErasureRequest): ErasureRequestResponse {
+        return {
+            id: request.id,
+            patientId: request.patientId,
+            requestedBy: request.requestedBy,
+            reason: request.reason,
+            status: request.status,
+            reviewedBy: request.reviewedBy,
+            reviewedAt: request.reviewedAt,
+            reviewNote: request.reviewNote,
+            createdAt: request.createdAt,
+        };
+    }
+}
+
+export const patientPrivacyService = new PatientPrivacyService();
@@ -0,0 +1,271 @@
+import { prisma } from '../../config/database.js';
+import { logger } from '../../utils/logger.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
+import { uhidService } from './uhid.service.js';
+import { Gender, Prisma } from '@prisma/client';
+import { PatientSearchInput, PatientSearchResult, SearchField, SearchHighlight } from './patients.types.js';
+
+// Phone and ID fragments shorter than this match far too many records
+const MIN_CODE_LENGTH = 4;
+
+// Village matches count for less than name matches
+const VILLAGE_WEIGHT = 0.6;
+
+interface SearchRow {
+    uhid: string;
+    first_name: string;
+    last_name: string;
+    date_of_birth: Date;
+    gender: Gender;
+    phone: string;
+    alt_phone: string | null;
+    village: string | null;
+    id_number: string | null;
+    aliases: string[];
+    rank: number;
+    last_visit_at: Date | null;
+}
+
+/**
+ * Mirror of the patient_search_key() SQL function: folds transliteration
+ * variants (Lakshmi/Laxmi, Sreenivas/Srinivas) onto one spelling.
+ */
+function searchKey(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z ]/g, '')
+        .replace(/ksh|ks/g, 'x')
+        .replace(/ee|ii/g, 'i')
+        .replace(/oo|uu/g, 'u')
+        .replace(/([bdgkpts])h/g, '$1')
+        .replace(/y( |$)/g, 'i$1')
+        .replace(/([a-z])\1+/g, '$1');
+}
+
+function searchCode(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export class PatientSearchService {
+    /**
+     * Ranked fuzzy search across name, phone, alternate phone, UHID (including
+     * merged and display aliases), village and ID number. Names match regardless
+     * of word order and common spelling variants. Restricted patients the
+     * viewer cannot open are left out.
+     */
+    async search(input: PatientSearchInput, viewer: TokenPayload): Promise<PatientSearchResult[]> {
+        const { q, limit } = input;
+        const hasName = searchKey(q).replace(/ /g, '').length >= 2;
+        const digits = q.replace(/\D/g, '');
+        const code = searchCode(q);
+
+        const conditions: Prisma.Sql[] = [];
+        const scores: Prisma.Sql[] = [];
+
+        if (hasName) {
+            const nameKey = Prisma.sql`patient_search_key(p.first_name || ' ' || p.last_name)`;
+            const villageKey = Prisma.sql`patient_search_key(p.village)`;
+            const queryKey = Prisma.sql`patient_search_key(${q})`;
+
+            conditions.push(Prisma.sql`${queryKey} <% ${nameKey}`, Prisma.sql`${queryKey} <% ${villageKey}`);
+            scores.push(
+                Prisma.sql`GREATEST(similarity(${queryKey}, ${nameKey}), word_similarity(${queryKey}, ${nameKey}))`,
+                Prisma.sql`word_similarity(${queryKey}, ${villageKey}) * ${VILLAGE_WEIGHT}`,
+            );
+        }
+
+        if (digits.length >= MIN_CODE_LENGTH) {
+            const pattern = `%${digits}%`;
+
+            conditions.push(Prisma.sql`p.phone LIKE ${pattern}`, Prisma.sql`p.alt_phone LIKE ${pattern}`);
+            scores.push(Prisma.sql`CASE
+                WHEN p.phone = ${digits} OR p.alt_phone = ${digits} THEN 1
+                WHEN p.phone LIKE ${pattern} THEN 0.9
+                WHEN p.alt_phone LIKE ${pattern} THEN 0.8
+                ELSE 0 END`);
+        }
+
+        if (code.length >= MIN_CODE_LENGTH) {
+            const pattern = `%${code}%`;
+            const aliasMatch = (test: Prisma.Sql) => Prisma.sql`EXISTS (
+                SELECT 1 FROM patient_aliases pa WHERE pa.patient_id = p.uhid AND ${test}
+            )`;
+
+            conditions.push(
+                Prisma.sql`patient_search_code(p.uhid) LIKE ${pattern}`,
+                Prisma.sql`patient_search_code(p.id_number) LIKE ${pattern}`,
+                aliasMatch(Prisma.sql`patient_search_code(pa.alias) LIKE ${pattern}`),
+            );
+            scores.push(Prisma.sql`CASE
+                WHEN patient_search_code(p.uhid) = ${code} THEN 1
+                WHEN ${aliasMatch(Prisma.sql`patient_search_code(pa.alias) = ${code}`)} THEN 1
+                WHEN patient_search_code(p.id_number) = ${code} THEN 1
+                WHEN patient_search_code(p.id_number) LIKE ${pattern} THEN 0.8
+                WHEN patient_search_code(p.uhid) LIKE ${pattern} THEN 0.7
+                WHEN ${aliasMatch(Prisma.sql`patient_search_code(pa.alias) LIKE ${pattern}`)} THEN 0.7
+                ELSE 0 END`);
+        }
+
+        if (conditions.length === 0) {
+            return [];
+        }
+
+        const allowed = await breakGlassService.visibleRestrictedPatients(viewer);
+        const visible = allowed
+            ? Prisma.sql`AND (NOT p.is_restricted OR p.uhid = ANY(${allowed}))`
+            : Prisma.empty;
+
+        const rank = Prisma.sql`GREATEST(${Prisma.join(scores.map(score => Prisma.sql`(${score})::float8`))})`;
+
+        const rows = await prisma.$queryRaw<SearchRow[]>(Prisma.sql`
+            SELECT
+                r.*,
+                ARRAY(
+                    SELECT pa.alias FROM patient_aliases pa
+                    WHERE pa.patient_id = r.uhid
+                    ORDER BY pa.created_at
+                ) AS aliases,
+                GREATEST(
+                    (SELECT MAX(a.scheduled_at) FROM appointments a
+                     WHERE a.patient_id = r.uhid AND a.status IN ('IN_PROGRESS', 'COMPLETED')),
+                    (SELECT MAX(m.created_at) FROM medical_records m WHERE m.patient_id = r.uhid)
+                ) AS last_visit_at
+            FROM (
+                SELECT
+                    p.uhid, p.first_name, p.last_name, p.date_of_birth, p.gender,
+                    p.phone, p.alt_phone, p.village, p.id_number, p.registration_date,
+                    ${rank} AS rank
+                FROM patients p
+                WHERE p.deleted_at IS NULL AND (${Prisma.join(conditions, ' OR ')}) ${visible}
+                ORDER BY rank DESC, p.registration_date DESC
+                LIMIT ${limit}
+            ) r
+            ORDER BY r.rank DESC, r.registration_date DESC
+        `);
+
+        logger.debug({ q, results: rows.length }, 'Patient search');
+
+        return rows.map(row => this.toResult(row, q));
+    }
+
+    private toResult(row: SearchRow, q: string): PatientSearchResult {
+        const displayUhid = uhidService.looksLikeUhid(row.uhid)
+            ? row.uhid
+            : row.aliases.find(alias => uhidService.looksLikeUhid(alias)) ?? row.uhid;
+
+        return {
+            uhid: row.uhid,
+            displayUhid,
+            firstName: row.first_name,
+            lastName: row.last_name,
+            dateOfBirth: row.date_of_birth,
+            gender: row.gender,
+            phone: row.phone,
+            village: row.village,
+            rank: Math.round(Number(row.rank) * 1000) / 1000,
+            lastVisitAt: row.last_visit_at,
+            highlights: this.highlight(row, displayUhid, q),
+        };
+    }
+
+    /**
+     * Which fields matched, with the matching part marked
+     */
+    private highlight(row: SearchRow, displayUhid: string, q: string): SearchHighlight[] {
+        const words = searchKey(q).split(' ').filter(word => word.length >= 2);
+        const digits = q.replace(/\D/g, '');
+        const code = searchCode(q);
+        const highlights: SearchHighlight[] = [];
+
+        const add = (field: SearchField, snippet: string | null) => {
+            if (snippet) highlights.push({ field, snippet });
+        };
+
+        add('name', this.markWords(`${row.first_name} ${row.last_name}`, words));
+        if (digits.length >= MIN_CODE_LENGTH) {
+            add('phone', this.markCode(row.phone, digits));
+            if (row.alt_phone) add('altPhone', this.markCode(row.alt_phone, digits));
+        }
+        if (code.length >= MIN_CODE_LENGTH) {
+            const uhid = [displayUhid, row.uhid, ...row.aliases].find(value => searchCode(value).includes(code));
+            if (uhid) add('uhid', this.markCode(uhid, code));
+            if (row.id_number) add('idNumber', this.markCode(row.id_number, code));
+        }
+        if (row.village) add('village', this.markWords(row.village, words));
+
+        return highlights;
+    }
+
+    /**
+     * Mark each word whose search key is close to one of the query words
+     */
+    private markWords(value: string, words: string[]): string | null {
+        if (words.length === 0) return null;
+
+        let matched = false;
+        const snippet = value.split(/(\s+)/).map(part => {
+            const key = searchKey(part);
+            if (key.length >= 2 && words.some(word => this.isClose(key, word))) {
+                matched = true;
+                return `<mark>${escapeHtml(part)}</mark>`;
+            }
+            return escapeHtml(part);
+        }).join('');
+
+        return matched ? snippet : null;
+    }
+
+    /**
+     * Mark the part of the value that contains the code, ignoring separators
+     */
+    private markCode(value: string, code: string): string | null {
+        const positions: number[] = [];
+        let normalized = '';
+        for (let i = 0; i < value.length; i++) {
+            const char = value[i].toUpperCase();
+            if (/[A-Z0-9]/.test(char)) {
+                normalized += char;
+                positions.push(i);
+            }
+        }
+
+        const at = normalized.indexOf(code);
+        if (at < 0) return null;
+
+        const start = positions[at];
+        const end = positions[at + code.length - 1] + 1;
+
+        return `${escapeHtml(value.slice(0, start))}<mark>${escapeHtml(value.slice(start, end))}</mark>${escapeHtml(value.slice(end))}`;
+    }
+
+    private isClose(key: string, word: string): boolean {
+        if (key.startsWith(word) || (key.length >= 3 && word.startsWith(key))) return true;
+        if (key.length < 2 || word.length < 2) return false;
+
+        // Dice coefficient over letter pairs
+        const pairs = new Map<string, number>();
+        for (let i = 0; i < key.length - 1; i++) {
+            const pair = key.slice(i, i + 2);
+            pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+        }
+
+        let overlap = 0;
+        for (let i = 0; i < word.length - 1; i++) {
+            const pair = word.slice(i, i + 2);
+            const count = pairs.get(pair) ?? 0;
+            if (count > 0) {
+                overlap++;
+                pairs.set(pair, count - 1);
+            }
+        }
+
+        return (2 * overlap) / (key.length - 1 + word.length - 1) >= 0.6;
+    }
+}
+
+export const patientSearchService = new PatientSearchService();
@@ -0,0 +1,235 @@
+import { prisma } from '../../config/database.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { consentService } from '../consent/consent.service.js';
+import { PaginatedResponse } from '../users/users.types.js';
+import { patientsService } from './patients.service.js';
+import { UserRole } from '@prisma/client';
+import { TimelineEvent, TimelineEventType, TimelineQueryInput } from './patients.types.js';
+
+const doctorSelect = { select: { id: true, firstName: true, lastName: true, specialization: true } };
+
+interface DateRange {
+    gte?: Date;
+    lte?: Date;
+}
+
+/**
+ * One kind of event. `fetch` returns the newest `take` events in the range.
+ */
+interface TimelineSource {
+    count(): Promise<number>;
+    fetch(take: number): Promise<TimelineEvent[]>;
+}
+
+export class PatientTimelineService {
+    /**
+     * Everything that happened to a patient, newest first, in one feed.
+     * Patients see lab orders and results under the usual release rules.
+     */
+    async getTimeline(uhid: string, query: TimelineQueryInput, requester: TokenPayload): Promise<PaginatedResponse<TimelineEvent>> {
+        const patient = await patientsService.findById(uhid);
+        const { page, limit, types, startDate, endDate } = query;
+
+        const range: DateRange = {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+        };
+        const sources = await this.buildSources(patient.uhid, range, requester);
+        const selected = types.map(type => sources[type]);
+
+        // Each source's newest page*limit events are enough to fill the requested page
+        const window = page * limit;
+        const [counts, batches] = await Promise.all([
+            Promise.all(selected.map(source => source.count())),
+            Promise.all(selected.map(source => source.fetch(window))),
+        ]);
+
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const items = batches
+            .flat()
+            .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime())
+            .slice((page - 1) * limit, window);
+
+        return {
+            items,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    private async buildSources(
+        patientId: string,
+        range: DateRange,
+        requester: TokenPayload
+    ): Promise<Record<TimelineEventType, TimelineSource>> {
+        const isPatient = requester.role === UserRole.PATIENT;
+        // Patients only see released lab orders, and results only with report sharing consent
+        const labOrderWhere = { patientId, ...(isPatient && { isReportVisibleToPatient: true }) };
+        const showResults = !isPatient || await consentService.hasConsent(patientId, 'LAB_REPORT_SHARING');
+        // Payments and returns of bills in the trash are left out with the bill
+        const liveBill = { patientId, deletedAt: null };
+
+        return {
+            APPOINTMENT: {
+                count: () => prisma.appointment.count({ where: { patientId, scheduledAt: range } }),
+                fetch: async (take) => {
+                    const appointments = await prisma.appointment.findMany({
+                        where: { patientId, scheduledAt: range },
+                        include: { doctor: doctorSelect },
+                        orderBy: { scheduledAt: 'desc' },
+                        take,
+                    });
+                    return appointments.map(appointment => ({
+                        type: 'APPOINTMENT' as const,
+                        id: appointment.id,
+                        occurredAt: appointment.scheduledAt,
+                        title: `Appointment with Dr. ${appointment.doctor.firstName} ${appointment.doctor.lastName}`,
+                        status: appointment.status,
+                        data: appointment,
+                    }));
+                },
+            },
+            MEDICAL_RECORD: {
+                count: () => prisma.medicalRecord.count({ where: { patientId, createdAt: range } }),
+                fetch: async (take) => {
+                    const records = await prisma.medicalRecord.findMany({
+                        where: { patientId, createdAt: range },
+                        include: { doctor: doctorSelect },
+                        orderBy: { createdAt: 'desc' },
+                        take,
+                    });
+                    return records.map(record => ({
+                        type: 'MEDICAL_RECORD' as const,
+                        id: record.id,
+                        occurredAt: record.createdAt,
+                        title: record.diagnosis,
+                        status: record.prescriptionStatus,
+                        data: record,
+                    }));
+                },
+            },
+            PRESCRIPTION: {
+                count: () => prisma.prescription.count({ where: { patientId, createdAt: range } }),
+                fetch: async (take) => {
+                    const prescriptions = await prisma.prescription.findMany({
+                        where: { patientId, createdAt: range },
+                        include: { doctor: doctorSelect, items: true },
+                        orderBy: { createdAt: 'desc' },
+                        take,
+                    });
+                    return prescriptions.map(prescription => ({
+                        type: 'PRESCRIPTION' as const,
+                        id: prescription.id,
+                        occurredAt: prescription.createdAt,
+                        title: `Prescription by Dr. ${prescription.doctor.firstName} ${prescription.doctor.lastName}`,
+                        status: null,
+                        data: prescription,
+                    }));
+                },
+            },
+            LAB_ORDER: {
+                count: () => prisma.labTestOrder.count({ where: { ...labOrderWhere, createdAt: range } }),
+                fetch: async (take) => {
+                    const orders = await prisma.labTestOrder.findMany({
+                        where: { ...labOrderWhere, createdAt: range },
+                        include: { doctor: doctorSelect },
+                        orderBy: { createdAt: 'desc' },
+                        take,
+                    });
+                    return orders.map(order => ({
+                        type: 'LAB_ORDER' as const,
+                        id: order.id,
+                        occurredAt: order.createdAt,
+                        title: order.testName,
+                        status: order.status,
+                        data: order,
+                    }));
+                },
+            },
+            LAB_RESULT: {
+                count: async () => showResults
+                    ? prisma.labTestResult.count({ where: { order: labOrderWhere, completedAt: range } })
+                    : 0,
+                fetch: async (take) => {
+                    if (!showResults) return [];
+
+                    const results = await prisma.labTestResult.findMany({
+                        where: { order: labOrderWhere, completedAt: range },
+                        include: { order: { select: { id: true, testName: true, testCode: true, orderNumber: true } } },
+                        orderBy: { completedAt: 'desc' },
+                        take,
+                    });
+                    return results.map(result => ({
+                        type: 'LAB_RESULT' as const,
+                        id: result.id,
+                        occurredAt: result.completedAt,
+                        title: `${result.order.testName} result`,
+                        status: null,
+                        data: result,
+                    }));
+                },
+            },
+            BILL: {
+                count: () => prisma.bill.count({ where: { patientId, createdAt: range } }),
+                fetch: async (take) => {
+                    const bills = await prisma.bill.findMany({
+                        where: { patientId, createdAt: range },
+                        include: { items: true },
+                        orderBy: { createdAt: 'desc' },
+                        take,
+                    });
+                    return bills.map(bill => ({
+                        type: 'BILL' as const,
+                        id: bill.id,
+                        occurredAt: bill.createdAt,
+                        title: `Bill ${bill.billNumber}`,
+                        status: bill.status,
+                        data: bill,
+                    }));
+                },
+            },
+            PAYMENT: {
+                count: () => prisma.paymentTransaction.count({ where: { bill: liveBill, createdAt: range } }),
+                fetch: async (take) => {
+                    const payments = await prisma.paymentTransaction.findMany({
+                        where: { bill: liveBill, createdAt: range },
+                        include: { bill: { select: { billNumber: true } } },
+                        orderBy: { createdAt: 'desc' },
+                        take,
+                    });
+                    return payments.map(payment => ({
+                        type: 'PAYMENT' as const,
+                        id: payment.id,
+                        occurredAt: payment.createdAt,
+                        title: `Payment of ${payment.amount} (${payment.paymentMode}) for ${payment.bill.billNumber}`,
+                        status: null,
+                        data: payment,
+                    }));
+                },
+            },
+            PHARMACY_RETURN: {
+                count: () => prisma.pharmacyReturn.count({ where: { patientId, bill: liveBill, returnDate: range } }),
+                fetch: async (take) => {
+                    const returns = await prisma.pharmacyReturn.findMany({
+                        where: { patientId, bill: liveBill, returnDate: range },
+                        include: { items: true, bill: { select: { billNumber: true } } },
+                        orderBy: { returnDate: 'desc' },
+                        take,
+                    });
+                    return returns.map(pharmacyReturn => ({
+                        type: 'PHARMACY_RETURN' as const,
+                        id: pharmacyReturn.id,
+                        occurredAt: pharmacyReturn.returnDate,
+                        title: `Pharmacy return of ${pharmacyReturn.refundAmount} against ${pharmacyReturn.bill.billNumber}`,
+                        status: pharmacyReturn.status,
+                        data: pharmacyReturn,
+                    }));
+                },
+            },
+        };
+    }
+}
+
+export const patientTimelineService = new PatientTimelineService();
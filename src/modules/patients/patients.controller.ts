@@ -1,7 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import { patientsService } from './patients.service.js';
-import { createPatientSchema, updatePatientSchema, patientQuerySchema } from './patients.types.js';
+import { patientMergeService } from './patientMerge.service.js';
+import { guardiansService } from './guardians.service.js';
+import { patientPrivacyService } from './patientPrivacy.service.js';
+import { patientSearchService } from './patientSearch.service.js';
+import { patientTimelineService } from './patientTimeline.service.js';
+import { patientImportService } from './patientImport.service.js';
+import { patientCardService } from './patientCard.service.js';
+import {
+    createPatientSchema,
+    updatePatientSchema,
+    patientQuerySchema,
+    patientSearchSchema,
+    timelineQuerySchema,
+    patientImportSchema,
+    patientRestrictionSchema,
+    duplicateQuerySchema,
+    mergePatientsSchema,
+    addDependentSchema,
+    requestErasureSchema,
+    erasureQuerySchema,
+    reviewErasureSchema,
+} from './patients.types.js';
 import { sendSuccess, sendCreated } from '../../utils/response.js';
+import { ValidationError } from '../../utils/AppError.js';
 import { UserRole } from '@prisma/client';
 
 /**
@@ -55,7 +77,7 @@ export async function createPatient(
 ): Promise<void> {
     try {
         const input = createPatientSchema.parse(req.body);
-        const patient = await patientsService.create(input);
+        const patient = await patientsService.create(input, req.user);
         sendCreated(res, patient, 'Patient registered successfully');
     } catch (error) {
         next(error);
@@ -94,13 +116,56 @@ export async function getPatients(
 ): Promise<void> {
     try {
         const query = patientQuerySchema.parse(req.query);
-        const result = await patientsService.findAll(query);
+        const result = await patientsService.findAll(query, req.user!);
         sendSuccess(res, result);
     } catch (error) {
         next(error);
     }
 }
 
+/**
+ * @swagger
+ * /api/patients/search:
+ *   get:
+ *     tags: [Patients]
+ *     summary: Ranked fuzzy patient search (Staff only)
+ *     description: |
+ *       Matches name (any word order, common spelling variants such as Lakshmi/Laxmi),
+ *       phone, alternate phone, UHID, village and ID number. Each result carries a
+ *       0-1 rank, the last visit date and highlight snippets with the match in <mark>.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Matching patients, best match first
+ */
+export async function searchPatients(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = patientSearchSchema.parse(req.query);
+        const results = await patientSearchService.search(input, req.user!);
+        sendSuccess(res, results);
+    } catch (error) {
+        next(error);
+    }
+}
+
 /**
  * @swagger
  * /api/patients/me:
@@ -285,13 +350,715 @@ export async function getPatientLabResults(
 ): Promise<void> {
     try {
         const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-        const labResults = await patientsService.getLabResults(id);
+        const labResults = await patientsService.getLabResults(id, req.user!.role);
         sendSuccess(res, labResults);
     } catch (error) {
         next(error);
     }
 }
 
+/**
+ * @swagger
+ * /api/patients/{id}/restriction:
+ *   patch:
+ *     tags: [Patients]
+ *     summary: Mark a patient record as restricted or lift the restriction
+ *     description: Non-admin staff can only open restricted records with break-glass access.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [restricted]
+ *             properties:
+ *               restricted:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Updated patient
+ */
+export async function setPatientRestriction(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const input = patientRestrictionSchema.parse(req.body);
+        const patient = await patientsService.setRestricted(id, input.restricted, req.user);
+        sendSuccess(res, patient, input.restricted ? 'Patient record restricted' : 'Patient record restriction lifted');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/timeline:
+ *   get:
+ *     tags: [Patients]
+ *     summary: Chronological feed of everything recorded for a patient
+ *     description: |
+ *       Appointments, medical records, prescriptions, lab orders and results, bills,
+ *       payments and pharmacy returns merged newest first. Patients see lab orders and
+ *       results under the usual release rules.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: types
+ *         description: Comma-separated event types (all when omitted)
+ *         schema:
+ *           type: string
+ *           example: APPOINTMENT,MEDICAL_RECORD,LAB_RESULT
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Timeline events, newest first
+ */
+export async function getPatientTimeline(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const query = timelineQuerySchema.parse(req.query);
+        const timeline = await patientTimelineService.getTimeline(id, query, req.user!);
+        sendSuccess(res, timeline);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/import:
+ *   post:
+ *     tags: [Patients]
+ *     summary: Bulk import patients from a CSV or XLSX file
+ *     description: |
+ *       Every row is validated like a registration and checked for likely duplicates.
+ *       With dryRun=true (the default) nothing is written. Otherwise valid rows are
+ *       registered in batches; a login is created only for rows with an email.
+ *       The per-row report is returned as JSON or as a CSV/XLSX download.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - in: query
+ *         name: skipDuplicates
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, xlsx]
+ *           default: json
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Import report
+ */
+export async function importPatients(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const options = patientImportSchema.parse(req.query);
+        if (!req.file) {
+            throw new ValidationError('Attach the CSV or XLSX file as "file"');
+        }
+
+        const report = await patientImportService.import(req.file, options, req.user);
+
+        if (options.format === 'json') {
+            sendSuccess(res, report, report.dryRun ? 'Import checked, nothing was saved' : 'Import finished');
+            return;
+        }
+
+        const file = await patientImportService.toFile(report, options.format);
+        res.setHeader('Content-Type', options.format === 'csv'
+            ? 'text/csv'
+            : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="patient-import-report.${options.format}"`);
+        res.send(file);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/id-card:
+ *   get:
+ *     tags: [Patients]
+ *     summary: Patient registration card (PDF, credit-card size)
+ *     description: UHID as a Code128 barcode and QR code, with name, age/gender, blood group and registration date.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: ID card PDF
+ *         content:
+ *           application/pdf: {}
+ */
+export async function downloadPatientCard(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const pdf = await patientCardService.generateCard(id);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="Patient_Card_${id}.pdf"`);
+        res.send(pdf);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/wristband:
+ *   get:
+ *     tags: [Patients]
+ *     summary: Patient wristband label (PDF, 1" x 11" thermal) (Staff only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Wristband label PDF
+ *         content:
+ *           application/pdf: {}
+ */
+export async function downloadPatientWristband(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const pdf = await patientCardService.generateWristband(id);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="Patient_Wristband_${id}.pdf"`);
+        res.send(pdf);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/duplicates:
+ *   get:
+ *     tags: [Patients]
+ *     summary: Find likely duplicate registrations of a patient (Staff only)
+ *     description: Candidates are scored 0-100 on ID number, phone, date of birth and name.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           type: integer
+ *           default: 40
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Duplicate candidates, best match first
+ */
+export async function getPatientDuplicates(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const query = duplicateQuerySchema.parse(req.query);
+        const candidates = await patientMergeService.findDuplicates(id, query);
+        sendSuccess(res, candidates);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/merge:
+ *   post:
+ *     tags: [Patients]
+ *     summary: Merge a duplicate patient into a surviving record
+ *     description: |
+ *       Moves appointments, bills, lab orders, medical records, prescriptions and pharmacy
+ *       returns onto the survivor and deletes the retired record. The retired UHID keeps
+ *       resolving to the survivor as an alias.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [survivorUhid, retiredUhid]
+ *             properties:
+ *               survivorUhid:
+ *                 type: string
+ *               retiredUhid:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Patients merged
+ *       404:
+ *         description: Either patient not found
+ */
+export async function mergePatients(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = mergePatientsSchema.parse(req.body);
+        const result = await patientMergeService.merge(input, req.user);
+        sendSuccess(res, result, 'Patients merged successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/dependents:
+ *   get:
+ *     tags: [Patients]
+ *     summary: List the profiles this patient manages as guardian
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Guardian links with the dependent profiles
+ */
+export async function getPatientDependents(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const dependents = await guardiansService.findDependents(id);
+        sendSuccess(res, dependents);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/guardians:
+ *   get:
+ *     tags: [Patients]
+ *     summary: List the guardians who manage this patient's profile
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Guardian links with the guardian profiles
+ */
+export async function getPatientGuardians(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const guardians = await guardiansService.findGuardians(id);
+        sendSuccess(res, guardians);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/dependents:
+ *   post:
+ *     tags: [Patients]
+ *     summary: Add a dependent profile to a guardian's login
+ *     description: The guardian (path id) must have a patient login. Consent date is required.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [dependentUhid, relation, consentedAt]
+ *             properties:
+ *               dependentUhid:
+ *                 type: string
+ *               relation:
+ *                 type: string
+ *                 enum: [PARENT, LEGAL_GUARDIAN, CHILD, SPOUSE, SIBLING, CAREGIVER, OTHER]
+ *               consentedAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Dependent added
+ *       409:
+ *         description: Already a dependent of this guardian
+ */
+export async function addPatientDependent(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const input = addDependentSchema.parse(req.body);
+        const link = await guardiansService.addDependent(id, input, req.user);
+        sendCreated(res, link, 'Dependent added successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/dependents/{dependentId}:
+ *   delete:
+ *     tags: [Patients]
+ *     summary: Remove a dependent from a guardian's login
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: dependentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dependent removed
+ */
+export async function removePatientDependent(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const dependentId = Array.isArray(req.params.dependentId) ? req.params.dependentId[0] : req.params.dependentId;
+        await guardiansService.removeDependent(id, dependentId, req.user);
+        sendSuccess(res, null, 'Dependent removed successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/export:
+ *   get:
+ *     tags: [Patients]
+ *     summary: Download a copy of everything held about a patient
+ *     description: |
+ *       JSON with demographics, consents, appointments, medical records, prescriptions,
+ *       lab orders and results, and bills. Prescription and lab report PDFs are embedded
+ *       base64-encoded under `documents`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Patient data export
+ */
+export async function exportPatientData(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const data = await patientPrivacyService.exportData(id, req.user!);
+        res.setHeader('Content-Disposition', `attachment; filename="patient-${data.patient.uhid}-export.json"`);
+        sendSuccess(res, data);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/{id}/erasure-requests:
+ *   post:
+ *     tags: [Patients]
+ *     summary: Ask for a patient's personal details to be erased
+ *     description: An admin reviews the request. Clinical and financial records are kept but anonymised.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Request filed
+ *       409:
+ *         description: A request is already pending
+ */
+export async function requestPatientErasure(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const input = requestErasureSchema.parse(req.body ?? {});
+        const request = await patientPrivacyService.requestErasure(id, input, req.user!);
+        sendCreated(res, request, 'Erasure request submitted for review');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/erasure-requests:
+ *   get:
+ *     tags: [Patients]
+ *     summary: List erasure requests
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, COMPLETED, REJECTED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated erasure requests, newest first
+ */
+export async function getErasureRequests(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = erasureQuerySchema.parse(req.query);
+        const result = await patientPrivacyService.findErasureRequests(query);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/erasure-requests/{requestId}/complete:
+ *   post:
+ *     tags: [Patients]
+ *     summary: Approve an erasure request and anonymise the patient
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Patient anonymised
+ */
+export async function completeErasureRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const requestId = Array.isArray(req.params.requestId) ? req.params.requestId[0] : req.params.requestId;
+        const input = reviewErasureSchema.parse(req.body ?? {});
+        const request = await patientPrivacyService.completeErasure(requestId, req.user!, input);
+        sendSuccess(res, request, 'Patient personal details erased');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/patients/erasure-requests/{requestId}/reject:
+ *   post:
+ *     tags: [Patients]
+ *     summary: Reject an erasure request
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [note]
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ */
+export async function rejectErasureRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const requestId = Array.isArray(req.params.requestId) ? req.params.requestId[0] : req.params.requestId;
+        const input = reviewErasureSchema.parse(req.body ?? {});
+        const request = await patientPrivacyService.rejectErasure(requestId, req.user!, input);
+        sendSuccess(res, request, 'Erasure request rejected');
+    } catch (error) {
+        next(error);
+    }
+}
+
 /**
  * @swagger
  * /api/patients/{id}:
@@ -317,7 +1084,7 @@ export async function deletePatient(
 ): Promise<void> {
     try {
         const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-        await patientsService.delete(id);
+        await patientsService.delete(id, req.user);
         sendSuccess(res, null, 'Patient deleted successfully');
     } catch (error) {
         next(error);
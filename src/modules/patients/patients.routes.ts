@@ -2,6 +2,7 @@ import { Router } from 'express';
 import {
     createPatient,
     getPatients,
+    searchPatients,
     getMyProfile,
     getPatientById,
     updatePatient,
@@ -9,27 +10,54 @@ import {
     getPatientPrescriptions,
     getPatientBills,
     getPatientLabResults,
+    getPatientTimeline,
+    downloadPatientCard,
+    downloadPatientWristband,
+    setPatientRestriction,
+    getPatientDuplicates,
+    mergePatients,
+    importPatients,
+    getPatientDependents,
+    getPatientGuardians,
+    addPatientDependent,
+    removePatientDependent,
+    exportPatientData,
+    requestPatientErasure,
+    getErasureRequests,
+    completeErasureRequest,
+    rejectErasureRequest,
 } from './patients.controller.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { roleGuard, staffOnly } from '../../middleware/roleGuard.js';
 import { patientAccessGuard } from '../../middleware/patientAuth.js';
-import { UserRole } from '@prisma/client';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+import { importUpload } from '../../middleware/importUpload.js';
 
 const router = Router();
 
 router.use(authGuard);
 
 // Patient's own profile
-router.get('/me', roleGuard(UserRole.PATIENT), getMyProfile);
+router.get('/me', requirePermission('patients.self.read'), getMyProfile);
 
 // Staff can list patients
-router.get('/', staffOnly, getPatients);
+router.get('/', requirePermission('patients.read'), getPatients);
+router.get('/search', requirePermission('patients.read'), searchPatients);
+
+// Erasure review queue (before /:id so the path is not taken as a UHID)
+router.get('/erasure-requests', requirePermission('patients.erasure'), getErasureRequests);
+router.post('/erasure-requests/:requestId/complete', requirePermission('patients.erasure'), completeErasureRequest);
+router.post('/erasure-requests/:requestId/reject', requirePermission('patients.erasure'), rejectErasureRequest);
 
 // Get Patient by ID (Staff or Patient themselves)
-router.get('/:id', patientAccessGuard(), getPatientById);
+router.get('/:id', patientAccessGuard('patients.read'), getPatientById);
 
 // Staff can create patients (walk-in registration)
-router.post('/', staffOnly, createPatient);
+router.post('/', requirePermission('patients.create'), createPatient);
+
+// Duplicate registrations
+router.get('/:id/duplicates', requirePermission('patients.read'), getPatientDuplicates);
+router.post('/merge', requirePermission('patients.merge'), mergePatients);
+router.post('/import', requirePermission('patients.import'), importUpload.single('file'), importPatients);
 
 // Patient can update own, staff can update any
 // Note: updatePatient controller has internal logic to check permissions too, 
@@ -39,10 +67,27 @@ router.post('/', staffOnly, createPatient);
 router.patch('/:id', updatePatient);
 
 // Patient portal - view own data
-router.get('/:id/prescriptions', patientAccessGuard(), getPatientPrescriptions);
-router.get('/:id/bills', patientAccessGuard(), getPatientBills);
-router.get('/:id/lab-results', patientAccessGuard(), getPatientLabResults);
+router.get('/:id/prescriptions', patientAccessGuard('medical.records.read'), getPatientPrescriptions);
+router.get('/:id/bills', patientAccessGuard('billing.read'), getPatientBills);
+router.get('/:id/lab-results', patientAccessGuard('lab.result.read'), getPatientLabResults);
+router.get('/:id/timeline', patientAccessGuard('patients.read'), getPatientTimeline);
+
+// Printables
+router.get('/:id/id-card', patientAccessGuard('patients.read'), downloadPatientCard);
+router.get('/:id/wristband', requirePermission('patients.read'), downloadPatientWristband);
+
+// Guardians managing dependent profiles
+router.get('/:id/dependents', patientAccessGuard('patients.read'), getPatientDependents);
+router.get('/:id/guardians', patientAccessGuard('patients.read'), getPatientGuardians);
+router.post('/:id/dependents', requirePermission('patients.guardians'), addPatientDependent);
+router.delete('/:id/dependents/:dependentId', requirePermission('patients.guardians'), removePatientDependent);
+
+// Data export and erasure requests (patient portal or staff on their behalf)
+router.get('/:id/export', patientAccessGuard('patients.export'), exportPatientData);
+router.post('/:id/erasure-requests', patientAccessGuard('patients.erasure.request'), requestPatientErasure);
+
+router.patch('/:id/restriction', requirePermission('patients.restrict'), setPatientRestriction);
 
-router.delete('/:id', staffOnly, deletePatient);
+router.delete('/:id', requirePermission('patients.delete'), deletePatient);
 
 export default router;
@@ -1,19 +1,31 @@
 import { prisma } from '../../config/database.js';
 import { hashPassword } from '../../utils/crypto.js';
-import { NotFoundError, ConflictError, ForbiddenError } from '../../middleware/errorHandler.js';
+import { NotFoundError, ConflictError, ForbiddenError, ValidationError } from '../../middleware/errorHandler.js';
 import { CreatePatientInput, UpdatePatientInput, PatientQueryInput, PatientResponse } from './patients.types.js';
 import { PaginatedResponse } from '../users/users.types.js';
-import { UserRole } from '@prisma/client';
+import { Prisma, UserRole } from '@prisma/client';
 import { emailService } from '../../services/email.service.js';
 import crypto from 'crypto';
-import jwt from 'jsonwebtoken';
 import { config } from '../../config/index.js';
+import { authService } from '../auth/auth.service.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { uhidService } from './uhid.service.js';
+import { consentService } from '../consent/consent.service.js';
+import { queueService } from '../queue/queue.service.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
+import { TokenPayload } from '../../utils/jwt.js';
+
+// Legacy patients keep a UUID as their UHID; their readable UHID is an alias
+const aliasInclude = {
+    aliases: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.PatientInclude;
 
 export class PatientsService {
-    async create(input: CreatePatientInput): Promise<PatientResponse> {
+    async create(input: CreatePatientInput, actor?: AuditActor): Promise<PatientResponse> {
         // If no email provided, create walk-in patient (no user account needed)
         if (!input.email) {
-            return this.createWalkInPatient(input);
+            return this.createWalkInPatient(input, actor);
         }
 
         // Check for existing User or Patient with this email
@@ -27,13 +39,6 @@ export class PatientsService {
         const tempPassword = input.phone;
         const passwordHash = await hashPassword(tempPassword);
 
-        // Generate Password Reset Token
-        const resetToken = jwt.sign(
-            { email: input.email, type: 'reset' },
-            config.jwt.accessSecret,
-            { expiresIn: '24h' }
-        );
-
         // Transaction: Create User + Patient
         const patient = await prisma.$transaction(async (tx) => {
             // 1. Create User
@@ -70,7 +75,7 @@ export class PatientsService {
             }
 
             // 3. Create Patient linked to User if no existing record
-            const uhidToUse = input.uhid || `P-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+            const uhidToUse = input.uhid || await uhidService.next(tx);
             const newPatient = await tx.patient.create({
                 data: {
                     uhid: uhidToUse,
@@ -126,17 +131,23 @@ export class PatientsService {
             return newPatient;
         });
 
-        // Generate password reset link
+        await auditService.record({ actor, entityType: 'Patient', entityId: patient.uhid, action: 'CREATE', after: patient });
+
+        // Generate password reset token + link (redeemed via POST /api/auth/reset-password)
+        const resetToken = await authService.createPasswordResetToken(patient.userId!, config.passwordReset.inviteExpiry);
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
         const passwordResetLink = `${frontendUrl}/reset-password?token=${resetToken}`;
 
-        // 3. Send Welcome Email (Non-blocking)
-        emailService.sendWelcomeEmail(
-            patient.email!,
-            `${patient.firstName} ${patient.lastName} `,
-            patient.uhid || 'Pending',
-            resetToken
-        ).catch(err => console.error('Failed to send welcome email:', err));
+        // 3. Send Welcome Email (Non-blocking) - skipped if the patient opted out of email;
+        // reception can still share the link returned below
+        if (await consentService.hasConsent(patient.uhid, 'EMAIL_COMMUNICATION')) {
+            emailService.sendWelcomeEmail(
+                patient.email!,
+                `${patient.firstName} ${patient.lastName} `,
+                patient.uhid || 'Pending',
+                resetToken
+            ).catch(err => console.error('Failed to send welcome email:', err));
+        }
 
         // Return patient data with login credentials for receptionist to share
         const response = this.formatPatient(patient as any);
@@ -148,8 +159,18 @@ export class PatientsService {
     }
 
     async findById(uhid: string): Promise<PatientResponse> {
-        const patient = await prisma.patient.findUnique({
-            where: { uhid }
+        if (uhidService.looksLikeUhid(uhid)) {
+            if (!uhidService.isValid(uhid)) {
+                throw new ValidationError('Invalid UHID - please check the number');
+            }
+            uhid = uhid.toUpperCase();
+        }
+
+        // UHIDs retired by a merge and display aliases resolve to the surviving record
+        const canonical = await uhidService.resolve(uhid);
+        const patient = canonical && await prisma.patient.findUnique({
+            where: { uhid: canonical },
+            include: aliasInclude
         });
 
         if (!patient) {
@@ -166,7 +187,7 @@ export class PatientsService {
         }
 
         // First, check if user already has a linked patient
-        let patient = await prisma.patient.findUnique({ where: { userId } });
+        let patient = await prisma.patient.findUnique({ where: { userId }, include: aliasInclude });
 
         // Proactive Smart Linking for orphan records ONLY:
         // If no patient is linked, try to find orphan records matching user's email
@@ -182,7 +203,8 @@ export class PatientsService {
                 console.log(`[Proactive Linking] Linking orphan ${orphan.uhid} to user ${user.email} `);
                 patient = await prisma.patient.update({
                     where: { uhid: orphan.uhid as string },
-                    data: { userId: user.id }
+                    data: { userId: user.id },
+                    include: aliasInclude
                 });
             }
         }
@@ -196,12 +218,12 @@ export class PatientsService {
         return this.formatPatient(patient as any);
     }
 
-    async findAll(query: PatientQueryInput): Promise<PaginatedResponse<PatientResponse>> {
+    async findAll(query: PatientQueryInput, viewer: TokenPayload): Promise<PaginatedResponse<PatientResponse>> {
         const { page, limit, search, date, startDate, endDate } = query;
         const skip = (page - 1) * limit;
 
         const where: any = {};
-        const AND: any[] = [];
+        const AND: any[] = [await breakGlassService.visiblePatientsWhere(viewer)];
 
         if (search) {
             const searchTerms = search.trim().split(/\s+/);
@@ -213,6 +235,7 @@ export class PatientsService {
                             { lastName: { contains: term, mode: 'insensitive' } },
                             { phone: { contains: term } },
                             { uhid: { contains: term, mode: 'insensitive' } },
+                            { aliases: { some: { alias: { contains: term, mode: 'insensitive' } } } },
                             { email: { contains: term, mode: 'insensitive' } }
                         ]
                     }))
@@ -224,6 +247,7 @@ export class PatientsService {
                         { lastName: { contains: search, mode: 'insensitive' } },
                         { phone: { contains: search } },
                         { uhid: { contains: search, mode: 'insensitive' } },
+                        { aliases: { some: { alias: { contains: search, mode: 'insensitive' } } } },
                         { email: { contains: search, mode: 'insensitive' } }
                     ]
                 });
@@ -266,7 +290,8 @@ export class PatientsService {
                 where,
                 skip,
                 take: limit,
-                orderBy: { createdAt: 'desc' }
+                orderBy: { createdAt: 'desc' },
+                include: aliasInclude
             }),
             prisma.patient.count({ where })
         ]);
@@ -294,87 +319,70 @@ export class PatientsService {
         const updated = await prisma.patient.update({
             where: { uhid },
             data: input,
+            include: aliasInclude,
+        });
+
+        await auditService.record({
+            actor: { userId: requesterId, role: requesterRole },
+            entityType: 'Patient',
+            entityId: uhid,
+            action: 'UPDATE',
+            before: patient,
+            after: updated,
         });
 
         return this.formatPatient(updated as any);
     }
 
-    async delete(uhid: string): Promise<void> {
+    /**
+     * Move a patient to the trash. Clinical and billing records are kept as they are,
+     * and the patient's login is disabled until the record is restored.
+     */
+    async delete(uhid: string, actor?: AuditActor): Promise<void> {
         const patient = await prisma.patient.findUnique({ where: { uhid } });
         if (!patient) {
             throw new NotFoundError('Patient not found');
         }
 
-        // Use transaction to ensure both are deleted
-        await prisma.$transaction(async (tx) => {
-            // If the patient is linked to a user, delete the user (this should cascade to patient via onDelete: Cascade in schema, 
-            // but let's be explicit if needed, though schema says user has patient and patient has user link. 
-            // In schema: user.patient has no onDelete specified, but RefreshToken and Staff have onDelete: Cascade.
-            // Patient has user link: user User? @relation(fields: [userId], references: [id])
-            // Actually, deleting the patient record first is safer if we want to preserve the User (which we usually don't for patients).
-            // Let's delete the patient. Relations like Bill, Prescription, etc. have onDelete: Cascade for Patient.
-
-            await tx.patient.delete({ where: { uhid } });
+        const deleted = await prisma.$transaction(async (tx) => {
+            const updated = await tx.patient.update({
+                where: { uhid },
+                data: { deletedAt: new Date(), deletedBy: actor?.userId },
+            });
 
             if (patient.userId) {
-                // If they have a user account, remove it too as it's specific to this patient
-                await tx.user.delete({ where: { id: patient.userId } });
+                await tx.user.update({ where: { id: patient.userId }, data: { status: 'DISABLED' } });
+                await tx.refreshToken.deleteMany({ where: { userId: patient.userId } });
             }
-        });
-    }
 
-    private async getLinkedPatients(startingPatient: { uhid: string, phone: string, email: string | null }): Promise<any[]> {
-        // Pass 1: Find all profiles sharing starting patient's phone OR email
-        const whereClause: any[] = [{ phone: startingPatient.phone }];
-        if (startingPatient.email) {
-            whereClause.push({ email: startingPatient.email });
-        }
-
-        const pass1 = await prisma.patient.findMany({
-            where: { OR: whereClause },
-            select: { uhid: true, phone: true, email: true, createdAt: true, userId: true, firstName: true, lastName: true, dateOfBirth: true, gender: true, address: true, emergencyContact: true, bloodGroup: true, allergies: true, updatedAt: true }
+            return updated;
         });
 
-        // Pass 2: Collect all phones and emails from Pass 1 results and find everyone sharing ANY of them
-        const phones = new Set<string>();
-        const emails = new Set<string>();
-
-        pass1.forEach(p => {
-            if (p.phone) phones.add(p.phone);
-            if (p.email) emails.add(p.email);
-        });
-
-        const finalCriteria: any[] = [];
-        phones.forEach(p => finalCriteria.push({ phone: p }));
-        emails.forEach(e => finalCriteria.push({ email: e }));
+        await auditService.record({ actor, entityType: 'Patient', entityId: uhid, action: 'DELETE', before: patient, after: deleted });
+    }
 
-        if (finalCriteria.length === 0) return [startingPatient];
+    async setRestricted(uhid: string, restricted: boolean, actor?: AuditActor): Promise<PatientResponse> {
+        const patient = await prisma.patient.findUnique({ where: { uhid } });
+        if (!patient) {
+            throw new NotFoundError('Patient not found');
+        }
 
-        const finalResults = await prisma.patient.findMany({
-            where: { OR: finalCriteria },
-            orderBy: { createdAt: 'asc' }
+        const updated = await prisma.patient.update({
+            where: { uhid },
+            data: { isRestricted: restricted },
+            include: aliasInclude,
         });
 
-        return finalResults;
-    }
-
-    private async getLinkedPatientIds(startingPatient: { uhid: string, phone: string, email: string | null }): Promise<string[]> {
-        const linked = await this.getLinkedPatients(startingPatient);
-        const allIds = Array.from(new Set(linked.map(p => p.uhid as string)));
-        console.log(`[Smart Linking] Patient ${startingPatient.uhid} linked to profiles: ${allIds.join(', ')} `);
-        return allIds;
-    }
-
-    /**
-     * Resolves a patient by UHID and returns all linked UHIDs
-     */
-    private async resolvePatientIds(uhid: string): Promise<string[]> {
-        const patient = await prisma.patient.findUnique({
-            where: { uhid }
+        await auditService.record({
+            actor,
+            entityType: 'Patient',
+            entityId: uhid,
+            action: 'UPDATE',
+            before: { isRestricted: patient.isRestricted },
+            after: { isRestricted: updated.isRestricted },
         });
 
-        if (!patient) return [uhid];
-        return this.getLinkedPatientIds(patient as any);
+        return this.formatPatient(updated);
     }
 
     async getPrescriptions(patientId: string) {
@@ -461,15 +469,27 @@ export class PatientsService {
         return billsWithMR;
     }
 
-    async getLabResults(patientId: string) {
+    async getLabResults(patientId: string, requesterRole?: UserRole) {
         // Strictly fetch by specific patient ID only
         const patientIds = [patientId];
+        const isPatient = requesterRole === UserRole.PATIENT;
 
-        return prisma.labTestOrder.findMany({
-            where: { patientId: { in: patientIds } },
+        const orders = await prisma.labTestOrder.findMany({
+            where: {
+                patientId: { in: patientIds },
+                // Patients only see reports the lab has released to them
+                ...(isPatient && { isReportVisibleToPatient: true }),
+            },
             include: { result: true },
             orderBy: { createdAt: 'desc' },
         });
+
+        // Without report sharing consent the orders stay visible but results are withheld
+        if (isPatient && !(await consentService.hasConsent(patientId, 'LAB_REPORT_SHARING'))) {
+            return orders.map(order => ({ ...order, result: null }));
+        }
+
+        return orders;
     }
 
     private formatPatient(patient: {
@@ -503,12 +523,20 @@ export class PatientsService {
         paymentMode: string | null;
         registrationFee: any;
         registrationDate: Date;
+        isRestricted: boolean;
+        erasedAt: Date | null;
         createdAt: Date;
         updatedAt: Date;
+        aliases?: { alias: string }[];
     }): PatientResponse {
+        const displayUhid = uhidService.looksLikeUhid(patient.uhid)
+            ? patient.uhid
+            : patient.aliases?.find(a => uhidService.looksLikeUhid(a.alias))?.alias ?? patient.uhid;
+
         return {
             id: patient.uhid,
             uhid: patient.uhid,
+            displayUhid,
             userId: patient.userId,
             title: patient.title,
             firstName: patient.firstName,
@@ -538,6 +566,8 @@ export class PatientsService {
             paymentMode: patient.paymentMode,
             registrationFee: patient.registrationFee ? Number(patient.registrationFee) : null,
             registrationDate: patient.registrationDate,
+            isRestricted: patient.isRestricted,
+            erasedAt: patient.erasedAt ?? null,
             createdAt: patient.createdAt,
             updatedAt: patient.updatedAt,
         };
@@ -548,8 +578,8 @@ export class PatientsService {
      * Walk-in patients only need a Patient record for billing/lab orders.
      * They do not get login credentials or welcome emails.
      */
-    private async createWalkInPatient(input: CreatePatientInput): Promise<PatientResponse> {
-        const uhidToUse = input.uhid || `P-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+    private async createWalkInPatient(input: CreatePatientInput, actor?: AuditActor): Promise<PatientResponse> {
+        const uhidToUse = input.uhid || await uhidService.next();
 
         const patient = await prisma.patient.create({
             data: {
@@ -571,54 +601,35 @@ export class PatientsService {
             },
         });
 
+        await auditService.record({ actor, entityType: 'Patient', entityId: patient.uhid, action: 'CREATE', after: patient });
+
         return this.formatPatient(patient as any);
     }
 
     /**
-     * Creates an OP record (Appointment) for a patient.
-     * Used when a visit is explicitly marked as OP.
+     * Records an OP visit (Appointment) for a lab order. Reuses today's visit if
+     * the patient is already in that doctor's queue; otherwise the visit is
+     * recorded as completed so it stays out of the consultation queue and board.
      */
-    async createOP(patientId: string, doctorId?: string): Promise<string> {
-        // 1. Validate patient
-        const patient = await prisma.patient.findUnique({ where: { uhid: patientId } });
-        if (!patient) throw new NotFoundError('Patient not found');
-
-        // 2. Determine Doctor
-        let staffId: string;
-        if (doctorId) {
-            const doc = await prisma.staff.findFirst({
-                where: { 
-                    OR: [
-                        { id: doctorId }, 
-                        { userId: doctorId }
-                    ], 
-                    user: { role: 'DOCTOR' } 
-                }
-            });
-            if (doc) {
-                staffId = doc.id;
-            } else {
-                const fallback = await prisma.staff.findFirst({ where: { user: { role: 'DOCTOR' } } });
-                if (!fallback) throw new Error('No doctor found in system to assign OP visit.');
-                staffId = fallback.id;
-            }
-        } else {
-            const fallback = await prisma.staff.findFirst({ where: { user: { role: 'DOCTOR' } } });
-            if (!fallback) throw new Error('No doctor found in system to assign OP visit.');
-            staffId = fallback.id;
-        }
+    async createOP(patientId: string, doctorId: string): Promise<string> {
+        const doctor = await prisma.staff.findFirst({
+            where: { OR: [{ id: doctorId }, { userId: doctorId }], user: { role: 'DOCTOR' } },
+        });
+        if (!doctor) throw new NotFoundError('Doctor');
+
+        const open = await queueService.findOpenToken(patientId, doctor.id);
+        if (open) return open.appointmentId;
 
-        // 3. Create Appointment (The OP Record)
         const appointment = await prisma.appointment.create({
             data: {
-                patientId: patient.uhid,
-                doctorId: staffId,
+                patientId,
+                doctorId: doctor.id,
                 scheduledAt: new Date(),
-                duration: 30,
-                status: 'IN_PROGRESS',
-                reason: 'OP Consultation',
-                notes: 'Automatically created for OP visit'
-            }
+                duration: doctor.slotMinutes,
+                status: 'COMPLETED',
+                reason: 'OP lab visit',
+                notes: 'Automatically created for a lab order',
+            },
         });
 
         return appointment.id;
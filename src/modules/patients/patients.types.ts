@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { Gender } from '@prisma/client';
+import { ErasureRequestStatus, Gender, GuardianRelation } from '@prisma/client';
 
 export const createPatientSchema = z.object({
     email: z.string().email().optional(),
@@ -113,13 +113,111 @@ export const patientQuerySchema = z.object({
     endDate: z.string().optional(),
 });
 
+export const patientRestrictionSchema = z.object({
+    restricted: z.boolean(),
+});
+
+export const patientSearchSchema = z.object({
+    q: z.string().trim().min(2, 'Enter at least 2 characters to search').max(100),
+    limit: z.coerce.number().int().positive().max(50).default(20),
+});
+
+export const TIMELINE_EVENT_TYPES = [
+    'APPOINTMENT',
+    'MEDICAL_RECORD',
+    'PRESCRIPTION',
+    'LAB_ORDER',
+    'LAB_RESULT',
+    'BILL',
+    'PAYMENT',
+    'PHARMACY_RETURN',
+] as const;
+
+export type TimelineEventType = typeof TIMELINE_EVENT_TYPES[number];
+
+// Deepest the feed pages, since every page loads all events before it; older events are reached with startDate/endDate
+export const TIMELINE_MAX_DEPTH = 1000;
+
+export const timelineQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    // Comma-separated, e.g. types=APPOINTMENT,LAB_RESULT; all types when omitted
+    types: z.string().optional()
+        .transform(value => value
+            ? value.split(',').map(type => type.trim().toUpperCase()).filter(Boolean)
+            : [...TIMELINE_EVENT_TYPES])
+        .pipe(z.array(z.enum(TIMELINE_EVENT_TYPES)).min(1, 'At least one event type is required')),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+}).refine((query) => query.page * query.limit <= TIMELINE_MAX_DEPTH, {
+    message: `The timeline only pages through the newest ${TIMELINE_MAX_DEPTH} events; narrow it with startDate and endDate`,
+    path: ['page'],
+});
+
+const booleanFlag = (fallback: boolean) =>
+    z.enum(['true', 'false']).default(fallback ? 'true' : 'false').transform(value => value === 'true');
+
+export const patientImportSchema = z.object({
+    // Validate and look for duplicates without writing anything
+    dryRun: booleanFlag(true),
+    // Rows that look like an existing patient (or an earlier row) are left out
+    skipDuplicates: booleanFlag(true),
+    format: z.enum(['json', 'csv', 'xlsx']).default('json'),
+});
+
+export const duplicateQuerySchema = z.object({
+    minScore: z.coerce.number().int().min(0).max(100).default(40),
+    limit: z.coerce.number().int().positive().max(50).default(20),
+});
+
+export const mergePatientsSchema = z.object({
+    survivorUhid: z.string().min(1, 'Surviving UHID is required'),
+    retiredUhid: z.string().min(1, 'UHID to retire is required'),
+}).refine(data => data.survivorUhid !== data.retiredUhid, {
+    message: 'Cannot merge a patient into itself',
+    path: ['retiredUhid'],
+});
+
+export const addDependentSchema = z.object({
+    dependentUhid: z.string().min(1, 'Dependent UHID is required'),
+    relation: z.nativeEnum(GuardianRelation),
+    // When the dependent (or their legal representative) agreed to the link
+    consentedAt: z.coerce.date().refine(date => date <= new Date(), 'Consent date cannot be in the future'),
+});
+
+export const requestErasureSchema = z.object({
+    reason: z.string().trim().max(1000).optional(),
+});
+
+export const erasureQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    status: z.nativeEnum(ErasureRequestStatus).optional(),
+});
+
+export const reviewErasureSchema = z.object({
+    note: z.string().trim().max(1000).optional(),
+});
+
 export type CreatePatientInput = z.infer<typeof createPatientSchema>;
 export type UpdatePatientInput = z.infer<typeof updatePatientSchema>;
 export type PatientQueryInput = z.infer<typeof patientQuerySchema>;
+export type PatientRestrictionInput = z.infer<typeof patientRestrictionSchema>;
+export type PatientSearchInput = z.infer<typeof patientSearchSchema>;
+export type TimelineQueryInput = z.infer<typeof timelineQuerySchema>;
+export type PatientImportInput = z.infer<typeof patientImportSchema>;
+export type DuplicateQueryInput = z.infer<typeof duplicateQuerySchema>;
+export type MergePatientsInput = z.infer<typeof mergePatientsSchema>;
+export type AddDependentInput = z.infer<typeof addDependentSchema>;
+export type RequestErasureInput = z.infer<typeof requestErasureSchema>;
+export type ErasureQueryInput = z.infer<typeof erasureQuerySchema>;
+export type ReviewErasureInput = z.infer<typeof reviewErasureSchema>;
 
 export interface PatientResponse {
     id: string;
     uhid: string;
+    // Readable UHID to show and read out (differs from uhid only for legacy records)
+    displayUhid: string;
     userId: string | null;
     title: string | null;
     firstName: string;
@@ -149,9 +247,150 @@ export interface PatientResponse {
     paymentMode: string | null;
     registrationFee: number | null;
     registrationDate: Date;
+    // Restricted records need admin rights or break-glass access to open
+    isRestricted: boolean;
+    // Set once personal details were anonymised on request
+    erasedAt: Date | null;
     createdAt: Date;
     updatedAt: Date;
     // Login credentials (only returned on patient creation)
     passwordResetLink?: string;
     temporaryPassword?: string;
 }
+
+export interface TimelineEvent {
+    type: TimelineEventType;
+    // Id of the underlying appointment, record, bill, etc.
+    id: string;
+    occurredAt: Date;
+    title: string;
+    status: string | null;
+    data: unknown;
+}
+
+export type ImportRowStatus = 'VALID' | 'INVALID' | 'DUPLICATE' | 'IMPORTED' | 'FAILED';
+
+export interface ImportRowResult {
+    // Line in the file, counting the header as row 1
+    row: number;
+    status: ImportRowStatus;
+    firstName: string | null;
+    lastName: string | null;
+    phone: string | null;
+    legacyId: string | null;
+    uhid: string | null;
+    userCreated: boolean;
+    errors: string[];
+    duplicates: { uhid: string; name: string; score: number; reasons: string[] }[];
+    // Earlier row in the same file with the same person
+    duplicateOfRow: number | null;
+}
+
+export interface PatientImportReport {
+    dryRun: boolean;
+    fileName: string;
+    totalRows: number;
+    counts: Record<ImportRowStatus, number>;
+    usersCreated: number;
+    ignoredColumns: string[];
+    rows: ImportRowResult[];
+}
+
+export interface DuplicateCandidate {
+    patient: {
+        uhid: string;
+        firstName: string;
+        lastName: string;
+        dateOfBirth: Date;
+        gender: Gender;
+        phone: string;
+        idType: string | null;
+        idNumber: string | null;
+        registrationDate: Date;
+    };
+    // 0-100; see PatientMergeService for the weights
+    score: number;
+    reasons: string[];
+}
+
+export type SearchField = 'name' | 'phone' | 'altPhone' | 'uhid' | 'village' | 'idNumber';
+
+export interface SearchHighlight {
+    field: SearchField;
+    // Field value, HTML-escaped, with the matching part wrapped in <mark>
+    snippet: string;
+}
+
+export interface PatientSearchResult {
+    uhid: string;
+    displayUhid: string;
+    firstName: string;
+    lastName: string;
+    dateOfBirth: Date;
+    gender: Gender;
+    phone: string;
+    village: string | null;
+    // 0-1, higher is a closer match
+    rank: number;
+    lastVisitAt: Date | null;
+    highlights: SearchHighlight[];
+}
+
+export interface MergePatientsResponse {
+    patient: PatientResponse;
+    retiredUhid: string;
+    // Rows moved onto the surviving UHID, per table
+    moved: Record<string, number>;
+}
+
+export interface GuardianLinkResponse {
+    id: string;
+    relation: GuardianRelation;
+    consentedAt: Date;
+    createdBy: string | null;
+    createdAt: Date;
+    guardian: {
+        uhid: string;
+        firstName: string;
+        lastName: string;
+        phone: string;
+    };
+    dependent: {
+        uhid: string;
+        firstName: string;
+        lastName: string;
+        dateOfBirth: Date;
+        gender: Gender;
+    };
+}
+
+export interface ExportedDocument {
+    filename: string;
+    contentType: 'application/pdf';
+    // Base64-encoded file content
+    data: string;
+}
+
+export interface PatientDataExport {
+    exportedAt: Date;
+    patient: PatientResponse;
+    consents: unknown;
+    appointments: unknown[];
+    medicalRecords: unknown[];
+    prescriptions: unknown[];
+    labOrders: unknown[];
+    bills: unknown[];
+    documents: ExportedDocument[];
+}
+
+export interface ErasureRequestResponse {
+    id: string;
+    patientId: string;
+    requestedBy: string;
+    reason: string | null;
+    status: ErasureRequestStatus;
+    reviewedBy: string | null;
+    reviewedAt: Date | null;
+    reviewNote: string | null;
+    createdAt: Date;
+}
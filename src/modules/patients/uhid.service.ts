@@ -0,0 +1,87 @@
+import { prisma } from '../../config/database.js';
+import { config } from '../../config/index.js';
+import { Prisma } from '@prisma/client';
+
+// <prefix>-<year>-<sequence>-<check digit>, e.g. SSC-2026-000123-4
+const UHID_PATTERN = /^([A-Z0-9]+)-(\d{4})-(\d+)-(\d)$/;
+
+export class UhidService {
+    /**
+     * Issue the next UHID for the current year. Pass the transaction client when
+     * creating a patient inside a transaction so a rollback releases the number.
+     */
+    async next(client: Prisma.TransactionClient = prisma): Promise<string> {
+        const year = new Date().getFullYear();
+
+        // Single-row atomic upsert - concurrent registrations never share a number
+        const sequence = await client.uhidSequence.upsert({
+            where: { year },
+            create: { year, lastValue: 1 },
+            update: { lastValue: { increment: 1 } },
+        });
+
+        return this.format(year, sequence.lastValue);
+    }
+
+    format(year: number, value: number): string {
+        const sequence = value.toString().padStart(config.uhid.sequenceDigits, '0');
+
+        return `${config.uhid.prefix}-${year}-${sequence}-${this.checkDigit(`${year}${sequence}`)}`;
+    }
+
+    /**
+     * Whether the value has the shape of an issued UHID (legacy UUIDs do not)
+     */
+    looksLikeUhid(value: string): boolean {
+        return UHID_PATTERN.test(value.toUpperCase());
+    }
+
+    /**
+     * The current UHID of a patient addressed by UHID, by a UHID retired in a
+     * merge or by a display alias; null when none matches a live patient.
+     * Access checks must run against this, not the id as requested.
+     */
+    async resolve(idOrAlias: string): Promise<string | null> {
+        const uhid = this.looksLikeUhid(idOrAlias) ? idOrAlias.toUpperCase() : idOrAlias;
+
+        const patient = await prisma.patient.findUnique({ where: { uhid }, select: { uhid: true } });
+        if (patient) return patient.uhid;
+
+        const alias = await prisma.patientAlias.findUnique({
+            where: { alias: uhid },
+            select: { patient: { select: { uhid: true, deletedAt: true } } },
+        });
+        return alias && !alias.patient.deletedAt ? alias.patient.uhid : null;
+    }
+
+    /**
+     * Catches mistyped or misheard UHIDs before they reach the database
+     */
+    isValid(value: string): boolean {
+        const match = UHID_PATTERN.exec(value.toUpperCase());
+        if (!match) return false;
+
+        const [, , year, sequence, check] = match;
+        return this.checkDigit(`${year}${sequence}`) === Number(check);
+    }
+
+    /**
+     * Luhn check digit - detects any single wrong digit and most swapped pairs
+     */
+    private checkDigit(payload: string): number {
+        let sum = 0;
+
+        for (let i = 0; i < payload.length; i++) {
+            let digit = Number(payload[payload.length - 1 - i]);
+            if (i % 2 === 0) {
+                digit *= 2;
+                if (digit > 9) digit -= 9;
+            }
+            sum += digit;
+        }
+
+        return (10 - (sum % 10)) % 10;
+    }
+}
+
+export const uhidService = new UhidService();
@@ -0,0 +1,4 @@
+export { default as permissionsRoutes } from './permissions.routes.js';
+export { permissionsService } from './permissions.service.js';
+export * from './permissions.catalog.js';
+export * from './permissions.types.js';
@@ -0,0 +1,276 @@
+import { UserRole } from '@prisma/client';
+
+/**
+ * Every named permission the API checks, with the roles that get it by default.
+ *
+ * Default roles mirror the role lists the routes used before permissions existed.
+ * They are only applied the first time a permission is synced into the database;
+ * after that, role mappings are owned by the admin API.
+ * ADMIN is not listed - administrators always hold every permission.
+ */
+export const PERMISSION_CATALOG = {
+    'appointments.read': {
+        description: 'View appointments',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PATIENT],
+    },
+    'appointments.create': {
+        description: 'Book appointments',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PATIENT],
+    },
+    'appointments.followup.create': {
+        description: 'Book follow-up appointments from medical records',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'appointments.series.create': {
+        description: 'Book recurring appointment series for any patient',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'appointments.series.read': {
+        description: 'View recurring appointment series',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'appointments.update': {
+        description: 'Edit or reschedule appointments',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'appointments.delete': {
+        description: 'Delete appointments',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'appointments.availability.read': {
+        description: 'View doctors\' working hours, leave and holidays',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'appointments.availability.manage': {
+        description: 'Set doctors\' working hours, slot length, leave and holidays',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'appointments.reports.read': {
+        description: 'View appointment no-show rates per doctor',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'audit.read': {
+        description: 'View the audit log',
+        defaultRoles: [],
+    },
+    'billing.read': {
+        description: 'View bills, billing stats and patient billing summaries',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN, UserRole.DOCTOR],
+    },
+    'billing.create': {
+        description: 'Create bills',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN, UserRole.DOCTOR],
+    },
+    'billing.update': {
+        description: 'Change bill status and record payments',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN, UserRole.DOCTOR],
+    },
+    'billing.delete': {
+        description: 'Delete bills',
+        defaultRoles: [],
+    },
+    'consent.record': {
+        description: 'Record patient consent grants and withdrawals at reception',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.DOCTOR],
+    },
+    'consent.templates.manage': {
+        description: 'Publish new versions of consent templates',
+        defaultRoles: [],
+    },
+    'doctors.dashboard.read': {
+        description: 'View doctor dashboard statistics',
+        defaultRoles: [UserRole.DOCTOR, UserRole.PHARMACIST],
+    },
+    'lab.order.create': {
+        description: 'Order lab tests',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.DOCTOR],
+    },
+    'lab.order.read': {
+        description: 'View lab orders',
+        defaultRoles: [UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST],
+    },
+    'lab.order.mine': {
+        description: 'View the lab orders one has placed',
+        defaultRoles: [UserRole.DOCTOR],
+    },
+    'lab.order.update': {
+        description: 'Move lab orders through sample collection and processing',
+        defaultRoles: [UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST],
+    },
+    'lab.order.payment': {
+        description: 'Confirm payment for lab orders',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'lab.order.delete': {
+        description: 'Delete lab orders',
+        defaultRoles: [],
+    },
+    'lab.report.download': {
+        description: 'Download lab report PDFs (patients only their own released reports)',
+        defaultRoles: [UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.PATIENT],
+    },
+    'lab.result.create': {
+        description: 'Enter lab results',
+        defaultRoles: [UserRole.LAB_TECHNICIAN],
+    },
+    'lab.result.read': {
+        description: 'View lab results',
+        defaultRoles: [UserRole.DOCTOR, UserRole.LAB_TECHNICIAN],
+    },
+    'lab.result.verify': {
+        description: 'Review and correct submitted lab results',
+        defaultRoles: [UserRole.LAB_TECHNICIAN],
+    },
+    'lab.result.delete': {
+        description: 'Delete lab results',
+        defaultRoles: [],
+    },
+    'lab.test.read': {
+        description: 'View the lab test catalogue',
+        defaultRoles: [UserRole.DOCTOR, UserRole.LAB_TECHNICIAN, UserRole.RECEPTIONIST],
+    },
+    'lab.test.manage': {
+        description: 'Create, edit and delete lab tests and their parameters',
+        defaultRoles: [UserRole.LAB_TECHNICIAN],
+    },
+    'medical.records.read': {
+        description: 'View medical records and prescriptions',
+        defaultRoles: [UserRole.DOCTOR, UserRole.PHARMACIST],
+    },
+    'medical.records.create': {
+        description: 'Write medical records',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'patients.read': {
+        description: 'List, search and view patients and print their wristbands',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN],
+    },
+    'patients.create': {
+        description: 'Register patients',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN],
+    },
+    'patients.delete': {
+        description: 'Delete patients',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN],
+    },
+    'patients.self.read': {
+        description: 'View their own patient profile (patient portal)',
+        defaultRoles: [UserRole.PATIENT],
+    },
+    'patients.merge': {
+        description: 'Find duplicate patient registrations and merge them',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'patients.guardians': {
+        description: 'Link dependent patient profiles to a guardian login',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'patients.import': {
+        description: 'Bulk import patients from CSV or Excel files',
+        defaultRoles: [],
+    },
+    'patients.export': {
+        description: 'Export a patient\'s complete record, with reports and bills as PDFs',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'patients.erasure.request': {
+        description: 'File an erasure request on a patient\'s behalf',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'patients.erasure': {
+        description: 'Review patient data erasure requests and anonymise records',
+        defaultRoles: [],
+    },
+    'patients.restrict': {
+        description: 'Mark patient records as restricted',
+        defaultRoles: [],
+    },
+    'patients.breakglass': {
+        description: 'Open restricted patient records in an emergency (break-glass)',
+        defaultRoles: [UserRole.DOCTOR],
+    },
+    'patients.breakglass.review': {
+        description: 'Review, acknowledge and revoke break-glass access',
+        defaultRoles: [],
+    },
+    'pharmacy.access': {
+        description: 'Use the pharmacy module (inventory, dispensing, pharmacy bills, purchases)',
+        defaultRoles: [UserRole.PHARMACIST],
+    },
+    'pharmacy.bill.delete': {
+        description: 'Delete pharmacy bills',
+        defaultRoles: [UserRole.PHARMACIST],
+    },
+    'prescriptions.create': {
+        description: 'Write prescriptions',
+        defaultRoles: [UserRole.DOCTOR],
+    },
+    'prescriptions.dispense': {
+        description: 'Mark prescriptions as dispensed',
+        defaultRoles: [UserRole.DOCTOR, UserRole.PHARMACIST],
+    },
+    'queue.read': {
+        description: 'View the OP queue with patient details',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'queue.manage': {
+        description: 'Issue OP tokens, call patients and reorder the queue',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.DOCTOR],
+    },
+    'queue.board.read': {
+        description: 'Read the waiting-room display feed (token numbers only)',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.DOCTOR],
+    },
+    'staff.list': {
+        description: 'List staff and doctors (e.g. to pick a doctor when booking)',
+        defaultRoles: [UserRole.RECEPTIONIST, UserRole.PATIENT, UserRole.DOCTOR],
+    },
+    'staff.read': {
+        description: 'View a staff member\'s details',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST],
+    },
+    'staff.create': {
+        description: 'Add staff members',
+        defaultRoles: [UserRole.RECEPTIONIST],
+    },
+    'staff.update': {
+        description: 'Edit staff members',
+        defaultRoles: [],
+    },
+    'staff.delete': {
+        description: 'Remove staff members',
+        defaultRoles: [],
+    },
+    'uploads.create': {
+        description: 'Upload files such as lab report attachments',
+        defaultRoles: [UserRole.LAB_TECHNICIAN, UserRole.DOCTOR],
+    },
+    'users.update': {
+        description: 'Edit user accounts',
+        defaultRoles: [UserRole.DOCTOR, UserRole.RECEPTIONIST, UserRole.PHARMACIST, UserRole.LAB_TECHNICIAN],
+    },
+    'users.manage': {
+        description: 'View and delete user accounts, unlock them and manage their sessions and login attempts',
+        defaultRoles: [],
+    },
+    'permissions.manage': {
+        description: 'Edit role permissions and per-user overrides',
+        defaultRoles: [],
+    },
+    'apikeys.manage': {
+        description: 'Issue, edit and revoke API keys for machine clients',
+        defaultRoles: [],
+    },
+    'trash.manage': {
+        description: 'View and restore deleted patients, staff and bills',
+        defaultRoles: [],
+    },
+} as const satisfies Record<string, { description: string; defaultRoles: readonly UserRole[] }>;
+
+export type PermissionKey = keyof typeof PERMISSION_CATALOG;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSION_CATALOG) as PermissionKey[];
+
+export function isPermissionKey(value: string): value is PermissionKey {
+    return Object.prototype.hasOwnProperty.call(PERMISSION_CATALOG, value);
+}
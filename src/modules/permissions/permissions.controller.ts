@@ -0,0 +1,274 @@
+import { Request, Response, NextFunction } from 'express';
+import { permissionsService } from './permissions.service.js';
+import { roleParamSchema, setRolePermissionsSchema, setUserPermissionSchema } from './permissions.types.js';
+import { sendSuccess } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/permissions/me:
+ *   get:
+ *     tags: [Permissions]
+ *     summary: Get the current user's effective permissions
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of permission keys
+ */
+export async function getMyPermissions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const permissions = await permissionsService.getEffectivePermissions(req.user!.userId, req.user!.role);
+        sendSuccess(res, permissions);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions:
+ *   get:
+ *     tags: [Permissions]
+ *     summary: List all permissions and the roles that hold them
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permission catalog
+ */
+export async function getPermissions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const permissions = await permissionsService.listPermissions();
+        sendSuccess(res, permissions);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions/roles:
+ *   get:
+ *     tags: [Permissions]
+ *     summary: Get the permission set of every role
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Map of role to permission keys
+ */
+export async function getRolePermissions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const mappings = await permissionsService.getRoleMappings();
+        sendSuccess(res, mappings);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions/roles/{role}:
+ *   put:
+ *     tags: [Permissions]
+ *     summary: Replace the permission set of a role
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: role
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [DOCTOR, RECEPTIONIST, PHARMACIST, LAB_TECHNICIAN, PATIENT]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [permissions]
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["billing.read", "billing.create", "billing.delete"]
+ *     responses:
+ *       200:
+ *         description: Updated permission set
+ */
+export async function updateRolePermissions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const { role } = roleParamSchema.parse(req.params);
+        const input = setRolePermissionsSchema.parse(req.body);
+        const permissions = await permissionsService.setRolePermissions(role, input, req.user!.userId);
+        sendSuccess(res, { role, permissions }, 'Role permissions updated successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions/roles/{role}/reset:
+ *   post:
+ *     tags: [Permissions]
+ *     summary: Restore a role's default permissions
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: role
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Default permission set restored
+ */
+export async function resetRolePermissions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const { role } = roleParamSchema.parse(req.params);
+        const permissions = await permissionsService.resetRolePermissions(role, req.user!.userId);
+        sendSuccess(res, { role, permissions }, 'Role permissions reset to defaults');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions/users/{userId}:
+ *   get:
+ *     tags: [Permissions]
+ *     summary: Get a user's permission overrides and effective permissions
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Overrides and effective permissions
+ */
+export async function getUserPermissions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const result = await permissionsService.getUserPermissions(req.params.userId as string);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions/users/{userId}:
+ *   put:
+ *     tags: [Permissions]
+ *     summary: Grant or deny one permission for a single user
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [permission, granted]
+ *             properties:
+ *               permission:
+ *                 type: string
+ *                 example: billing.delete
+ *               granted:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Override saved
+ */
+export async function setUserPermission(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = setUserPermissionSchema.parse(req.body);
+        const result = await permissionsService.setUserPermission(req.params.userId as string, input, req.user!.userId);
+        sendSuccess(res, result, 'User permission updated successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/permissions/users/{userId}/{permission}:
+ *   delete:
+ *     tags: [Permissions]
+ *     summary: Remove a user's override so the role default applies again
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: permission
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Override removed
+ */
+export async function removeUserPermission(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const result = await permissionsService.removeUserPermission(
+            req.params.userId as string,
+            req.params.permission as string,
+            req.user!.userId
+        );
+        sendSuccess(res, result, 'User permission override removed');
+    } catch (error) {
+        next(error);
+    }
+}
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import {
+    getMyPermissions,
+    getPermissions,
+    getRolePermissions,
+    updateRolePermissions,
+    resetRolePermissions,
+    getUserPermissions,
+    setUserPermission,
+    removeUserPermission,
+} from './permissions.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Permissions
+ *   description: Named permissions, role mappings and per-user overrides
+ */
+
+router.use(authGuard);
+
+// Any authenticated user can see what they are allowed to do
+router.get('/me', getMyPermissions);
+
+// Permission administration
+router.get('/', requirePermission('permissions.manage'), getPermissions);
+router.get('/roles', requirePermission('permissions.manage'), getRolePermissions);
+router.put('/roles/:role', requirePermission('permissions.manage'), updateRolePermissions);
+router.post('/roles/:role/reset', requirePermission('permissions.manage'), resetRolePermissions);
+router.get('/users/:userId', requirePermission('permissions.manage'), getUserPermissions);
+router.put('/users/:userId', requirePermission('permissions.manage'), setUserPermission);
+router.delete('/users/:userId/:permission', requirePermission('permissions.manage'), removeUserPermission);
+
+export default router;
@@ -0,0 +1,224 @@
+import { prisma } from '../../config/database.js';
+import { NotFoundError } from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { UserRole } from '@prisma/client';
+import { PERMISSION_CATALOG, PERMISSION_KEYS, PermissionKey } from './permissions.catalog.js';
+import {
+    PermissionResponse,
+    SetRolePermissionsInput,
+    SetUserPermissionInput,
+    UserPermissionsResponse,
+} from './permissions.types.js';
+
+// Role mappings change rarely; keep them in memory briefly so guards don't hit the DB every request
+const ROLE_CACHE_TTL_MS = 60 * 1000;
+
+export class PermissionsService {
+    private roleCache = new Map<UserRole, { permissions: Set<string>; expiresAt: number }>();
+
+    /**
+     * Make sure every catalog permission exists in the database.
+     * Permissions seen for the first time get their default role mappings.
+     */
+    async syncCatalog(): Promise<void> {
+        const existing = await prisma.permission.findMany({ select: { key: true } });
+        const existingKeys = new Set(existing.map(p => p.key));
+        const newKeys = PERMISSION_KEYS.filter(key => !existingKeys.has(key));
+
+        for (const key of PERMISSION_KEYS) {
+            await prisma.permission.upsert({
+                where: { key },
+                create: { key, description: PERMISSION_CATALOG[key].description },
+                update: { description: PERMISSION_CATALOG[key].description },
+            });
+        }
+
+        const defaults = newKeys.flatMap(key =>
+            PERMISSION_CATALOG[key].defaultRoles.map(role => ({ role, permissionKey: key }))
+        );
+
+        if (defaults.length > 0) {
+            await prisma.rolePermission.createMany({ data: defaults, skipDuplicates: true });
+        }
+
+        this.roleCache.clear();
+
+        if (newKeys.length > 0) {
+            logger.info({ permissions: newKeys }, 'Seeded default role mappings for new permissions');
+        }
+    }
+
+    async hasPermission(user: { userId: string; role: UserRole }, permission: PermissionKey): Promise<boolean> {
+        if (user.role === UserRole.ADMIN) {
+            return true;
+        }
+
+        const override = await prisma.userPermission.findUnique({
+            where: { userId_permissionKey: { userId: user.userId, permissionKey: permission } },
+            select: { granted: true },
+        });
+
+        if (override) {
+            return override.granted;
+        }
+
+        const rolePermissions = await this.getRolePermissions(user.role);
+        return rolePermissions.has(permission);
+    }
+
+    async getEffectivePermissions(userId: string, role: UserRole): Promise<string[]> {
+        if (role === UserRole.ADMIN) {
+            return [...PERMISSION_KEYS];
+        }
+
+        const [rolePermissions, overrides] = await Promise.all([
+            this.getRolePermissions(role),
+            prisma.userPermission.findMany({ where: { userId } }),
+        ]);
+
+        const effective = new Set(rolePermissions);
+        for (const override of overrides) {
+            if (override.granted) {
+                effective.add(override.permissionKey);
+            } else {
+                effective.delete(override.permissionKey);
+            }
+        }
+
+        return PERMISSION_KEYS.filter(key => effective.has(key));
+    }
+
+    async listPermissions(): Promise<PermissionResponse[]> {
+        const permissions = await prisma.permission.findMany({
+            include: { roles: { select: { role: true } } },
+            orderBy: { key: 'asc' },
+        });
+
+        return permissions.map(p => ({
+            key: p.key,
+            description: p.description,
+            roles: [UserRole.ADMIN, ...p.roles.map(r => r.role)],
+        }));
+    }
+
+    async getRoleMappings(): Promise<Record<UserRole, string[]>> {
+        const mappings = await prisma.rolePermission.findMany({
+            orderBy: { permissionKey: 'asc' },
+        });
+
+        const result = Object.fromEntries(
+            Object.values(UserRole).map(role => [role, [] as string[]])
+        ) as Record<UserRole, string[]>;
+
+        result.ADMIN = [...PERMISSION_KEYS];
+        for (const mapping of mappings) {
+            result[mapping.role].push(mapping.permissionKey);
+        }
+
+        return result;
+    }
+
+    /**
+     * Replace the full permission set of a role.
+     */
+    async setRolePermissions(role: UserRole, input: SetRolePermissionsInput, actorId: string): Promise<string[]> {
+        const permissions = [...new Set(input.permissions)];
+
+        await prisma.$transaction([
+            prisma.rolePermission.deleteMany({
+                where: { role, permissionKey: { notIn: permissions } },
+            }),
+            prisma.rolePermission.createMany({
+                data: permissions.map(permissionKey => ({ role, permissionKey })),
+                skipDuplicates: true,
+            }),
+        ]);
+
+        this.roleCache.delete(role);
+        logger.info({ role, permissions, actorId }, 'Role permissions updated');
+
+        return permissions.sort();
+    }
+
+    async resetRolePermissions(role: UserRole, actorId: string): Promise<string[]> {
+        const defaults = PERMISSION_KEYS.filter(key =>
+            (PERMISSION_CATALOG[key].defaultRoles as readonly UserRole[]).includes(role)
+        );
+
+        return this.setRolePermissions(role, { permissions: defaults }, actorId);
+    }
+
+    async getUserPermissions(userId: string): Promise<UserPermissionsResponse> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            include: { permissions: { orderBy: { permissionKey: 'asc' } } },
+        });
+
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+
+        return {
+            userId: user.id,
+            role: user.role,
+            overrides: user.permissions.map(o => ({
+                permission: o.permissionKey,
+                granted: o.granted,
+                updatedBy: o.updatedBy,
+                updatedAt: o.updatedAt,
+            })),
+            effective: await this.getEffectivePermissions(user.id, user.role),
+        };
+    }
+
+    async setUserPermission(userId: string, input: SetUserPermissionInput, actorId: string): Promise<UserPermissionsResponse> {
+        const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+
+        if (!user) {
+            throw new NotFoundError('User');
+        }
+
+        await prisma.userPermission.upsert({
+            where: { userId_permissionKey: { userId, permissionKey: input.permission } },
+            create: { userId, permissionKey: input.permission, granted: input.granted, updatedBy: actorId },
+            update: { granted: input.granted, updatedBy: actorId },
+        });
+
+        logger.info({ userId, permission: input.permission, granted: input.granted, actorId }, 'User permission override set');
+
+        return this.getUserPermissions(userId);
+    }
+
+    async removeUserPermission(userId: string, permission: string, actorId: string): Promise<UserPermissionsResponse> {
+        const deleted = await prisma.userPermission.deleteMany({
+            where: { userId, permissionKey: permission },
+        });
+
+        if (deleted.count === 0) {
+            throw new NotFoundError('Permission override');
+        }
+
+        logger.info({ userId, permission, actorId }, 'User permission override removed');
+
+        return this.getUserPermissions(userId);
+    }
+
+    private async getRolePermissions(role: UserRole): Promise<Set<string>> {
+        const cached = this.roleCache.get(role);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.permissions;
+        }
+
+        const mappings = await prisma.rolePermission.findMany({
+            where: { role },
+            select: { permissionKey: true },
+        });
+
+        const permissions = new Set(mappings.map(m => m.permissionKey));
+        this.roleCache.set(role, { permissions, expiresAt: Date.now() + ROLE_CACHE_TTL_MS });
+
+        return permissions;
+    }
+}
+
+export const permissionsService = new PermissionsService();
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { UserRole } from '@prisma/client';
+import { isPermissionKey } from './permissions.catalog.js';
+
+const permissionKeySchema = z.string().refine(isPermissionKey, {
+    message: 'Unknown permission',
+});
+
+// ADMIN always holds every permission, so its mapping cannot be edited
+const editableRoleSchema = z.nativeEnum(UserRole).refine(role => role !== UserRole.ADMIN, {
+    message: 'Administrators always have every permission',
+});
+
+export const roleParamSchema = z.object({
+    role: editableRoleSchema,
+});
+
+export const setRolePermissionsSchema = z.object({
+    permissions: z.array(permissionKeySchema),
+});
+
+export const setUserPermissionSchema = z.object({
+    permission: permissionKeySchema,
+    granted: z.boolean(),
+});
+
+export type SetRolePermissionsInput = z.infer<typeof setRolePermissionsSchema>;
+export type SetUserPermissionInput = z.infer<typeof setUserPermissionSchema>;
+
+export interface PermissionResponse {
+    key: string;
+    description: string;
+    roles: UserRole[];
+}
+
+export interface UserPermissionsResponse {
+    userId: string;
+    role: UserRole;
+    overrides: Array<{
+        permission: string;
+        granted: boolean;
+        updatedBy: string | null;
+        updatedAt: Date;
+    }>;
+    effective: string[];
+}
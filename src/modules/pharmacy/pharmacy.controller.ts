@@ -225,7 +225,7 @@ export async function updateMedicine(
 ): Promise<void> {
     try {
         const input = updateMedicineSchema.parse(req.body);
-        const medicine = await pharmacyService.updateMedicine(req.params.id as string, input);
+        const medicine = await pharmacyService.updateMedicine(req.params.id as string, input, req.user);
         sendSuccess(res, medicine, 'Medicine updated successfully');
     } catch (error) {
         logger.error({ context: 'PharmacyController.updateMedicine', error, id: req.params.id, body: req.body }, 'Failed to update medicine');
@@ -254,7 +254,7 @@ export async function deleteMedicine(
     next: NextFunction
 ): Promise<void> {
     try {
-        await pharmacyService.deleteMedicine(req.params.id as string);
+        await pharmacyService.deleteMedicine(req.params.id as string, req.user);
         sendSuccess(res, null, 'Medicine deleted successfully');
     } catch (error) {
         logger.error({ context: 'PharmacyController.deleteMedicine', error, id: req.params.id }, 'Failed to delete medicine');
@@ -310,7 +310,7 @@ export async function createBill(
 ): Promise<void> {
     try {
         const input = createBillSchema.parse(req.body);
-        const bill = await pharmacyService.createBill(input);
+        const bill = await pharmacyService.createBill(input, req.user);
         sendCreated(res, bill, 'Bill created successfully');
     } catch (error) {
         logger.error({ context: 'PharmacyController.createBill', error, body: req.body }, 'Failed to create bill');
@@ -416,7 +416,7 @@ export async function updateBill(
 ): Promise<void> {
     try {
         const input = updateBillSchema.parse(req.body);
-        const bill = await pharmacyService.updateBill(req.params.id as string, input);
+        const bill = await pharmacyService.updateBill(req.params.id as string, input, req.user);
         sendSuccess(res, bill, 'Bill updated successfully');
     } catch (error) {
         logger.error({ context: 'PharmacyController.updateBill', error, id: req.params.id, body: req.body }, 'Failed to update bill');
@@ -430,7 +430,7 @@ export async function deleteBill(
     next: NextFunction
 ): Promise<void> {
     try {
-        await pharmacyService.deleteBill(req.params.id as string);
+        await pharmacyService.deleteBill(req.params.id as string, req.user);
         sendSuccess(res, null, 'Bill deleted successfully');
     } catch (error) {
         logger.error({ context: 'PharmacyController.deleteBill', error, id: req.params.id }, 'Failed to delete bill');
@@ -583,7 +583,7 @@ export async function processReturn(
 ): Promise<void> {
     try {
         const pharmacistId = (req as any).user?.userId;
-        const result = await pharmacyService.processReturn({ ...req.body, pharmacistId });
+        const result = await pharmacyService.processReturn({ ...req.body, pharmacistId }, req.user);
         sendCreated(res, result, 'Return processed successfully');
     } catch (error) {
         logger.error({ context: 'PharmacyController.processReturn', error, body: req.body }, 'Failed to process return');
@@ -628,7 +628,7 @@ export async function getReturns(
  */
 export async function deleteReturn(req: Request, res: Response, next: NextFunction) {
     try {
-        await pharmacyService.deleteReturn(req.params.id as string);
+        await pharmacyService.deleteReturn(req.params.id as string, req.user);
         res.status(204).send();
     } catch (error) {
         logger.error({ context: 'PharmacyController.deleteReturn', error }, 'Failed to delete return');
@@ -2,14 +2,13 @@ import { Router } from 'express';
 import { createMedicine, getMedicines, getMedicine, updateMedicine, updateBatch, deleteMedicine, createBill, getBills, getBill, updateBill, deleteBill, getLowStockMedicines, getDistributorReport, getPurchases, getMarginReport, recordPayment, getPurchasePayments, createPurchase, updatePurchase, deletePurchase, processReturn, getReturns, deleteReturn, processStockReturn, getStockReturns, deleteStockReturn, getCategories, createCategory, deleteCategory, getPharmacyReports } from './pharmacy.controller.js';
 import { getPendingPrescriptions, getDispensedHistory, getPharmacyStats } from '../doctors/doctors.controller.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { roleGuard } from '../../middleware/roleGuard.js';
-import { UserRole } from '@prisma/client';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 import { invoiceUpload } from '../../middleware/invoiceUpload.js';
 
 const router = Router();
 
 router.use(authGuard);
-router.use(roleGuard(UserRole.ADMIN, UserRole.PHARMACIST));
+router.use(requirePermission('pharmacy.access'));
 
 // Pending Orders (Queue) - Added here to match /api/pharmacy/pending
 router.get('/pending', getPendingPrescriptions);
@@ -35,7 +34,7 @@ router.post('/bills', createBill);
 router.get('/bills', getBills);
 router.get('/bills/:id', getBill);
 router.patch('/bills/:id', updateBill);
-router.delete('/bills/:id', deleteBill);
+router.delete('/bills/:id', requirePermission('pharmacy.bill.delete'), deleteBill);
 
 // Returns
 router.post('/returns', processReturn);
@@ -21,6 +21,8 @@ import {
     CreatePurchaseInput
 } from './pharmacy.types.js';
 import { PaginatedResponse } from '../users/users.types.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
 import { Decimal } from '@prisma/client/runtime/library';
 import { it } from 'node:test';
 
@@ -505,7 +507,7 @@ export class PharmacyService {
         }
     }
 
-    async updateMedicine(id: string | number, input: UpdateMedicineInput): Promise<MedicineResponse> {
+    async updateMedicine(id: string | number, input: UpdateMedicineInput, actor?: AuditActor): Promise<MedicineResponse> {
         const existing = await (prisma as any).medicine.findUnique({ where: { id: id.toString() } });
         if (!existing) {
             throw new NotFoundError('Medicine');
@@ -527,6 +529,16 @@ export class PharmacyService {
             where: { id: id.toString() },
             data,
         });
+
+        await auditService.record({
+            actor,
+            entityType: 'Medicine',
+            entityId: medicine.id,
+            action: 'UPDATE',
+            before: existing,
+            after: medicine,
+        });
+
         return this.formatMedicine(medicine);
     }
 
@@ -624,7 +636,7 @@ export class PharmacyService {
         });
     }
 
-    async deleteMedicine(id: string | number): Promise<void> {
+    async deleteMedicine(id: string | number, actor?: AuditActor): Promise<void> {
         console.log('[PharmacyService] Attempting to delete medicine with id:', id);
         // Using findFirst instead of findUnique for resilience
         const medicine = await (prisma as any).medicine.findFirst({ where: { id: id.toString() } });
@@ -634,10 +646,12 @@ export class PharmacyService {
         }
         await (prisma as any).medicine.delete({ where: { id: id.toString() } });
         console.log('[PharmacyService] Medicine deleted successfully:', id);
+
+        await auditService.record({ actor, entityType: 'Medicine', entityId: medicine.id, action: 'DELETE', before: medicine });
     }
 
     // Billing
-    async createBill(input: CreateBillInput): Promise<BillResponse> {
+    async createBill(input: CreateBillInput, actor?: AuditActor): Promise<BillResponse> {
         // Validate patient if not walk-in
         if (!input.is_walk_in) {
             if (!input.patient_id) {
@@ -801,6 +815,8 @@ export class PharmacyService {
             return newBill;
         });
 
+        await auditService.record({ actor, entityType: 'Bill', entityId: bill.id, action: 'CREATE', after: bill });
+
         return this.formatBill(bill);
     }
 
@@ -890,7 +906,7 @@ export class PharmacyService {
         return this.formatBill(bill as any);
     }
 
-    async updateBill(id: string, input: UpdateBillInput): Promise<BillResponse> {
+    async updateBill(id: string, input: UpdateBillInput, actor?: AuditActor): Promise<BillResponse> {
         const existing = await prisma.bill.findUnique({ where: { id } });
         if (!existing) {
             throw new NotFoundError('Bill');
@@ -901,10 +917,13 @@ export class PharmacyService {
             data: input,
             include: { items: true, patient: true },
         });
+
+        await auditService.record({ actor, entityType: 'Bill', entityId: id, action: 'UPDATE', before: existing, after: bill });
+
         return this.formatBill(bill as any);
     }
 
-    async deleteBill(id: string): Promise<void> {
+    async deleteBill(id: string, actor?: AuditActor): Promise<void> {
         console.log('[PharmacyService] Attempting to delete bill with id:', id);
         // Using findFirst instead of findUnique for resilience
         const bill = await prisma.bill.findFirst({ where: { id } });
@@ -913,10 +932,15 @@ export class PharmacyService {
             throw new NotFoundError('Bill');
         }
 
-        // Deleting the bill will cascade to BillItem
+        // Moved to the trash; items and payments stay so the bill can be restored.
         // Note: Pharmacy bills also decrement stock on creation, but we usually don't restore stock on delete unless specified.
-        await prisma.bill.delete({ where: { id } });
-        console.log('[PharmacyService] Bill deleted successfully:', id);
+        const deleted = await prisma.bill.update({
+            where: { id },
+            data: { deletedAt: new Date(), deletedBy: actor?.userId },
+        });
+        console.log('[PharmacyService] Bill moved to trash:', id);
+
+        await auditService.record({ actor, entityType: 'Bill', entityId: id, action: 'DELETE', before: bill, after: deleted });
     }
 
     async getLowStockMedicines() {
@@ -964,8 +988,8 @@ export class PharmacyService {
     }
 
     // Returns
-    async processReturn(input: CreateReturnInput): Promise<PharmacyReturnResponse> {
-        return await prisma.$transaction(async (tx) => {
+    async processReturn(input: CreateReturnInput, actor?: AuditActor): Promise<PharmacyReturnResponse> {
+        const pharmacyReturn = await prisma.$transaction(async (tx) => {
             // 1. Validate bill and items
             const bill = await tx.bill.findUnique({
                 where: { id: input.bill_id },
@@ -1046,8 +1070,18 @@ export class PharmacyService {
                 });
             }
 
-            return this.formatReturn(pharmacyReturn);
+            return pharmacyReturn;
+        });
+
+        await auditService.record({
+            actor,
+            entityType: 'PharmacyReturn',
+            entityId: pharmacyReturn.id,
+            action: 'CREATE',
+            after: pharmacyReturn,
         });
+
+        return this.formatReturn(pharmacyReturn);
     }
 
     async getReturns(query: any): Promise<PaginatedResponse<PharmacyReturnResponse>> {
@@ -1094,8 +1128,8 @@ export class PharmacyService {
         };
     }
 
-    async deleteReturn(id: string): Promise<void> {
-        await prisma.$transaction(async (tx) => {
+    async deleteReturn(id: string, actor?: AuditActor): Promise<void> {
+        const pharmacyReturn = await prisma.$transaction(async (tx) => {
             const pharmacyReturn = await (tx as any).pharmacyReturn.findUnique({
                 where: { id },
                 include: { items: true }
@@ -1132,7 +1166,11 @@ export class PharmacyService {
             }
 
             await (tx as any).pharmacyReturn.delete({ where: { id } });
+
+            return pharmacyReturn;
         });
+
+        await auditService.record({ actor, entityType: 'PharmacyReturn', entityId: id, action: 'DELETE', before: pharmacyReturn });
     }
 
     private formatReturn(pReturn: any): PharmacyReturnResponse {
@@ -1393,6 +1431,7 @@ export class PharmacyService {
             JOIN medicines m ON bi.medicine_id::text = m.id::text
             LEFT JOIN patients p ON b.patient_id::text = p.uhid::text
             WHERE b.status = 'PAID'
+              AND b.deleted_at IS NULL
               AND b.bill_type = 'PHARMACY'
               AND bi.medicine_id IS NOT NULL
               AND b.created_at >= ${start} 
@@ -1409,6 +1448,7 @@ export class PharmacyService {
             FROM bill_items bi
             JOIN bills b ON bi.bill_id::text = b.id::text
             WHERE b.status = 'PAID'
+              AND b.deleted_at IS NULL
               AND b.bill_type = 'PHARMACY'
               AND bi.medicine_id IS NOT NULL
               AND DATE(b.created_at) = CURRENT_DATE
@@ -1425,6 +1465,7 @@ export class PharmacyService {
             FROM bill_items bi
             JOIN bills b ON bi.bill_id::text = b.id::text
             WHERE b.status = 'PAID'
+              AND b.deleted_at IS NULL
               AND b.bill_type = 'PHARMACY'
               AND bi.medicine_id IS NOT NULL
               AND EXTRACT(MONTH FROM b.created_at) = EXTRACT(MONTH FROM CURRENT_DATE)
@@ -1532,7 +1573,7 @@ export class PharmacyService {
                     DATE(created_at) as "date",
                     SUM(grand_total) as "total_sales"
                 FROM bills
-                WHERE created_at >= ${start} AND created_at <= ${end} AND status = 'PAID'
+                WHERE created_at >= ${start} AND created_at <= ${end} AND status = 'PAID' AND deleted_at IS NULL
                 GROUP BY DATE(created_at)
                 ORDER BY DATE(created_at) ASC
             `;
@@ -0,0 +1,3 @@
+export { default as queueRoutes } from './queue.routes.js';
+export { queueService } from './queue.service.js';
+export * from './queue.types.js';
@@ -0,0 +1,260 @@
+import { Request, Response, NextFunction } from 'express';
+import { queueService } from './queue.service.js';
+import {
+    boardQuerySchema,
+    moveTokenSchema,
+    queueQuerySchema,
+    registerOpVisitSchema,
+    updateTokenStatusSchema,
+} from './queue.types.js';
+import { sendCreated, sendSuccess } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/queue/tokens:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Register a walk-in OP visit and issue a token
+ *     description: Tokens are numbered per doctor per clinic day. Emergencies are placed ahead of everyone waiting except earlier emergencies.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [patientId, doctorId]
+ *             properties:
+ *               patientId:
+ *                 type: string
+ *               doctorId:
+ *                 type: string
+ *               emergency:
+ *                 type: boolean
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Token issued
+ *       409:
+ *         description: The patient is already in this doctor's queue today
+ */
+export async function registerOpVisit(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const input = registerOpVisitSchema.parse(req.body);
+        const token = await queueService.register(input, req.user);
+        sendCreated(res, token, `Token ${token.tokenNumber} issued`);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/queue:
+ *   get:
+ *     tags: [Queue]
+ *     summary: OP tokens for a day
+ *     description: Patients being seen come first, then the waiting line in order, then skipped and finished tokens.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: doctorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [WAITING, CALLED, IN_CONSULTATION, DONE, SKIPPED]
+ *     responses:
+ *       200:
+ *         description: Tokens
+ */
+export async function getQueue(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = queueQuerySchema.parse(req.query);
+        const tokens = await queueService.findAll(query, req.user!);
+        sendSuccess(res, tokens);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/queue/doctors/{doctorId}/call-next:
+ *   post:
+ *     tags: [Queue]
+ *     summary: Call the next waiting patient
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: doctorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The called token, or null when nobody is waiting
+ */
+export async function callNextToken(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const doctorId = Array.isArray(req.params.doctorId) ? req.params.doctorId[0] : req.params.doctorId;
+        const token = await queueService.callNext(doctorId);
+        sendSuccess(res, token, token ? `Token ${token.tokenNumber} called` : 'No patients are waiting');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/queue/tokens/{id}/status:
+ *   patch:
+ *     tags: [Queue]
+ *     summary: Move a token to its next status
+ *     description: "WAITING -> CALLED -> IN_CONSULTATION -> DONE. Waiting or called tokens can be SKIPPED; skipped and called tokens can go back to WAITING at the end of the line."
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [WAITING, CALLED, IN_CONSULTATION, DONE, SKIPPED]
+ *     responses:
+ *       200:
+ *         description: Token updated
+ *       400:
+ *         description: Status change not allowed
+ */
+export async function updateTokenStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const { status } = updateTokenStatusSchema.parse(req.body);
+        const token = await queueService.updateStatus(id, status);
+        sendSuccess(res, token, 'Token updated successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/queue/tokens/{id}/position:
+ *   patch:
+ *     tags: [Queue]
+ *     summary: Move a waiting token to another place in line
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [position]
+ *             properties:
+ *               position:
+ *                 type: integer
+ *                 description: 1 = next in line
+ *               emergency:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Token moved
+ */
+export async function moveToken(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        const input = moveTokenSchema.parse(req.body);
+        const token = await queueService.move(id, input);
+        sendSuccess(res, token, 'Token moved successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/queue/board:
+ *   get:
+ *     tags: [Queue]
+ *     summary: Waiting-room display feed
+ *     description: Token numbers being served and up next for each doctor today. No patient details. Meant to be polled by the display with an API key holding queue.board.read.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: doctorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: department
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Board state
+ */
+export async function getQueueBoard(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = boardQuerySchema.parse(req.query);
+        const board = await queueService.getBoard(query);
+        res.set('Cache-Control', 'no-store');
+        sendSuccess(res, board);
+    } catch (error) {
+        next(error);
+    }
+}
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { callNextToken, getQueue, getQueueBoard, moveToken, registerOpVisit, updateTokenStatus } from './queue.controller.js';
+import { apiKeyAuthGuard, authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Queue
+ *   description: Outpatient tokens and the waiting-room display
+ */
+
+// Also open to waiting-room displays with a scoped API key
+router.get('/board', apiKeyAuthGuard('queue.board.read'), requirePermission('queue.board.read'), getQueueBoard);
+
+router.use(authGuard);
+
+router.get('/', requirePermission('queue.read'), getQueue);
+
+router.post('/tokens', requirePermission('queue.manage'), registerOpVisit);
+router.patch('/tokens/:id/status', requirePermission('queue.manage'), updateTokenStatus);
+router.patch('/tokens/:id/position', requirePermission('queue.manage'), moveToken);
+router.post('/doctors/:doctorId/call-next', requirePermission('queue.manage'), callNextToken);
+
+export default router;
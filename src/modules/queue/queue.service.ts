@@ -0,0 +1,428 @@
+import { prisma } from '../../config/database.js';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/AppError.js';
+import { toClinicTime } from '../../utils/clinicTime.js';
+import { TokenPayload } from '../../utils/jwt.js';
+import { logger } from '../../utils/logger.js';
+import { AuditActor } from '../audit/audit.types.js';
+import { breakGlassService } from '../breakglass/breakglass.service.js';
+import { eventsService } from '../events/events.service.js';
+import { AppointmentStatus, OpToken, OpTokenStatus, Prisma, Staff, UserRole } from '@prisma/client';
+import {
+    BoardQueryInput,
+    MoveTokenInput,
+    OpTokenResponse,
+    QueueBoardDoctor,
+    QueueBoardResponse,
+    QueueQueryInput,
+    RegisterOpVisitInput,
+} from './queue.types.js';
+
+// Waiting tokens shown per doctor on the display board
+const BOARD_UP_NEXT = 5;
+
+// Tokens still in the queue; a patient may hold only one per doctor per day
+const OPEN_STATUSES: OpTokenStatus[] = ['WAITING', 'CALLED', 'IN_CONSULTATION'];
+
+const TRANSITIONS: Record<OpTokenStatus, OpTokenStatus[]> = {
+    WAITING: ['CALLED', 'IN_CONSULTATION', 'SKIPPED'],
+    // A called patient who has stepped out can be sent back to the line
+    CALLED: ['WAITING', 'IN_CONSULTATION', 'SKIPPED'],
+    IN_CONSULTATION: ['DONE'],
+    DONE: [],
+    // Skipped patients who turn up later rejoin the line
+    SKIPPED: ['WAITING'],
+};
+
+// The OP appointment follows its token
+const APPOINTMENT_STATUS: Record<OpTokenStatus, AppointmentStatus> = {
+    WAITING: 'CONFIRMED',
+    CALLED: 'CONFIRMED',
+    IN_CONSULTATION: 'IN_PROGRESS',
+    DONE: 'COMPLETED',
+    SKIPPED: 'CONFIRMED',
+};
+
+// Reception list order: being seen, then the waiting line, then finished
+const LIST_RANK: Record<OpTokenStatus, number> = {
+    IN_CONSULTATION: 0,
+    CALLED: 1,
+    WAITING: 2,
+    SKIPPED: 3,
+    DONE: 4,
+};
+
+const tokenInclude = {
+    patient: { select: { uhid: true, firstName: true, lastName: true } },
+    doctor: { select: { id: true, firstName: true, lastName: true, department: true } },
+} satisfies Prisma.OpTokenInclude;
+
+type TokenWithRelations = Prisma.OpTokenGetPayload<{ include: typeof tokenInclude }>;
+
+export class QueueService {
+    /**
+     * Register a walk-in OP visit: creates the visit's appointment and issues the
+     * next token in the doctor's queue for today.
+     */
+    async register(input: RegisterOpVisitInput, actor?: AuditActor): Promise<OpTokenResponse> {
+        const patient = await prisma.patient.findUnique({ where: { uhid: input.patientId } });
+        if (!patient) {
+            throw new NotFoundError('Patient');
+        }
+
+        const doctor = await this.findDoctor(input.doctorId);
+        const visitDate = this.today();
+
+        const token = await prisma.$transaction(async (tx) => {
+            // Single-row atomic upsert - concurrent registrations never share a number
+            const sequence = await tx.opTokenSequence.upsert({
+                where: { doctorId_visitDate: { doctorId: doctor.id, visitDate } },
+                create: { doctorId: doctor.id, visitDate, lastValue: 1 },
+                update: { lastValue: { increment: 1 } },
+            });
+
+            // Checked after the upsert: its row lock makes concurrent registrations
+            // for this doctor and day wait, so they see each other's tokens
+            const open = await this.findOpenToken(patient.uhid, doctor.id, visitDate, tx);
+            if (open) {
+                throw new ConflictError(
+                    `${patient.firstName} ${patient.lastName} already holds token ${open.tokenNumber} in Dr. ${doctor.firstName} ${doctor.lastName}'s queue today`
+                );
+            }
+
+            const appointment = await tx.appointment.create({
+                data: {
+                    patientId: patient.uhid,
+                    doctorId: doctor.id,
+                    scheduledAt: new Date(),
+                    duration: doctor.slotMinutes,
+                    status: 'CONFIRMED',
+                    reason: input.reason || 'OP Consultation',
+                },
+            });
+
+            const last = await tx.opToken.aggregate({
+                where: { doctorId: doctor.id, visitDate, status: 'WAITING' },
+                _max: { sortOrder: true },
+            });
+
+            const created = await tx.opToken.create({
+                data: {
+                    appointmentId: appointment.id,
+                    patientId: patient.uhid,
+                    doctorId: doctor.id,
+                    visitDate,
+                    tokenNumber: sequence.lastValue,
+                    // End of the line; emergencies are moved up below
+                    sortOrder: (last._max.sortOrder ?? 0) + 1,
+                    isEmergency: input.emergency,
+                    createdBy: actor?.userId,
+                },
+            });
+
+            if (input.emergency) {
+                const emergenciesAhead = await tx.opToken.count({
+                    where: {
+                        doctorId: doctor.id,
+                        visitDate,
+                        status: 'WAITING',
+                        isEmergency: true,
+                        id: { not: created.id },
+                    },
+                });
+                await this.reposition(tx, created, emergenciesAhead + 1);
+            }
+
+            return tx.opToken.findUniqueOrThrow({ where: { id: created.id }, include: tokenInclude });
+        });
+
+        logger.info({ tokenId: token.id, doctorId: doctor.id, tokenNumber: token.tokenNumber, emergency: input.emergency }, 'OP token issued');
+
+        return this.formatToken(token);
+    }
+
+    /**
+     * Today's open token of the patient with this doctor, if any
+     */
+    async findOpenToken(
+        patientId: string,
+        doctorId: string,
+        visitDate: Date = this.today(),
+        client: Prisma.TransactionClient = prisma
+    ): Promise<OpToken | null> {
+        return client.opToken.findFirst({
+            where: { patientId, doctorId, visitDate, status: { in: OPEN_STATUSES } },
+        });
+    }
+
+    /**
+     * The day's tokens for the reception list. Restricted patients the viewer
+     * cannot open are left out, as in other patient lists.
+     */
+    async findAll(query: QueueQueryInput, viewer: TokenPayload): Promise<OpTokenResponse[]> {
+        const where: Prisma.OpTokenWhereInput = {
+            visitDate: query.date ? this.toDbDate(query.date) : this.today(),
+            patient: await breakGlassService.visiblePatientsWhere(viewer),
+            ...(query.doctorId && { doctor: { OR: [{ id: query.doctorId }, { userId: query.doctorId }] } }),
+            ...(query.status && { status: query.status }),
+        };
+
+        const tokens = await prisma.opToken.findMany({
+            where,
+            include: tokenInclude,
+            orderBy: [{ sortOrder: 'asc' }, { tokenNumber: 'asc' }],
+        });
+
+        return tokens
+            .sort((a, b) => LIST_RANK[a.status] - LIST_RANK[b.status]
+                || (a.status === 'WAITING' ? a.sortOrder - b.sortOrder : a.tokenNumber - b.tokenNumber))
+            .map(token => this.formatToken(token));
+    }
+
+    /**
+     * Call the first patient in the doctor's waiting line. Returns null when
+     * nobody is waiting.
+     */
+    async callNext(doctorId: string): Promise<OpTokenResponse | null> {
+        const doctor = await this.findDoctor(doctorId);
+        const visitDate = this.today();
+
+        // Another desk may call the same token at the same moment; take the next one then
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const next = await prisma.opToken.findFirst({
+                where: { doctorId: doctor.id, visitDate, status: 'WAITING' },
+                orderBy: [{ sortOrder: 'asc' }, { tokenNumber: 'asc' }],
+            });
+
+            if (!next) {
+                return null;
+            }
+
+            const { count } = await prisma.opToken.updateMany({
+                where: { id: next.id, status: 'WAITING' },
+                data: { status: 'CALLED', calledAt: new Date() },
+            });
+
+            if (count === 1) {
+                const called = await prisma.opToken.findUniqueOrThrow({ where: { id: next.id }, include: tokenInclude });
+                this.announceCalled(called);
+                return this.formatToken(called);
+            }
+        }
+
+        throw new ConflictError('The queue changed while calling the next patient. Please try again.');
+    }
+
+    async updateStatus(id: string, status: OpTokenStatus): Promise<OpTokenResponse> {
+        const token = await this.getToken(id);
+
+        if (!TRANSITIONS[token.status].includes(status)) {
+            throw new ValidationError(`A ${token.status} token cannot be moved to ${status}`);
+        }
+
+        const now = new Date();
+        const updated = await prisma.$transaction(async (tx) => {
+            const data: Prisma.OpTokenUpdateManyMutationInput = { status };
+            if (status === 'CALLED') data.calledAt = now;
+            if (status === 'IN_CONSULTATION') data.consultationStartedAt = now;
+            if (status === 'DONE') data.completedAt = now;
+            if (status === 'SKIPPED') data.skippedAt = now;
+
+            if (status === 'WAITING') {
+                // Rejoins at the end of the line; staff can move them up
+                const last = await tx.opToken.aggregate({
+                    where: { doctorId: token.doctorId, visitDate: token.visitDate, status: 'WAITING' },
+                    _max: { sortOrder: true },
+                });
+                data.sortOrder = (last._max.sortOrder ?? 0) + 1;
+            }
+
+            // Only from the status checked above; another desk may have moved the token since
+            const { count } = await tx.opToken.updateMany({ where: { id, status: token.status }, data });
+            if (count === 0) {
+                throw new ConflictError('The token was updated at another desk. Please refresh and try again.');
+            }
+
+            await tx.appointment.update({
+                where: { id: token.appointmentId },
+                data: { status: APPOINTMENT_STATUS[status] },
+            });
+
+            return tx.opToken.findUniqueOrThrow({ where: { id }, include: tokenInclude });
+        });
+
+        if (status === 'CALLED') {
+            this.announceCalled(updated);
+        }
+
+        return this.formatToken(updated);
+    }
+
+    /**
+     * Move a waiting token to another place in line, e.g. to the front for an
+     * emergency.
+     */
+    async move(id: string, input: MoveTokenInput): Promise<OpTokenResponse> {
+        const token = await this.getToken(id);
+
+        if (token.status !== 'WAITING') {
+            throw new ValidationError('Only waiting tokens can be moved');
+        }
+
+        const updated = await prisma.$transaction(async (tx) => {
+            if (input.emergency !== undefined) {
+                await tx.opToken.update({ where: { id }, data: { isEmergency: input.emergency } });
+            }
+            await this.reposition(tx, token, input.position);
+
+            return tx.opToken.findUniqueOrThrow({ where: { id }, include: tokenInclude });
+        });
+
+        logger.info({ tokenId: id, position: input.position, emergency: input.emergency }, 'OP token moved');
+
+        return this.formatToken(updated);
+    }
+
+    /**
+     * Today's queue for the waiting-room display
+     */
+    async getBoard(query: BoardQueryInput): Promise<QueueBoardResponse> {
+        const visitDate = this.today();
+
+        const tokens = await prisma.opToken.findMany({
+            where: {
+                visitDate,
+                status: { in: OPEN_STATUSES },
+                doctor: {
+                    ...(query.doctorId && { OR: [{ id: query.doctorId }, { userId: query.doctorId }] }),
+                    ...(query.department && { department: { equals: query.department, mode: 'insensitive' } }),
+                },
+            },
+            select: {
+                tokenNumber: true,
+                status: true,
+                isEmergency: true,
+                sortOrder: true,
+                doctor: { select: { id: true, firstName: true, lastName: true, department: true } },
+            },
+            orderBy: [{ sortOrder: 'asc' }, { tokenNumber: 'asc' }],
+        });
+
+        const doctors = new Map<string, QueueBoardDoctor>();
+        for (const token of tokens) {
+            let entry = doctors.get(token.doctor.id);
+            if (!entry) {
+                entry = {
+                    doctorId: token.doctor.id,
+                    doctorName: `Dr. ${token.doctor.firstName} ${token.doctor.lastName}`,
+                    department: token.doctor.department,
+                    nowServing: [],
+                    upNext: [],
+                    waitingCount: 0,
+                };
+                doctors.set(token.doctor.id, entry);
+            }
+
+            if (token.status === 'WAITING') {
+                entry.waitingCount++;
+                if (entry.upNext.length < BOARD_UP_NEXT) {
+                    entry.upNext.push({ tokenNumber: token.tokenNumber, isEmergency: token.isEmergency });
+                }
+            } else {
+                entry.nowServing.push({ tokenNumber: token.tokenNumber, status: token.status, isEmergency: token.isEmergency });
+            }
+        }
+
+        return {
+            date: visitDate.toISOString().slice(0, 10),
+            generatedAt: new Date(),
+            doctors: [...doctors.values()].sort((a, b) => a.doctorName.localeCompare(b.doctorName)),
+        };
+    }
+
+    /**
+     * Put a waiting token at `position` (1-based) in its doctor's line and
+     * renumber the rest of the line behind it.
+     */
+    private async reposition(tx: Prisma.TransactionClient, token: OpToken, position: number): Promise<void> {
+        const waiting = await tx.opToken.findMany({
+            where: { doctorId: token.doctorId, visitDate: token.visitDate, status: 'WAITING' },
+            select: { id: true, sortOrder: true },
+            orderBy: [{ sortOrder: 'asc' }, { tokenNumber: 'asc' }],
+        });
+
+        const line = waiting.filter(entry => entry.id !== token.id);
+        line.splice(Math.min(position, line.length + 1) - 1, 0, { id: token.id, sortOrder: token.sortOrder });
+
+        for (let i = 0; i < line.length; i++) {
+            if (line[i].sortOrder !== i + 1 || line[i].id === token.id) {
+                await tx.opToken.update({ where: { id: line[i].id }, data: { sortOrder: i + 1 } });
+            }
+        }
+    }
+
+    private announceCalled(token: TokenWithRelations): void {
+        eventsService.publish('queue.token.called', {
+            tokenId: token.id,
+            tokenNumber: token.tokenNumber,
+            doctorId: token.doctor.id,
+            doctorName: `Dr. ${token.doctor.firstName} ${token.doctor.lastName}`,
+            department: token.doctor.department,
+        }, { roles: [UserRole.DOCTOR, UserRole.RECEPTIONIST] });
+    }
+
+    private async getToken(id: string): Promise<OpToken> {
+        const token = await prisma.opToken.findUnique({ where: { id } });
+
+        if (!token) {
+            throw new NotFoundError('Token');
+        }
+
+        return token;
+    }
+
+    /**
+     * Accepts a Staff.id or the doctor's User.id
+     */
+    private async findDoctor(doctorId: string): Promise<Staff> {
+        const doctor = await prisma.staff.findFirst({
+            where: {
+                OR: [{ id: doctorId }, { userId: doctorId }],
+                user: { role: 'DOCTOR' },
+            },
+        });
+
+        if (!doctor) {
+            throw new NotFoundError('Doctor');
+        }
+
+        return doctor;
+    }
+
+    private today(): Date {
+        return this.toDbDate(toClinicTime(new Date()).date);
+    }
+
+    private toDbDate(date: string): Date {
+        return new Date(`${date}T00:00:00.000Z`);
+    }
+
+    private formatToken(token: TokenWithRelations): OpTokenResponse {
+        return {
+            id: token.id,
+            appointmentId: token.appointmentId,
+            tokenNumber: token.tokenNumber,
+            visitDate: token.visitDate.toISOString().slice(0, 10),
+            status: token.status,
+            isEmergency: token.isEmergency,
+            patient: token.patient,
+            doctor: token.doctor,
+            calledAt: token.calledAt,
+            consultationStartedAt: token.consultationStartedAt,
+            completedAt: token.completedAt,
+            skippedAt: token.skippedAt,
+            createdAt: token.createdAt,
+        };
+    }
+}
+
+export const queueService = new QueueService();
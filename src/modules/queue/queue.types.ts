@@ -0,0 +1,74 @@
+import { z } from 'zod';
+import { OpTokenStatus } from '@prisma/client';
+
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+export const registerOpVisitSchema = z.object({
+    patientId: z.string().min(1),
+    doctorId: z.string().min(1),
+    // Emergencies go ahead of everyone waiting except earlier emergencies
+    emergency: z.boolean().default(false),
+    reason: z.string().max(500).optional(),
+});
+
+export const queueQuerySchema = z.object({
+    doctorId: z.string().optional(),
+    // Defaults to today in clinic time
+    date: calendarDate.optional(),
+    status: z.nativeEnum(OpTokenStatus).optional(),
+});
+
+export const updateTokenStatusSchema = z.object({
+    status: z.nativeEnum(OpTokenStatus),
+});
+
+export const moveTokenSchema = z.object({
+    // 1 = next in line
+    position: z.number().int().positive(),
+    emergency: z.boolean().optional(),
+});
+
+export const boardQuerySchema = z.object({
+    doctorId: z.string().optional(),
+    department: z.string().optional(),
+});
+
+export type RegisterOpVisitInput = z.infer<typeof registerOpVisitSchema>;
+export type QueueQueryInput = z.infer<typeof queueQuerySchema>;
+export type UpdateTokenStatusInput = z.infer<typeof updateTokenStatusSchema>;
+export type MoveTokenInput = z.infer<typeof moveTokenSchema>;
+export type BoardQueryInput = z.infer<typeof boardQuerySchema>;
+
+export interface OpTokenResponse {
+    id: string;
+    appointmentId: string;
+    tokenNumber: number;
+    visitDate: string;
+    status: OpTokenStatus;
+    isEmergency: boolean;
+    patient: { uhid: string; firstName: string; lastName: string };
+    doctor: { id: string; firstName: string; lastName: string; department: string | null };
+    calledAt: Date | null;
+    consultationStartedAt: Date | null;
+    completedAt: Date | null;
+    skippedAt: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * Waiting-room display. Shows token numbers only - no patient details.
+ */
+export interface QueueBoardResponse {
+    date: string;
+    generatedAt: Date;
+    doctors: QueueBoardDoctor[];
+}
+
+export interface QueueBoardDoctor {
+    doctorId: string;
+    doctorName: string;
+    department: string | null;
+    nowServing: { tokenNumber: number; status: OpTokenStatus; isEmergency: boolean }[];
+    upNext: { tokenNumber: number; isEmergency: boolean }[];
+    waitingCount: number;
+}
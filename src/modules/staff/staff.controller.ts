@@ -215,7 +215,7 @@ export async function deleteStaff(
     next: NextFunction
 ): Promise<void> {
     try {
-        await staffService.disable(req.params.id as string);
+        await staffService.disable(req.params.id as string, req.user);
         sendNoContent(res);
     } catch (error) {
         next(error);
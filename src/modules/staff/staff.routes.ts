@@ -1,20 +1,19 @@
 import { Router } from 'express';
 import { createStaff, getStaff, getStaffById, updateStaff, deleteStaff } from './staff.controller.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { roleGuard, clinicalStaff, adminOnly } from '../../middleware/roleGuard.js';
-import { UserRole } from '@prisma/client';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
 const router = Router();
 
 router.use(authGuard);
 
-// Admin and Receptionist can view staff, Patients need to view doctors
-router.get('/', roleGuard(UserRole.ADMIN, UserRole.RECEPTIONIST, UserRole.PATIENT, UserRole.DOCTOR), getStaff);
-router.get('/:id', clinicalStaff, getStaffById);
+// Patients need the staff list to pick a doctor
+router.get('/', requirePermission('staff.list'), getStaff);
+router.get('/:id', requirePermission('staff.read'), getStaffById);
 
 // Admin and Receptionist can create staff
-router.post('/', roleGuard(UserRole.ADMIN, UserRole.RECEPTIONIST), createStaff);
-router.patch('/:id', adminOnly, updateStaff);
-router.delete('/:id', adminOnly, deleteStaff);
+router.post('/', requirePermission('staff.create'), createStaff);
+router.patch('/:id', requirePermission('staff.update'), updateStaff);
+router.delete('/:id', requirePermission('staff.delete'), deleteStaff);
 
 export default router;
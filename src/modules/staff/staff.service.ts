@@ -4,9 +4,11 @@ import { NotFoundError, ConflictError } from '../../middleware/errorHandler.js';
 import { CreateStaffInput, UpdateStaffInput, StaffQueryInput, StaffResponse, StaffCreateResponse } from './staff.types.js';
 import { PaginatedResponse } from '../users/users.types.js';
 import { emailService } from '../../services/email.service.js';
-import jwt from 'jsonwebtoken';
 import { config } from '../../config/index.js';
+import { authService } from '../auth/auth.service.js';
 import crypto from 'crypto';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor } from '../audit/audit.types.js';
 
 export class StaffService {
     async create(input: CreateStaffInput): Promise<StaffCreateResponse> {
@@ -21,13 +23,6 @@ export class StaffService {
         const tempPassword = input.phone || `Staff${crypto.randomBytes(4).toString('hex')}`;
         const passwordHash = await hashPassword(tempPassword);
 
-        // Generate Password Reset Token
-        const resetToken = jwt.sign(
-            { email: input.email, type: 'reset' },
-            config.jwt.accessSecret,
-            { expiresIn: '24h' }
-        );
-
         const result = await prisma.$transaction(async (tx) => {
             const user = await tx.user.create({
                 data: {
@@ -54,7 +49,8 @@ export class StaffService {
             return staff;
         });
 
-        // Generate password reset link
+        // Generate password reset token + link (redeemed via POST /api/auth/reset-password)
+        const resetToken = await authService.createPasswordResetToken(result.userId, config.passwordReset.inviteExpiry);
         const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
         const passwordResetLink = `${frontendUrl}/reset-password?token=${resetToken}`;
 
@@ -154,22 +150,30 @@ export class StaffService {
         return this.formatStaff(staff);
     }
 
-    async disable(id: string): Promise<void> {
+    /**
+     * Disable the staff member and move them to the trash. Their sessions end immediately.
+     */
+    async disable(id: string, actor?: AuditActor): Promise<void> {
         const existing = await prisma.staff.findUnique({ where: { id } });
         if (!existing) {
             throw new NotFoundError('Staff not found');
         }
 
-        await prisma.$transaction([
+        const user = await prisma.user.findUnique({ where: { id: existing.userId }, select: { status: true } });
+
+        const [, deleted] = await prisma.$transaction([
             prisma.user.update({
                 where: { id: existing.userId },
                 data: { status: 'DISABLED' },
             }),
             prisma.staff.update({
                 where: { id },
-                data: { status: 'DISABLED' },
+                data: { status: 'DISABLED', statusBeforeDelete: user?.status, deletedAt: new Date(), deletedBy: actor?.userId },
             }),
+            prisma.refreshToken.deleteMany({ where: { userId: existing.userId } }),
         ]);
+
+        await auditService.record({ actor, entityType: 'Staff', entityId: id, action: 'DELETE', before: existing, after: deleted });
     }
 
     private formatStaff(staff: {
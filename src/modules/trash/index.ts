@@ -0,0 +1,3 @@
+export { default as trashRoutes } from './trash.routes.js';
+export { trashService } from './trash.service.js';
+export * from './trash.types.js';
@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { trashService } from './trash.service.js';
+import { trashQuerySchema, trashTypeSchema } from './trash.types.js';
+import { sendSuccess } from '../../utils/response.js';
+
+/**
+ * @swagger
+ * /api/trash:
+ *   get:
+ *     tags: [Trash]
+ *     summary: List soft-deleted patients, staff or bills
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [patient, staff, bill]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Deleted records, most recently deleted first
+ */
+export async function getTrash(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = trashQuerySchema.parse(req.query);
+        const result = await trashService.findAll(query);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/trash/{type}/{id}/restore:
+ *   post:
+ *     tags: [Trash]
+ *     summary: Restore a soft-deleted record
+ *     description: Restoring a patient or staff member re-enables their login.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [patient, staff, bill]
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Record restored
+ *       404:
+ *         description: No deleted record with this id
+ */
+export async function restoreFromTrash(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const type = trashTypeSchema.parse(req.params.type);
+        const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+        await trashService.restore(type, id, req.user);
+        sendSuccess(res, null, 'Record restored');
+    } catch (error) {
+        next(error);
+    }
+}
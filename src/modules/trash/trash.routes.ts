@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { getTrash, restoreFromTrash } from './trash.controller.js';
+import { authGuard } from '../../middleware/authGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Trash
+ *   description: Soft-deleted patients, staff and bills
+ */
+
+router.use(authGuard);
+router.use(requirePermission('trash.manage'));
+
+router.get('/', getTrash);
+router.post('/:type/:id/restore', restoreFromTrash);
+
+export default router;
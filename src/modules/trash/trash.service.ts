@@ -0,0 +1,139 @@
+import { prisma } from '../../config/database.js';
+import { NotFoundError } from '../../utils/AppError.js';
+import { logger } from '../../utils/logger.js';
+import { auditService } from '../audit/audit.service.js';
+import { AuditActor, AuditEntityType } from '../audit/audit.types.js';
+import { PaginatedResponse } from '../users/users.types.js';
+import { TrashItem, TrashQueryInput, TrashType } from './trash.types.js';
+
+const AUDIT_ENTITY: Record<TrashType, AuditEntityType> = {
+    patient: 'Patient',
+    staff: 'Staff',
+    bill: 'Bill',
+};
+
+const inTrash = { deletedAt: { not: null } };
+
+export class TrashService {
+    /**
+     * Soft-deleted records of one type, most recently deleted first
+     */
+    async findAll(query: TrashQueryInput): Promise<PaginatedResponse<TrashItem>> {
+        const { type, page, limit } = query;
+        const skip = (page - 1) * limit;
+        const orderBy = { deletedAt: 'desc' as const };
+
+        let items: TrashItem[];
+        let total: number;
+
+        if (type === 'patient') {
+            const [patients, count] = await Promise.all([
+                prisma.patient.findMany({ where: inTrash, skip, take: limit, orderBy }),
+                prisma.patient.count({ where: inTrash }),
+            ]);
+            items = patients.map(p => this.toItem(type, p.uhid, `${p.firstName} ${p.lastName}`, p));
+            total = count;
+        } else if (type === 'staff') {
+            const [staff, count] = await Promise.all([
+                prisma.staff.findMany({ where: inTrash, skip, take: limit, orderBy }),
+                prisma.staff.count({ where: inTrash }),
+            ]);
+            items = staff.map(s => this.toItem(type, s.id, `${s.firstName} ${s.lastName}`, s));
+            total = count;
+        } else {
+            const [bills, count] = await Promise.all([
+                prisma.bill.findMany({ where: inTrash, skip, take: limit, orderBy }),
+                prisma.bill.count({ where: inTrash }),
+            ]);
+            items = bills.map(b => this.toItem(type, b.id, b.billNumber, b));
+            total = count;
+        }
+
+        return {
+            items,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Bring a record back from the trash. Patients get their login re-enabled,
+     * except those whose personal details have been erased; staff get back the
+     * login status they had when deleted. Bills get back the lab orders that
+     * have not been billed again meanwhile.
+     */
+    async restore(type: TrashType, id: string, actor?: AuditActor): Promise<void> {
+        const restored = { deletedAt: null, deletedBy: null };
+        let before: unknown;
+        let after: unknown;
+
+        if (type === 'patient') {
+            const patient = await prisma.patient.findFirst({ where: { uhid: id, ...inTrash } });
+            if (!patient) {
+                throw new NotFoundError('Deleted patient');
+            }
+
+            after = await prisma.$transaction(async (tx) => {
+                if (patient.userId && !patient.erasedAt) {
+                    await tx.user.update({ where: { id: patient.userId }, data: { status: 'ACTIVE' } });
+                }
+                return tx.patient.update({ where: { uhid: id }, data: restored });
+            });
+            before = patient;
+        } else if (type === 'staff') {
+            const staff = await prisma.staff.findFirst({ where: { id, ...inTrash } });
+            if (!staff) {
+                throw new NotFoundError('Deleted staff member');
+            }
+
+            // Staff deleted before the prior status was kept were active
+            const status = staff.statusBeforeDelete ?? 'ACTIVE';
+            [, after] = await prisma.$transaction([
+                prisma.user.update({ where: { id: staff.userId }, data: { status } }),
+                prisma.staff.update({ where: { id }, data: { ...restored, status, statusBeforeDelete: null } }),
+            ]);
+            before = staff;
+        } else {
+            const bill = await prisma.bill.findFirst({ where: { id, ...inTrash } });
+            if (!bill) {
+                throw new NotFoundError('Deleted bill');
+            }
+
+            after = await prisma.$transaction(async (tx) => {
+                const { count } = await tx.labTestOrder.updateMany({
+                    where: { id: { in: bill.detachedLabOrderIds }, billId: null },
+                    data: { billId: id, billingStatus: 'BILLED' },
+                });
+                if (count < bill.detachedLabOrderIds.length) {
+                    logger.warn({ billId: id, relinked: count, detached: bill.detachedLabOrderIds.length }, 'Some lab orders of a restored bill were billed again meanwhile');
+                }
+
+                return tx.bill.update({ where: { id }, data: { ...restored, detachedLabOrderIds: [] } });
+            });
+            before = bill;
+        }
+
+        logger.info({ type, id, restoredBy: actor?.userId }, 'Record restored from trash');
+
+        await auditService.record({ actor, entityType: AUDIT_ENTITY[type], entityId: id, action: 'RESTORE', before, after });
+    }
+
+    private toItem(
+        type: TrashType,
+        id: string,
+        label: string,
+        row: { deletedAt: Date | null; deletedBy: string | null }
+    ): TrashItem {
+        return {
+            type,
+            id,
+            label,
+            deletedAt: row.deletedAt!,
+            deletedBy: row.deletedBy,
+        };
+    }
+}
+
+export const trashService = new TrashService();
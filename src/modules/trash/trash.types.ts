@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const TRASH_TYPES = ['patient', 'staff', 'bill'] as const;
+
+export type TrashType = typeof TRASH_TYPES[number];
+
+export const trashQuerySchema = z.object({
+    type: z.enum(TRASH_TYPES),
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const trashTypeSchema = z.enum(TRASH_TYPES);
+
+export type TrashQueryInput = z.infer<typeof trashQuerySchema>;
+
+export interface TrashItem {
+    type: TrashType;
+    id: string;
+    // Patient name, staff name or bill number
+    label: string;
+    deletedAt: Date;
+    deletedBy: string | null;
+}
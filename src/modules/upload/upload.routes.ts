@@ -2,15 +2,14 @@ import { Router } from 'express';
 import { uploadFile } from './upload.controller.js';
 import { upload } from '../../middleware/upload.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { roleGuard } from '../../middleware/roleGuard.js';
-import { UserRole } from '@prisma/client';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
 const router = Router();
 
 router.use(authGuard);
 
 router.post('/',
-    roleGuard(UserRole.ADMIN, UserRole.LAB_TECHNICIAN, UserRole.DOCTOR),
+    requirePermission('uploads.create'),
     upload.single('file'),
     uploadFile
 );
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { usersService } from './users.service.js';
-import { updateUserSchema, userQuerySchema } from './users.types.js';
+import { updateUserSchema, userQuerySchema, loginAttemptQuerySchema } from './users.types.js';
 import { sendSuccess } from '../../utils/response.js';
 
 /**
@@ -220,6 +220,196 @@ export async function deleteUserById(
     }
 }
 
+/**
+ * @swagger
+ * /api/users/login-attempts:
+ *   get:
+ *     tags: [Users]
+ *     summary: List login attempts across all accounts (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ipAddress
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: success
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [SUCCESS, MFA_REQUIRED, UNKNOWN_EMAIL, INVALID_PASSWORD, ACCOUNT_DISABLED, ACCOUNT_LOCKED, INVALID_OTP, INVALID_MFA_CODE]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated list of login attempts
+ */
+export async function getLoginAttempts(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = loginAttemptQuerySchema.parse(req.query);
+        const result = await usersService.findLoginAttempts(query);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/users/{id}/login-attempts:
+ *   get:
+ *     tags: [Users]
+ *     summary: List login attempts for one user (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated list of login attempts
+ */
+export async function getUserLoginAttempts(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const query = loginAttemptQuerySchema.parse(req.query);
+        const result = await usersService.findLoginAttempts(query, req.params.id as string);
+        sendSuccess(res, result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/users/{id}/unlock:
+ *   post:
+ *     tags: [Users]
+ *     summary: Unlock an account locked after failed logins (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ */
+export async function unlockUser(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const user = await usersService.unlock(req.params.id as string);
+        sendSuccess(res, user, 'Account unlocked successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/users/{id}/sessions:
+ *   get:
+ *     tags: [Users]
+ *     summary: List a user's active sessions (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ */
+export async function getUserSessions(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        const sessions = await usersService.findSessions(req.params.id as string);
+        sendSuccess(res, sessions);
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * @swagger
+ * /api/users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     tags: [Users]
+ *     summary: Sign a user out of one device (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ */
+export async function revokeUserSession(
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> {
+    try {
+        await usersService.revokeSession(req.params.id as string, req.params.sessionId as string);
+        sendSuccess(res, null, 'Session revoked successfully');
+    } catch (error) {
+        next(error);
+    }
+}
+
 /**
  * @swagger
  * /api/users/public/doctors:
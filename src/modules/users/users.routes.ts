@@ -1,7 +1,20 @@
 import { Router } from 'express';
-import { getMe, updateMe, getUsers, getUserById, updateUserById, deleteUserById, getPublicDoctors } from './users.controller.js';
+import {
+    getMe,
+    updateMe,
+    getUsers,
+    getUserById,
+    updateUserById,
+    deleteUserById,
+    getPublicDoctors,
+    getLoginAttempts,
+    getUserLoginAttempts,
+    unlockUser,
+    getUserSessions,
+    revokeUserSession,
+} from './users.controller.js';
 import { authGuard } from '../../middleware/authGuard.js';
-import { adminOnly, staffOnly } from '../../middleware/roleGuard.js';
+import { requirePermission } from '../../middleware/permissionGuard.js';
 
 const router = Router();
 
@@ -15,10 +28,15 @@ router.use(authGuard);
 router.get('/me', getMe);
 router.patch('/me', updateMe);
 
-// Admin only routes
+// Account administration
+router.get('/login-attempts', requirePermission('users.manage'), getLoginAttempts);
 router.get('/', getUsers); // Allow all authenticated roles to view users (for now, or filter in controller)
-router.get('/:id', adminOnly, getUserById);
-router.patch('/:id', staffOnly, updateUserById);
-router.delete('/:id', adminOnly, deleteUserById);
+router.get('/:id', requirePermission('users.manage'), getUserById);
+router.patch('/:id', requirePermission('users.update'), updateUserById);
+router.delete('/:id', requirePermission('users.manage'), deleteUserById);
+router.get('/:id/login-attempts', requirePermission('users.manage'), getUserLoginAttempts);
+router.post('/:id/unlock', requirePermission('users.manage'), unlockUser);
+router.get('/:id/sessions', requirePermission('users.manage'), getUserSessions);
+router.delete('/:id/sessions/:sessionId', requirePermission('users.manage'), revokeUserSession);
 
 export default router;
@@ -1,6 +1,16 @@
 import { prisma } from '../../config/database.js';
 import { NotFoundError } from '../../middleware/errorHandler.js';
-import { UpdateUserInput, UserQueryInput, UserResponse, PaginatedResponse } from './users.types.js';
+import { loginAttemptService } from '../auth/loginAttempt.service.js';
+import { sessionService } from '../auth/session.service.js';
+import { SessionInfo } from '../auth/auth.types.js';
+import { LoginAttempt, Prisma } from '@prisma/client';
+import {
+    UpdateUserInput,
+    UserQueryInput,
+    UserResponse,
+    PaginatedResponse,
+    LoginAttemptQueryInput,
+} from './users.types.js';
 
 export class UsersService {
     async findById(id: string): Promise<UserResponse> {
@@ -138,11 +148,77 @@ export class UsersService {
         await prisma.user.delete({ where: { id } });
     }
 
+    /**
+     * Login attempts across all accounts, or for one user when userId is given
+     */
+    async findLoginAttempts(query: LoginAttemptQueryInput, userId?: string): Promise<PaginatedResponse<LoginAttempt>> {
+        const { page, limit, email, ipAddress, success, reason, startDate, endDate } = query;
+        const skip = (page - 1) * limit;
+
+        const where: Prisma.LoginAttemptWhereInput = {};
+        if (userId) where.userId = userId;
+        if (email) where.email = { contains: email, mode: 'insensitive' };
+        if (ipAddress) where.ipAddress = ipAddress;
+        if (success !== undefined) where.success = success;
+        if (reason) where.reason = reason;
+        if (startDate || endDate) {
+            where.createdAt = {
+                ...(startDate && { gte: new Date(startDate) }),
+                ...(endDate && { lte: new Date(endDate) }),
+            };
+        }
+
+        const [items, total] = await Promise.all([
+            prisma.loginAttempt.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: 'desc' },
+            }),
+            prisma.loginAttempt.count({ where }),
+        ]);
+
+        return {
+            items,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    async unlock(id: string): Promise<UserResponse> {
+        const user = await prisma.user.findUnique({ where: { id } });
+
+        if (!user) {
+            throw new NotFoundError('User not found');
+        }
+
+        await loginAttemptService.unlock(id);
+
+        return this.findById(id);
+    }
+
+    async findSessions(id: string): Promise<SessionInfo[]> {
+        const user = await prisma.user.findUnique({ where: { id } });
+
+        if (!user) {
+            throw new NotFoundError('User not found');
+        }
+
+        return sessionService.listSessions(id);
+    }
+
+    async revokeSession(id: string, sessionId: string): Promise<void> {
+        await sessionService.revokeSession(id, sessionId);
+    }
+
     private formatUser(user: {
         id: string;
         email: string;
         role: string;
         status: string;
+        lockedUntil?: Date | null;
         createdAt: Date;
         updatedAt: Date;
         staff?: { firstName: string; lastName: string; phone: string | null; specialization: string | null; department?: string | null } | null;
@@ -154,6 +230,7 @@ export class UsersService {
             email: user.email,
             role: user.role as UserResponse['role'],
             status: user.status as UserResponse['status'],
+            lockedUntil: user.lockedUntil,
             createdAt: user.createdAt,
             updatedAt: user.updatedAt,
             profile: profile ? {
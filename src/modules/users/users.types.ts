@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { UserRole, UserStatus } from '@prisma/client';
+import { UserRole, UserStatus, LoginAttemptReason } from '@prisma/client';
 
 export const updateUserSchema = z.object({
     email: z.string().email().optional(),
@@ -19,14 +19,27 @@ export const userQuerySchema = z.object({
     search: z.string().optional(),
 });
 
+export const loginAttemptQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    email: z.string().optional(),
+    ipAddress: z.string().optional(),
+    success: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    reason: z.nativeEnum(LoginAttemptReason).optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+});
+
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 export type UserQueryInput = z.infer<typeof userQuerySchema>;
+export type LoginAttemptQueryInput = z.infer<typeof loginAttemptQuerySchema>;
 
 export interface UserResponse {
     id: string;
     email: string;
     role: UserRole;
     status: UserStatus;
+    lockedUntil?: Date | null;
     createdAt: Date;
     updatedAt: Date;
     profile?: {
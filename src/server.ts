@@ -3,6 +3,8 @@ import { config, validateEnv } from './config/index.js';
 import { connectDatabase, disconnectDatabase } from './config/database.js';
 import { logger } from './utils/logger.js';
 import { isOperationalError } from './utils/AppError.js';
+import { permissionsService } from './modules/permissions/index.js';
+import { eventsService } from './modules/events/index.js';
 
 /**
  * Process Error Handlers
@@ -54,6 +56,9 @@ function setupGracefulShutdown(server: { close: (callback: () => void) => void }
     const shutdown = async (signal: string): Promise<void> => {
         logger.info({ signal }, '🔄 Received shutdown signal - starting graceful shutdown');
 
+        // Open event streams would otherwise keep the server from closing
+        eventsService.closeAll();
+
         server.close(async () => {
             logger.info('✅ HTTP server closed');
             try {
@@ -92,9 +97,14 @@ async function main(): Promise<void> {
         logger.info('🔌 Connecting to database...');
         await connectDatabase();
 
+        // Register any new permissions and their default role mappings
+        logger.info('🔐 Syncing permission catalog...');
+        await permissionsService.syncCatalog();
+
         // Initialize background jobs
         logger.info('⏰ Initializing background jobs...');
         await import('./jobs/expiryAlert.job.js');
+        await import('./jobs/appointments.job.js');
 
         // Create and start app
         const app = createApp();
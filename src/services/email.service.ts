@@ -90,6 +90,28 @@ If you have any questions, please contact the hospital administration.
 
 Best regards,
 Swetha Saiphani Clinics Administration
+`;
+
+        await this.sendEmail({ to, subject, text });
+    }
+
+    async sendPasswordResetEmail(to: string, token: string): Promise<void> {
+        const resetLink = `${process.env.FRONTEND_URL || 'http://localhost:8080'}/reset-password?token=${token}`;
+
+        const subject = 'Reset your Swetha Saiphani Clinics password';
+        const text = `
+Hello,
+
+We received a request to reset the password for your Swetha Saiphani Clinics account.
+To choose a new password, click the link below:
+
+${resetLink}
+
+This link can only be used once and will expire soon.
+If you did not request a password reset, you can safely ignore this email.
+
+Best regards,
+Swetha Saiphani Clinics Team
 `;
 
         await this.sendEmail({ to, subject, text });
@@ -1,7 +1,84 @@
-import { PDFDocument, rgb, degrees, StandardFonts } from 'pdf-lib';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, rgb, degrees, StandardFonts } from 'pdf-lib';
+import bwipjs from 'bwip-js';
 import fs from 'fs/promises';
 import path from 'path';
 
+export interface HospitalBranding {
+    hospitalName: string;
+    address: string | null;
+    contactNumber: string | null;
+    // PNG or JPEG bytes, already loaded
+    logo: Uint8Array | null;
+}
+
+export interface PatientCardData {
+    uhid: string;
+    name: string;
+    // e.g. "34Y / Female"
+    ageGender: string;
+    bloodGroup: string | null;
+    registrationDate: Date;
+    // Text encoded in the QR code
+    qrText: string;
+}
+
+const BRAND_COLOR = rgb(0.1, 0.3, 0.6);
+const MM = 72 / 25.4;
+
+// ISO/IEC 7810 ID-1 (credit card) and a 1" x 11" thermal wristband
+const CARD_SIZE: [number, number] = [85.6 * MM, 53.98 * MM];
+const WRISTBAND_SIZE: [number, number] = [279 * MM, 25 * MM];
+
+/**
+ * Standard fonts only cover Latin-1; anything else is replaced, and the text is
+ * cut with an ellipsis to fit the width.
+ */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let fitted = text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+    if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted;
+
+    while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trimEnd()}...`;
+}
+
+async function embedLogo(pdfDoc: PDFDocument, logo: Uint8Array | null): Promise<PDFImage | null> {
+    if (!logo) return null;
+
+    try {
+        // PNG files start with 0x89 'P' 'N' 'G'
+        return logo[0] === 0x89 && logo[1] === 0x50
+            ? await pdfDoc.embedPng(logo)
+            : await pdfDoc.embedJpg(logo);
+    } catch (error) {
+        console.error('Hospital logo could not be embedded:', error);
+        return null;
+    }
+}
+
+async function embedCodes(pdfDoc: PDFDocument, data: PatientCardData): Promise<{ barcode: PDFImage; qr: PDFImage }> {
+    const [barcode, qr] = await Promise.all([
+        bwipjs.toBuffer({ bcid: 'code128', text: data.uhid, scale: 3, height: 10, includetext: false }),
+        bwipjs.toBuffer({ bcid: 'qrcode', text: data.qrText, scale: 4 }),
+    ]);
+
+    return {
+        barcode: await pdfDoc.embedPng(barcode),
+        qr: await pdfDoc.embedPng(qr),
+    };
+}
+
+function formatCardDate(date: Date): string {
+    return new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function drawLabelled(page: PDFPage, label: string, value: string, x: number, y: number, size: number, fonts: { font: PDFFont; boldFont: PDFFont }, maxWidth: number): void {
+    page.drawText(label, { x, y, size, font: fonts.boldFont });
+    const labelWidth = fonts.boldFont.widthOfTextAtSize(label, size) + 2;
+    page.drawText(fitText(value, fonts.font, size, maxWidth - labelWidth), { x: x + labelWidth, y, size, font: fonts.font });
+}
+
 export const pdfGenerator = {
     /**
      * Adds the "DUPLICATE COPY" stamp to a PDF document.
@@ -281,6 +358,100 @@ export const pdfGenerator = {
             await this.addDuplicateStamp(pdfDoc);
         }
 
+        const pdfBytes = await pdfDoc.save();
+        return Buffer.from(pdfBytes);
+    },
+
+    /**
+     * Wallet-sized patient registration card with UHID barcode (Code128) and QR code.
+     */
+    async generatePatientCardPDF(data: PatientCardData, branding: HospitalBranding): Promise<Buffer> {
+        const pdfDoc = await PDFDocument.create();
+        const page = pdfDoc.addPage(CARD_SIZE);
+        const { width, height } = page.getSize();
+        const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+        const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+        const fonts = { font, boldFont };
+        const logo = await embedLogo(pdfDoc, branding.logo);
+        const { barcode, qr } = await embedCodes(pdfDoc, data);
+
+        // Header band with branding
+        const bandHeight = 30;
+        page.drawRectangle({ x: 0, y: height - bandHeight, width, height: bandHeight, color: BRAND_COLOR });
+
+        let textX = 8;
+        if (logo) {
+            const logoSize = logo.scaleToFit(40, bandHeight - 6);
+            page.drawImage(logo, { x: 6, y: height - bandHeight + 3, width: logoSize.width, height: logoSize.height });
+            textX += logoSize.width + 2;
+        }
+        page.drawText(fitText(branding.hospitalName.toUpperCase(), boldFont, 9, width - textX - 6), {
+            x: textX, y: height - 14, size: 9, font: boldFont, color: rgb(1, 1, 1),
+        });
+        if (branding.contactNumber) {
+            page.drawText(fitText(`Ph: ${branding.contactNumber}`, font, 6, width - textX - 6), {
+                x: textX, y: height - 24, size: 6, font, color: rgb(1, 1, 1),
+            });
+        }
+
+        // QR code on the right, details on the left
+        const qrSize = 58;
+        page.drawImage(qr, { x: width - qrSize - 6, y: height - bandHeight - qrSize - 4, width: qrSize, height: qrSize });
+
+        const detailsWidth = width - qrSize - 20;
+        let y = height - bandHeight - 13;
+        page.drawText(fitText(data.name, boldFont, 9, detailsWidth), { x: 8, y, size: 9, font: boldFont });
+        y -= 11;
+        drawLabelled(page, 'UHID: ', data.uhid, 8, y, 7, fonts, detailsWidth);
+        y -= 9;
+        drawLabelled(page, 'Age/Gender: ', data.ageGender, 8, y, 7, fonts, detailsWidth);
+        y -= 9;
+        drawLabelled(page, 'Blood Group: ', data.bloodGroup || 'N/A', 8, y, 7, fonts, detailsWidth);
+        y -= 9;
+        drawLabelled(page, 'Registered: ', formatCardDate(data.registrationDate), 8, y, 7, fonts, detailsWidth);
+
+        // Barcode along the bottom
+        const barcodeWidth = width - 40;
+        page.drawImage(barcode, { x: 20, y: 14, width: barcodeWidth, height: 26 });
+        if (branding.address) {
+            page.drawText(fitText(branding.address, font, 5, width - 12), { x: 6, y: 5, size: 5, font, color: rgb(0.4, 0.4, 0.4) });
+        }
+
+        const pdfBytes = await pdfDoc.save();
+        return Buffer.from(pdfBytes);
+    },
+
+    /**
+     * 1" x 11" thermal wristband label: details, UHID barcode and QR code in one strip.
+     */
+    async generatePatientWristbandPDF(data: PatientCardData, branding: HospitalBranding): Promise<Buffer> {
+        const pdfDoc = await PDFDocument.create();
+        const page = pdfDoc.addPage(WRISTBAND_SIZE);
+        const { width, height } = page.getSize();
+        const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+        const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+        const fonts = { font, boldFont };
+        const { barcode, qr } = await embedCodes(pdfDoc, data);
+
+        // The first 25mm wraps under the clasp and stays blank
+        const startX = 25 * MM;
+        const textWidth = 80 * MM;
+
+        page.drawText(fitText(branding.hospitalName.toUpperCase(), boldFont, 6, textWidth), {
+            x: startX, y: height - 10, size: 6, font: boldFont, color: BRAND_COLOR,
+        });
+        page.drawText(fitText(data.name, boldFont, 11, textWidth), { x: startX, y: height - 24, size: 11, font: boldFont });
+        drawLabelled(page, 'UHID: ', data.uhid, startX, height - 36, 8, fonts, textWidth);
+        drawLabelled(page, 'Age/Gender: ', data.ageGender, startX, height - 47, 7, fonts, textWidth / 2);
+        drawLabelled(page, 'Blood Group: ', data.bloodGroup || 'N/A', startX + textWidth / 2, height - 47, 7, fonts, textWidth / 2);
+        drawLabelled(page, 'Registered: ', formatCardDate(data.registrationDate), startX, height - 57, 6, fonts, textWidth);
+
+        const barcodeX = startX + textWidth + 6 * MM;
+        page.drawImage(barcode, { x: barcodeX, y: 10, width: 75 * MM, height: height - 20 });
+
+        const qrSize = height - 8;
+        page.drawImage(qr, { x: barcodeX + 75 * MM + 6 * MM, y: 4, width: qrSize, height: qrSize });
+
         const pdfBytes = await pdfDoc.save();
         return Buffer.from(pdfBytes);
     }
@@ -0,0 +1,67 @@
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface SmsOptions {
+    to: string;
+    text: string;
+}
+
+/**
+ * Anything that can deliver a text message. Register real gateways
+ * (MSG91, Twilio, AWS SNS, ...) with `smsService.registerProvider`.
+ */
+export interface SmsProvider {
+    readonly name: string;
+    send(options: SmsOptions & { senderId: string }): Promise<void>;
+}
+
+/**
+ * Development provider - prints the message instead of sending it.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+    readonly name = 'console';
+
+    async send(options: SmsOptions & { senderId: string }): Promise<void> {
+        console.log('================================================================');
+        console.log(`[SMS Service] Sending SMS to: ${options.to} (from ${options.senderId})`);
+        console.log('----------------------------------------------------------------');
+        console.log(options.text);
+        console.log('================================================================');
+
+        return Promise.resolve();
+    }
+}
+
+export class SmsService {
+    private providers = new Map<string, SmsProvider>();
+
+    constructor() {
+        this.registerProvider(new ConsoleSmsProvider());
+    }
+
+    registerProvider(provider: SmsProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    async sendSms(options: SmsOptions): Promise<void> {
+        const provider = this.providers.get(config.sms.provider);
+
+        if (!provider) {
+            throw new Error(`SMS provider "${config.sms.provider}" is not registered`);
+        }
+
+        if (provider.name === 'console' && config.isProduction) {
+            logger.warn({ to: options.to }, 'SMS_PROVIDER is "console" in production - message was not delivered');
+        }
+
+        await provider.send({ ...options, senderId: config.sms.senderId });
+    }
+
+    async sendLoginOtp(to: string, code: string, expiresInMinutes: number): Promise<void> {
+        const text = `${code} is your Swetha Saiphani Clinics login code. It expires in ${expiresInMinutes} minute(s). Do not share it with anyone.`;
+
+        await this.sendSms({ to, text });
+    }
+}
+
+export const smsService = new SmsService();
@@ -0,0 +1,112 @@
+import { config } from '../config/index.js';
+
+/**
+ * Helpers for wall-clock times at the clinic. Working hours are entered as
+ * "HH:mm" on a "YYYY-MM-DD" date in config.clinic.timezone; appointments are
+ * stored as UTC instants.
+ */
+
+export interface ClinicDateTime {
+    /** YYYY-MM-DD */
+    date: string;
+    /** Minutes since midnight */
+    minutes: number;
+    /** 0 = Sunday ... 6 = Saturday */
+    dayOfWeek: number;
+}
+
+const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: config.clinic.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+});
+
+function wallClock(instant: Date): { date: string; minutes: number; seconds: number } {
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(instant)) {
+        parts[part.type] = part.value;
+    }
+
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        minutes: Number(parts.hour) * 60 + Number(parts.minute),
+        seconds: Number(parts.second),
+    };
+}
+
+export function toClinicTime(instant: Date): ClinicDateTime {
+    const { date, minutes } = wallClock(instant);
+    return { date, minutes, dayOfWeek: dayOfWeek(date) };
+}
+
+export function dayOfWeek(date: string): number {
+    return new Date(`${date}T00:00:00.000Z`).getUTCDay();
+}
+
+/**
+ * The instant at which the clinic clock shows `minutes` past midnight on `date`
+ */
+export function clinicTimeToUtc(date: string, minutes: number): Date {
+    const guess = Date.UTC(
+        Number(date.slice(0, 4)),
+        Number(date.slice(5, 7)) - 1,
+        Number(date.slice(8, 10)),
+        0,
+        minutes
+    );
+
+    // Offset of the clinic clock from UTC, checked again after the first correction
+    // in case the guess and the answer fall either side of a DST change
+    let instant = guess;
+    for (let i = 0; i < 2; i++) {
+        const local = wallClock(new Date(instant));
+        const shown = Date.UTC(
+            Number(local.date.slice(0, 4)),
+            Number(local.date.slice(5, 7)) - 1,
+            Number(local.date.slice(8, 10)),
+            0,
+            local.minutes,
+            local.seconds
+        );
+        instant += guess - shown;
+    }
+
+    return new Date(instant);
+}
+
+/**
+ * "09:30" -> 570
+ */
+export function parseClockTime(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+/**
+ * 570 -> "09:30"
+ */
+export function formatClockTime(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function addDays(date: string, days: number): string {
+    const next = new Date(`${date}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + days);
+    return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Same day of month `months` later, or the month's last day when it is shorter
+ */
+export function addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+}
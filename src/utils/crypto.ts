@@ -1,4 +1,6 @@
 import bcrypt from 'bcryptjs';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { config } from '../config/index.js';
 
 const SALT_ROUNDS = 12;
 
@@ -9,3 +11,43 @@ export async function hashPassword(password: string): Promise<string> {
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
     return bcrypt.compare(password, hash);
 }
+
+/**
+ * Generate a random URL-safe token (e.g. for password reset links)
+ */
+export function generateSecureToken(bytes = 32): string {
+    return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * SHA-256 hash of a token for storage. High-entropy tokens don't need bcrypt,
+ * and a deterministic hash lets us look the row up by its hash.
+ */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+function getEncryptionKey(): Buffer {
+    return createHash('sha256').update(config.mfa.encryptionKey).digest();
+}
+
+/**
+ * Encrypt a short secret (e.g. a TOTP seed) with AES-256-GCM.
+ * Output format: iv.authTag.ciphertext, each base64url encoded.
+ */
+export function encryptSecret(plainText: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [iv, authTag, encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
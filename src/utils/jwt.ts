@@ -1,16 +1,26 @@
 import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
 import { config } from '../config/index.js';
 import { UserRole } from '@prisma/client';
+import { randomUUID } from 'node:crypto';
 
 export interface TokenPayload {
     userId: string;
     email: string;
     role: UserRole;
+    // Refresh token family (login session) an access token belongs to
+    sessionId?: string;
 }
 
 export interface DecodedToken extends JwtPayload, TokenPayload { }
 
-function parseExpiry(expiry: string): number {
+export type MfaChallengePurpose = 'verify' | 'enroll';
+
+export interface MfaChallengePayload {
+    userId: string;
+    purpose: MfaChallengePurpose;
+}
+
+export function parseExpiry(expiry: string): number {
     const match = expiry.match(/^(\d+)([smhd])$/);
     if (!match) {
         throw new Error(`Invalid expiry format: ${expiry}`);
@@ -40,6 +50,8 @@ export function generateAccessToken(payload: TokenPayload): string {
 export function generateRefreshToken(payload: TokenPayload): string {
     const options: SignOptions = {
         expiresIn: parseExpiry(config.jwt.refreshExpiry),
+        // Unique ID so two tokens issued in the same second never collide
+        jwtid: randomUUID(),
     };
 
     return jwt.sign(payload, config.jwt.refreshSecret, options);
@@ -57,3 +69,19 @@ export function getRefreshTokenExpiry(): Date {
     const seconds = parseExpiry(config.jwt.refreshExpiry);
     return new Date(Date.now() + seconds * 1000);
 }
+
+/**
+ * MFA challenge tokens are signed with their own secret so they can never be
+ * mistaken for an access token by authGuard.
+ */
+export function generateMfaChallengeToken(payload: MfaChallengePayload): string {
+    const options: SignOptions = {
+        expiresIn: parseExpiry(config.mfa.challengeExpiry),
+    };
+
+    return jwt.sign(payload, config.mfa.challengeSecret, options);
+}
+
+export function verifyMfaChallengeToken(token: string): MfaChallengePayload & JwtPayload {
+    return jwt.verify(token, config.mfa.challengeSecret) as MfaChallengePayload & JwtPayload;
+}
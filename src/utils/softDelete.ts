@@ -0,0 +1,39 @@
+import { Prisma } from '@prisma/client';
+
+// Models whose rows are flagged with deletedAt instead of being removed
+const SOFT_DELETE_MODELS: Prisma.ModelName[] = ['Patient', 'Staff', 'Bill'];
+
+const READ_ACTIONS: Prisma.PrismaAction[] = [
+    'findUnique',
+    'findUniqueOrThrow',
+    'findFirst',
+    'findFirstOrThrow',
+    'findMany',
+    'count',
+    'aggregate',
+    'groupBy',
+];
+
+/**
+ * Spread into a `where` to include soft-deleted rows, e.g.
+ * `prisma.bill.findFirst({ where: { ...withDeleted, billNumber } })`.
+ * Any explicit `deletedAt` condition has the same effect.
+ */
+export const withDeleted = { deletedAt: undefined };
+
+/**
+ * Hide soft-deleted patients, staff and bills from top-level reads unless the
+ * query mentions `deletedAt` itself. Rows reached through `include` are not filtered.
+ */
+export const softDeleteMiddleware: Prisma.Middleware = async (params, next) => {
+    if (params.model && SOFT_DELETE_MODELS.includes(params.model) && READ_ACTIONS.includes(params.action)) {
+        params.args = params.args ?? {};
+        const where = params.args.where ?? {};
+
+        if (!('deletedAt' in where)) {
+            params.args.where = { ...where, deletedAt: null };
+        }
+    }
+
+    return next(params);
+};
@@ -0,0 +1,37 @@
+/**
+ * Turn a User-Agent header into a short label such as "Chrome on Windows".
+ * Only meant for display in session lists - not for feature detection.
+ */
+export function describeUserAgent(userAgent?: string): string | undefined {
+    if (!userAgent) {
+        return undefined;
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+        [/Edg\//, 'Edge'],
+        [/OPR\/|Opera/, 'Opera'],
+        [/Chrome\//, 'Chrome'],
+        [/Firefox\//, 'Firefox'],
+        [/Safari\//, 'Safari'],
+        [/okhttp/i, 'Android app'],
+        [/PostmanRuntime/, 'Postman'],
+        [/curl\//, 'curl'],
+    ];
+
+    const platforms: Array<[RegExp, string]> = [
+        [/Windows/, 'Windows'],
+        [/Android/, 'Android'],
+        [/iPhone|iPad|iOS/, 'iOS'],
+        [/Mac OS X|Macintosh/, 'macOS'],
+        [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) {
+        return `${browser} on ${platform}`;
+    }
+
+    return browser || platform || 'Unknown device';
+}